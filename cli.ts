@@ -0,0 +1,265 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import dotenv from 'dotenv';
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { imageMimeType } from './src/core/images.ts';
+import { matchManifest, parseManifest } from './src/core/manifest.ts';
+import { MAX_VIEWS_PER_PRODUCT, parseViewFileName } from './src/core/products.ts';
+import { BUILT_IN_PRESETS, DEFAULT_SHOT_PLAN, resizePlan } from './src/core/shotPlan.ts';
+import { formatCost } from './src/core/usage.ts';
+import type { InlineImage, ShotPlan, ShotStatus, TargetInput } from './src/core/types.ts';
+import { openDatabase, type DB } from './server/db.ts';
+import { collectCatalogFiles } from './server/export.ts';
+import { createJobRunner } from './server/jobs.ts';
+import { createProviderFromEnv } from './server/providers.ts';
+import { createSession } from './server/sessions.ts';
+import { getBatch, listShotPlanPresets } from './server/store.ts';
+
+dotenv.config({ path: ['.env.local', '.env'], quiet: true });
+
+const USAGE = `Generates a session from folders of images, without the web app.
+
+Usage: npm run generate -- --scenes <dir> (--products <dir> | --manifest <file>) --out <dir> [options]
+
+  --scenes <dir>       scene reference images, used in file name order
+  --products <dir>     product photos; SKU123_front.jpg and SKU123_back.jpg make one product
+  --manifest <file>    CSV or JSON catalog manifest, as imported in the app; its images are
+                       looked up in --products, or next to the manifest
+  --out <dir>          where the images, manifests and report.json are written
+  --plan <plan>        shot plan: a preset id or name, or a JSON file like {"shots": [...]}
+                       (default: ${BUILT_IN_PRESETS[0].name})
+  --name <name>        session name (default: the output folder's name)
+  --model <id>         image model
+  --concurrency <n>    shots generated in parallel
+  --budget <usd>       pause the session once it has spent this much
+  --db <file>          database to record the session in (default: DATABASE_PATH or the app's)
+
+Exits 1 when any product or shot fails, 2 when the input is unusable.`;
+
+/** An input problem that stops the run before anything is generated. */
+class InputError extends Error {}
+
+interface ShotReport {
+  shot: number;
+  status: ShotStatus;
+  attempts: number;
+  file?: string; // relative to the output folder
+  renditions?: string[];
+  error?: string;
+}
+
+interface ProductReport {
+  product: number;
+  sku?: string;
+  name?: string;
+  colorway?: string;
+  status: string;
+  shots: ShotReport[];
+}
+
+interface RunReport {
+  session: string;
+  batchId: string;
+  status: string;
+  startedAt: string;
+  finishedAt: string;
+  spent: number; // USD
+  succeeded: number; // shots
+  failed: number; // shots, plus products skipped before the run
+  skipped: string[]; // products left out because of input problems
+  products: ProductReport[];
+}
+
+/** Image files under `dir`, as sorted paths relative to it. */
+function listImages(dir: string, recursive: boolean): string[] {
+  if (!fs.existsSync(dir) || !fs.statSync(dir).isDirectory()) throw new InputError(`${dir} is not a folder.`);
+  const entries = fs.readdirSync(dir, { recursive, withFileTypes: true });
+  return entries
+    .filter(entry => entry.isFile() && imageMimeType(entry.name))
+    .map(entry => path.relative(dir, path.join(entry.parentPath, entry.name)).split(path.sep).join('/'))
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+}
+
+const readImage = (file: string): InlineImage =>
+  ({ data: fs.readFileSync(file).toString('base64'), mimeType: imageMimeType(file)! });
+
+function loadPlan(db: DB, value: string | undefined): ShotPlan {
+  if (!value) return DEFAULT_SHOT_PLAN;
+  const preset = [...BUILT_IN_PRESETS, ...listShotPlanPresets(db)]
+    .find(preset => preset.id === value || preset.name.toLowerCase() === value.toLowerCase());
+  if (preset) return preset.plan;
+  if (!fs.existsSync(value)) throw new InputError(`No shot plan preset or file named ${value}.`);
+  try {
+    return JSON.parse(fs.readFileSync(value, 'utf8'));
+  } catch (error: any) {
+    throw new InputError(`Shot plan ${value} is not valid JSON: ${error.message}`);
+  }
+}
+
+/** Groups `SKU_view` files into products the way the app's upload panel does. */
+function productsFromFolder(dir: string, plan: ShotPlan): TargetInput[] {
+  const targets: TargetInput[] = [];
+  for (const file of listImages(dir, false)) {
+    const { sku, view } = parseViewFileName(file);
+    const image = { image: readImage(path.join(dir, file)), label: view };
+    const match = view
+      ? targets.find(target => target.sku!.toLowerCase() === sku.toLowerCase() && target.views.length < MAX_VIEWS_PER_PRODUCT)
+      : undefined;
+    if (match) match.views.push(image);
+    else targets.push({ sku, views: [image], plan });
+  }
+  return targets;
+}
+
+/** Products from a manifest; rows that are invalid or missing images are skipped and reported. */
+function productsFromManifest(file: string, dir: string, plan: ShotPlan): { targets: TargetInput[]; skipped: string[] } {
+  if (!fs.existsSync(file)) throw new InputError(`Manifest ${file} not found.`);
+  const { rows, errors } = parseManifest(fs.readFileSync(file, 'utf8'), file.toLowerCase().endsWith('.json') ? 'json' : 'csv');
+  const { matches } = matchManifest(rows, listImages(dir, true));
+  const skipped = [...errors];
+  const targets: TargetInput[] = [];
+  for (const { row, files, missing } of matches) {
+    if (missing.length > 0) {
+      skipped.push(`Row ${row.line}: ${row.sku} is missing ${missing.join(', ')}.`);
+      continue;
+    }
+    targets.push({
+      sku: row.sku,
+      name: row.name,
+      colorway: row.colorway,
+      notes: row.notes,
+      views: files.map(image => ({ image: readImage(path.join(dir, image)), label: parseViewFileName(image).view })),
+      plan: row.shotCount ? resizePlan(plan, row.shotCount) : plan,
+    });
+  }
+  return { targets, skipped };
+}
+
+function buildReport(db: DB, batchId: string, startedAt: Date, outDir: string, skipped: string[]): RunReport {
+  const batch = getBatch(db, batchId)!;
+  const catalog = collectCatalogFiles(db, batch);
+  for (const [file, data] of Object.entries(catalog?.files ?? {})) {
+    fs.mkdirSync(path.dirname(path.join(outDir, file)), { recursive: true });
+    fs.writeFileSync(path.join(outDir, file), data);
+  }
+  const exported = catalog?.manifest.images ?? [];
+  const products = batch.jobs.map((job, position): ProductReport => ({
+    product: position + 1,
+    sku: job.sku,
+    name: job.name,
+    colorway: job.colorway,
+    status: job.status,
+    shots: job.shots.map(shot => {
+      const image = exported.find(image => image.product === position + 1 && image.shot === shot.index + 1);
+      return {
+        shot: shot.index + 1,
+        status: shot.status,
+        attempts: shot.attempts,
+        file: image?.file,
+        renditions: image?.renditions,
+        error: shot.status === 'completed' ? undefined : shot.error ?? `Shot ended ${shot.status}.`,
+      };
+    }),
+  }));
+  const shots = products.flatMap(product => product.shots);
+  const succeeded = shots.filter(shot => shot.status === 'completed').length;
+  return {
+    session: batch.name,
+    batchId,
+    status: batch.status,
+    startedAt: startedAt.toISOString(),
+    finishedAt: new Date().toISOString(),
+    spent: batch.spent,
+    succeeded,
+    failed: shots.length - succeeded + skipped.length,
+    skipped,
+    products,
+  };
+}
+
+async function main(): Promise<number> {
+  const { values } = parseArgs({
+    options: {
+      scenes: { type: 'string' },
+      products: { type: 'string' },
+      manifest: { type: 'string' },
+      out: { type: 'string' },
+      plan: { type: 'string' },
+      name: { type: 'string' },
+      model: { type: 'string' },
+      concurrency: { type: 'string' },
+      budget: { type: 'string' },
+      db: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (!values.scenes || !(values.products || values.manifest) || !values.out) {
+    throw new InputError("--scenes, --products or --manifest, and --out are required. See --help.");
+  }
+
+  const db = openDatabase(values.db);
+  const provider = createProviderFromEnv();
+  const runner = createJobRunner(db, provider);
+  const plan = loadPlan(db, values.plan);
+  const scenes = listImages(values.scenes, false).map(file => readImage(path.join(values.scenes!, file)));
+  const { targets, skipped } = values.manifest
+    ? productsFromManifest(values.manifest, values.products ?? path.dirname(values.manifest), plan)
+    : { targets: productsFromFolder(values.products!, plan), skipped: [] };
+  skipped.forEach(message => console.warn(`Skipped: ${message}`));
+  if (targets.length === 0) throw new InputError("No products to generate.");
+
+  const outDir = path.resolve(values.out);
+  const created = createSession(db, provider, {
+    name: values.name ?? path.basename(outDir),
+    scenes,
+    targets,
+    imageModel: values.model,
+    concurrency: values.concurrency === undefined ? undefined : Number(values.concurrency),
+    budget: values.budget === undefined ? undefined : Number(values.budget),
+  });
+  if ('error' in created) throw new InputError(created.error);
+
+  const startedAt = new Date();
+  const total = targets.reduce((sum, target) => sum + target.plan.shots.length, 0);
+  console.log(`Generating ${total} shots of ${targets.length} products with ${provider.name}…`);
+  // Ctrl+C pauses instead: shots in flight finish and the rest can be resumed in the app.
+  process.once('SIGINT', () => {
+    console.log("Pausing after the shots in flight…");
+    runner.pauseBatch(created.id);
+  });
+  let lastDone = -1;
+  const progress = setInterval(() => {
+    const shots = getBatch(db, created.id)!.jobs.flatMap(job => job.shots);
+    const done = shots.filter(shot => shot.status === 'completed' || shot.status === 'error').length;
+    if (done === lastDone) return;
+    lastDone = done;
+    const failed = shots.filter(shot => shot.status === 'error').length;
+    console.log(`${done}/${shots.length} shots done${failed ? `, ${failed} failed` : ''}`);
+  }, 2000);
+  runner.startBatch(created.id);
+  await runner.idle(created.id);
+  clearInterval(progress);
+
+  fs.mkdirSync(outDir, { recursive: true });
+  const report = buildReport(db, created.id, startedAt, outDir, skipped);
+  fs.writeFileSync(path.join(outDir, 'report.json'), JSON.stringify(report, null, 2));
+  console.log(`${report.succeeded} shots generated, ${report.failed} failed, ${formatCost(report.spent)} spent. Report: ${path.join(outDir, 'report.json')}`);
+  return report.failed > 0 ? 1 : 0;
+}
+
+main().then(
+  code => process.exit(code),
+  error => {
+    console.error(error.message);
+    process.exit(error instanceof InputError || error.code?.startsWith('ERR_PARSE_ARGS') ? 2 : 1);
+  }
+);
@@ -0,0 +1,48 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import dotenv from 'dotenv';
+import express from 'express';
+import path from 'path';
+import { openDatabase } from './server/db.ts';
+import { createJobRunner } from './server/jobs.ts';
+import { createProviderFromEnv } from './server/providers.ts';
+import { createApiRouter } from './server/routes.ts';
+import { resetInterruptedWork } from './server/store.ts';
+
+dotenv.config({ path: ['.env.local', '.env'], quiet: true });
+
+async function startServer() {
+  const app = express();
+  const PORT = Number(process.env.PORT) || 3000;
+
+  const db = openDatabase();
+  resetInterruptedWork(db);
+  const provider = createProviderFromEnv();
+  const runner = createJobRunner(db, provider);
+
+  // Reference and generated images travel as base64 JSON.
+  app.use(express.json({ limit: '50mb' }));
+  app.use('/api', createApiRouter(db, runner, provider));
+
+  if (process.env.NODE_ENV !== 'production') {
+    const { createServer: createViteServer } = await import('vite');
+    const vite = await createViteServer({
+      server: { middlewareMode: true },
+      appType: 'spa',
+    });
+    app.use(vite.middlewares);
+  } else {
+    const distPath = path.resolve('dist');
+    app.use(express.static(distPath));
+    app.get('*', (_req, res) => res.sendFile(path.join(distPath, 'index.html')));
+  }
+
+  app.listen(PORT, '0.0.0.0', () => {
+    console.log(`Cardigan Studio listening on http://localhost:${PORT}`);
+  });
+}
+
+startServer();
@@ -0,0 +1,283 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+
+export type DB = Database.Database;
+
+// Each entry moves the schema forward by one `user_version`. Append only.
+const MIGRATIONS: string[] = [
+  `
+  CREATE TABLE jobs (
+    id TEXT PRIMARY KEY,
+    status TEXT NOT NULL,
+    error TEXT,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE images (
+    id TEXT PRIMARY KEY,
+    job_id TEXT NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+    role TEXT NOT NULL,
+    mime_type TEXT NOT NULL,
+    data BLOB NOT NULL,
+    created_at INTEGER NOT NULL
+  );
+  CREATE INDEX images_job ON images(job_id);
+
+  CREATE TABLE shots (
+    job_id TEXT NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+    shot_index INTEGER NOT NULL,
+    scene_image_id TEXT NOT NULL REFERENCES images(id),
+    status TEXT NOT NULL,
+    image_id TEXT REFERENCES images(id),
+    error TEXT,
+    PRIMARY KEY (job_id, shot_index)
+  );
+  `,
+  `
+  CREATE TABLE batches (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    status TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+
+  ALTER TABLE jobs ADD COLUMN batch_id TEXT REFERENCES batches(id) ON DELETE CASCADE;
+  ALTER TABLE jobs ADD COLUMN position INTEGER NOT NULL DEFAULT 0;
+  ALTER TABLE jobs ADD COLUMN target_image_id TEXT REFERENCES images(id);
+  UPDATE jobs SET target_image_id = (
+    SELECT id FROM images WHERE images.job_id = jobs.id AND images.role = 'target'
+  );
+  CREATE INDEX jobs_batch ON jobs(batch_id, position);
+
+  -- Images are now shared: a batch stores its scenes once for all of its jobs.
+  CREATE TABLE images_v2 (
+    id TEXT PRIMARY KEY,
+    mime_type TEXT NOT NULL,
+    data BLOB NOT NULL,
+    created_at INTEGER NOT NULL
+  );
+  INSERT INTO images_v2 SELECT id, mime_type, data, created_at FROM images;
+  DROP TABLE images;
+  ALTER TABLE images_v2 RENAME TO images;
+
+  CREATE TABLE batch_scenes (
+    batch_id TEXT NOT NULL REFERENCES batches(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    image_id TEXT NOT NULL REFERENCES images(id),
+    PRIMARY KEY (batch_id, position)
+  );
+  `,
+  `
+  ALTER TABLE shots ADD COLUMN attempts INTEGER NOT NULL DEFAULT 0;
+  ALTER TABLE batches ADD COLUMN concurrency INTEGER NOT NULL DEFAULT 2;
+  `,
+  `
+  ALTER TABLE shots ADD COLUMN aspect_ratio TEXT NOT NULL DEFAULT '3:4';
+  ALTER TABLE shots ADD COLUMN image_size TEXT NOT NULL DEFAULT '1K';
+  ALTER TABLE shots ADD COLUMN extra_prompt TEXT;
+
+  CREATE TABLE shot_plan_presets (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    plan TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+  );
+  `,
+  `
+  CREATE TABLE model_identities (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    description TEXT,
+    created_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE model_identity_images (
+    identity_id TEXT NOT NULL REFERENCES model_identities(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    image_id TEXT NOT NULL REFERENCES images(id),
+    PRIMARY KEY (identity_id, position)
+  );
+
+  ALTER TABLE batches ADD COLUMN identity_mode TEXT NOT NULL DEFAULT 'diverse';
+
+  CREATE TABLE batch_identities (
+    batch_id TEXT NOT NULL REFERENCES batches(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    identity_id TEXT NOT NULL,
+    PRIMARY KEY (batch_id, position)
+  );
+
+  -- No foreign key: the name snapshot keeps the audit trail after an identity is deleted.
+  ALTER TABLE shots ADD COLUMN identity_id TEXT;
+  ALTER TABLE shots ADD COLUMN identity_name TEXT;
+  `,
+  `
+  CREATE TABLE prompt_templates (
+    id TEXT NOT NULL,
+    version INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    body TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    PRIMARY KEY (id, version)
+  );
+
+  ALTER TABLE batches ADD COLUMN template_id TEXT NOT NULL DEFAULT 'builtin:studio';
+  ALTER TABLE batches ADD COLUMN template_version INTEGER NOT NULL DEFAULT 1;
+  ALTER TABLE batches ADD COLUMN prompt_variables TEXT NOT NULL DEFAULT '{}';
+  ALTER TABLE jobs ADD COLUMN product_name TEXT;
+
+  ALTER TABLE shots ADD COLUMN template_id TEXT;
+  ALTER TABLE shots ADD COLUMN template_version INTEGER;
+  ALTER TABLE shots ADD COLUMN prompt TEXT;
+  `,
+  `
+  ALTER TABLE jobs ADD COLUMN sku TEXT;
+  ALTER TABLE jobs ADD COLUMN colorway TEXT;
+
+  CREATE TABLE job_views (
+    job_id TEXT NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    image_id TEXT NOT NULL REFERENCES images(id),
+    label TEXT,
+    PRIMARY KEY (job_id, position)
+  );
+
+  INSERT INTO job_views (job_id, position, image_id) SELECT id, 0, target_image_id FROM jobs;
+  `,
+  `
+  ALTER TABLE jobs ADD COLUMN notes TEXT;
+  `,
+  `
+  ALTER TABLE shots ADD COLUMN model TEXT;
+  ALTER TABLE shots ADD COLUMN completed_at INTEGER;
+  `,
+  `
+  -- NULL for sessions created earlier; they use the default renditions.
+  ALTER TABLE batches ADD COLUMN renditions TEXT;
+
+  CREATE TABLE renditions (
+    image_id TEXT NOT NULL REFERENCES images(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    mime_type TEXT NOT NULL,
+    width INTEGER NOT NULL,
+    height INTEGER NOT NULL,
+    data BLOB NOT NULL,
+    created_at INTEGER NOT NULL,
+    PRIMARY KEY (image_id, name)
+  );
+  `,
+  `
+  ALTER TABLE shots ADD COLUMN note TEXT;
+  ALTER TABLE shots ADD COLUMN variant_of INTEGER;
+  ALTER TABLE shots ADD COLUMN review_status TEXT;
+
+  CREATE TABLE shot_comments (
+    id INTEGER PRIMARY KEY,
+    job_id TEXT NOT NULL,
+    shot_index INTEGER NOT NULL,
+    body TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    FOREIGN KEY (job_id, shot_index) REFERENCES shots(job_id, shot_index) ON DELETE CASCADE
+  );
+  CREATE INDEX shot_comments_shot ON shot_comments(job_id, shot_index);
+  `,
+  `
+  -- NULL for sessions created earlier; they use the default fidelity settings.
+  ALTER TABLE batches ADD COLUMN fidelity TEXT;
+  ALTER TABLE shots ADD COLUMN fidelity TEXT;
+  ALTER TABLE shots ADD COLUMN auto_requeues INTEGER NOT NULL DEFAULT 0;
+  `,
+  `
+  CREATE TABLE scenes (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    image_id TEXT NOT NULL REFERENCES images(id),
+    location TEXT,
+    pose TEXT,
+    lighting TEXT,
+    season TEXT,
+    created_at INTEGER NOT NULL
+  );
+
+  -- The library scene a session's scene came from; it outlives the scene's deletion.
+  ALTER TABLE batch_scenes ADD COLUMN scene_id TEXT;
+  `,
+  `
+  ALTER TABLE batches ADD COLUMN budget REAL;
+
+  -- One row per billed model call. Spend outlives the session or job it was for.
+  CREATE TABLE usage (
+    id INTEGER PRIMARY KEY,
+    batch_id TEXT REFERENCES batches(id) ON DELETE SET NULL,
+    job_id TEXT REFERENCES jobs(id) ON DELETE SET NULL,
+    shot_index INTEGER,
+    kind TEXT NOT NULL,
+    model TEXT NOT NULL,
+    prompt_tokens INTEGER NOT NULL,
+    output_tokens INTEGER NOT NULL,
+    images INTEGER NOT NULL,
+    cost REAL NOT NULL,
+    created_at INTEGER NOT NULL
+  );
+  CREATE INDEX usage_batch ON usage(batch_id);
+  CREATE INDEX usage_created ON usage(created_at);
+  `,
+  `
+  ALTER TABLE batches ADD COLUMN image_model TEXT;
+  `,
+  `
+  -- The upload behind a cleaned-up product photo; image_id is what the model is sent.
+  ALTER TABLE job_views ADD COLUMN original_image_id TEXT REFERENCES images(id);
+  `,
+  `
+  CREATE TABLE job_outfit (
+    job_id TEXT NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+    role TEXT NOT NULL,
+    match TEXT NOT NULL,
+    image_id TEXT NOT NULL REFERENCES images(id),
+    note TEXT,
+    PRIMARY KEY (job_id, role)
+  );
+  `,
+  `
+  -- Read-only shares of a session; deleting the row revokes the link.
+  CREATE TABLE review_links (
+    token TEXT PRIMARY KEY,
+    batch_id TEXT NOT NULL REFERENCES batches(id) ON DELETE CASCADE,
+    created_at INTEGER NOT NULL
+  );
+  CREATE INDEX review_links_batch ON review_links(batch_id);
+  -- Who set the status or wrote the comment through a review link; null for the studio.
+  ALTER TABLE shots ADD COLUMN reviewed_by TEXT;
+  ALTER TABLE shot_comments ADD COLUMN author TEXT;
+  `,
+];
+
+// Runs with foreign keys off so migrations can rebuild referenced tables.
+function migrate(db: DB) {
+  const version = db.pragma('user_version', { simple: true }) as number;
+  for (let v = version; v < MIGRATIONS.length; v++) {
+    db.transaction(() => {
+      db.exec(MIGRATIONS[v]);
+      db.pragma(`user_version = ${v + 1}`);
+    })();
+  }
+}
+
+export function openDatabase(file = process.env.DATABASE_PATH || 'data/cardigan.db'): DB {
+  if (file !== ':memory:') fs.mkdirSync(path.dirname(file), { recursive: true });
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = OFF');
+  migrate(db);
+  db.pragma('foreign_keys = ON');
+  return db;
+}
@@ -0,0 +1,107 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { strFromU8, unzipSync } from 'fflate';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { parseCsv } from '../src/core/manifest.ts';
+import { readImageMetadata } from '../src/core/metadata.ts';
+import type { DB } from './db.ts';
+import { buildCatalogZip, collectCatalogFiles } from './export.ts';
+import { createJobRunner } from './jobs.ts';
+import { createMockProvider } from './mock.ts';
+import { getBatch, setShotReview } from './store.ts';
+import { createTestSession, testDatabase, testTarget } from './testing.ts';
+
+describe('catalog export', () => {
+  let db: DB;
+  let batchId: string;
+
+  // One session, generated once: a product with a SKU and two shots, and one without.
+  beforeAll(async () => {
+    db = testDatabase();
+    const provider = createMockProvider();
+    const runner = createJobRunner(db, provider);
+    batchId = await createTestSession(db, provider, {
+      name: 'Spring drop',
+      targets: [await testTarget(2, { sku: 'SKU1', name: 'Moss cardigan' }), await testTarget(1)],
+    });
+    runner.startBatch(batchId);
+    await runner.idle(batchId);
+  });
+
+  it('lays out one folder per product plus scenes and manifests', () => {
+    const { files, manifest } = collectCatalogFiles(db, getBatch(db, batchId)!)!;
+
+    expect(Object.keys(files).sort()).toEqual([
+      'SKU1/SKU1-shot-1.png',
+      'SKU1/SKU1-shot-2.png',
+      'SKU1/renditions/SKU1-shot-1-256.jpg',
+      'SKU1/renditions/SKU1-shot-2-256.jpg',
+      'SKU1/source/SKU1-front.png',
+      'manifest.csv',
+      'manifest.json',
+      'product-2/product-2-shot-1.png',
+      'product-2/renditions/product-2-shot-1-256.jpg',
+      'product-2/source/product-2-front.png',
+      'scenes/scene-1.png',
+    ]);
+    expect(manifest.session).toBe('Spring drop');
+    expect(manifest.images.map(image => [image.file, image.sku, image.product, image.shot])).toEqual([
+      ['SKU1/SKU1-shot-1.png', 'SKU1', 1, 1],
+      ['SKU1/SKU1-shot-2.png', 'SKU1', 1, 2],
+      ['product-2/product-2-shot-1.png', undefined, 2, 1],
+    ]);
+    expect(manifest.images[0]).toMatchObject({
+      renditions: ['SKU1/renditions/SKU1-shot-1-256.jpg'],
+      sourceImages: ['SKU1/source/SKU1-front.png'],
+      scene: 'scenes/scene-1.png',
+      model: 'mock',
+      templateId: 'builtin:studio',
+    });
+    expect(JSON.parse(strFromU8(files['manifest.json']))).toEqual(manifest);
+
+    const [header, ...rows] = parseCsv(strFromU8(files['manifest.csv']));
+    expect(rows).toHaveLength(3);
+    expect(rows[2][header.indexOf('file')]).toBe('product-2/product-2-shot-1.png');
+    expect(rows[0][header.indexOf('renditions')]).toBe('SKU1/renditions/SKU1-shot-1-256.jpg');
+  });
+
+  it('embeds provenance in generated images and renditions only', () => {
+    const { files } = collectCatalogFiles(db, getBatch(db, batchId)!)!;
+
+    for (const file of ['SKU1/SKU1-shot-1.png', 'SKU1/renditions/SKU1-shot-1-256.jpg']) {
+      expect(readImageMetadata(files[file])!.metadata).toMatchObject({
+        sku: 'SKU1',
+        productName: 'Moss cardigan',
+        model: 'mock',
+        aiGenerated: true,
+      });
+    }
+    expect(readImageMetadata(files['SKU1/source/SKU1-front.png'])!.metadata.aiGenerated).toBe(false);
+  });
+
+  it('narrows to chosen products and approved images', () => {
+    const batch = getBatch(db, batchId)!;
+    const [first, second] = batch.jobs;
+
+    const one = collectCatalogFiles(db, batch, { jobIds: [second.id] })!;
+    expect(one.manifest.images.map(image => image.file)).toEqual(['product-2/product-2-shot-1.png']);
+
+    expect(collectCatalogFiles(db, batch, { approvedOnly: true })).toBeUndefined();
+    setShotReview(db, first.id, 1, 'approved');
+    const approved = collectCatalogFiles(db, getBatch(db, batchId)!, { approvedOnly: true })!;
+    expect(approved.manifest.images.map(image => image.file)).toEqual(['SKU1/SKU1-shot-2.png']);
+    setShotReview(db, first.id, 1, null);
+  });
+
+  it('zips the same files', () => {
+    const batch = getBatch(db, batchId)!;
+    const zipped = unzipSync(buildCatalogZip(db, batch)!);
+    const { files } = collectCatalogFiles(db, batch)!;
+
+    expect(Object.keys(zipped).sort()).toEqual(Object.keys(files).sort());
+    expect(zipped['SKU1/SKU1-shot-1.png']).toEqual(files['SKU1/SKU1-shot-1.png']);
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { strToU8, zipSync } from 'fflate';
+import { fidelityScore } from '../src/core/fidelity.ts';
+import { imageExtension } from '../src/core/images.ts';
+import { formatCsv } from '../src/core/manifest.ts';
+import { embedImageMetadata } from '../src/core/metadata.ts';
+import { productFileStem } from '../src/core/products.ts';
+import type { BatchRecord, ImageMetadata, JobRecord, ProductView, ReviewStatus, ShotRecord } from '../src/core/types.ts';
+import type { DB } from './db.ts';
+import { getImage, getRendition } from './store.ts';
+
+/** One generated image as described in manifest.json. Paths are relative to the ZIP root. */
+export interface ExportedImage {
+  file: string;
+  renditions: string[];
+  sku?: string;
+  name?: string;
+  colorway?: string;
+  product: number; // position in the session, for products without a unique SKU
+  shot: number;
+  sourceImages: string[]; // as sent to the model
+  originalImages: string[]; // uploads that were cleaned up before sending
+  outfit: string[]; // styling pieces, named by role and whether they must match
+  scene: string;
+  sceneId?: string; // the scene library entry, when the scene came from the library
+  prompt?: string;
+  templateId?: string;
+  templateVersion?: number;
+  model?: string;
+  modelIdentity?: string;
+  aspectRatio: string;
+  imageSize: string;
+  extraPrompt?: string;
+  attempts: number;
+  generatedAt?: string;
+  variantOf?: number;
+  review?: ReviewStatus;
+  reviewedBy?: string;
+  fidelity?: number;
+  fidelityFlagged?: boolean;
+}
+
+export interface CatalogExportOptions {
+  jobIds?: string[];
+  approvedOnly?: boolean;
+}
+
+export interface CatalogManifest {
+  session: string;
+  exportedAt: string;
+  images: ExportedImage[];
+}
+
+/** The exported files by path, manifests included, before they are zipped or written out. */
+export interface CatalogFiles {
+  files: Record<string, Uint8Array>;
+  manifest: CatalogManifest;
+}
+
+const CSV_COLUMNS: (keyof ExportedImage)[] = [
+  'file', 'renditions', 'sku', 'name', 'colorway', 'product', 'shot', 'sourceImages', 'originalImages', 'outfit', 'scene', 'sceneId', 'model', 'modelIdentity',
+  'templateId', 'templateVersion', 'aspectRatio', 'imageSize', 'extraPrompt', 'attempts', 'generatedAt', 'variantOf',
+  'review', 'reviewedBy', 'fidelity', 'fidelityFlagged', 'prompt',
+];
+
+/** Provenance written into a generated image and each of its renditions. */
+const shotMetadata = (batch: BatchRecord, job: JobRecord, shot: ShotRecord): ImageMetadata => ({
+  sku: job.sku,
+  productName: job.name,
+  sceneId: batch.sceneIds[batch.sceneImageIds.indexOf(shot.sceneImageId)] ?? undefined,
+  model: shot.model,
+  templateId: shot.templateId,
+  templateVersion: shot.templateVersion,
+  generatedAt: new Date(shot.completedAt ?? job.updatedAt).toISOString(),
+  aiGenerated: true,
+});
+
+/**
+ * Lays out the catalog: one folder per product (named by SKU), its source
+ * photos and renditions, the scene references used and a manifest in JSON and
+ * CSV. Returns undefined when no finished image matches the options.
+ */
+export function collectCatalogFiles(
+  db: DB,
+  batch: BatchRecord,
+  { jobIds, approvedOnly = false }: CatalogExportOptions = {}
+): CatalogFiles | undefined {
+  const files: Record<string, Uint8Array> = {};
+  const images: ExportedImage[] = [];
+  const folders = new Set<string>();
+  const scenePaths = new Map<string, string>();
+
+  // Generated images carry their provenance; source photos and scenes go in as uploaded.
+  const addImage = (path: string, imageId: string, metadata?: ImageMetadata) => {
+    const image = getImage(db, imageId);
+    if (!image) throw new Error(`Image ${imageId} not found.`);
+    const file = `${path}.${imageExtension(image.mimeType)}`;
+    files[file] = metadata ? embedImageMetadata(image.data, metadata) : image.data;
+    return file;
+  };
+
+  const addRenditions = (path: string, shot: ShotRecord, metadata: ImageMetadata) => shot.renditions.map(rendition => {
+    const file = `${path}-${rendition.name}`;
+    files[file] = embedImageMetadata(getRendition(db, shot.imageId!, rendition.name)!.data, metadata);
+    return file;
+  });
+
+  const scenePath = (imageId: string) => {
+    if (!scenePaths.has(imageId)) {
+      scenePaths.set(imageId, addImage(`scenes/scene-${batch.sceneImageIds.indexOf(imageId) + 1}`, imageId));
+    }
+    return scenePaths.get(imageId)!;
+  };
+
+  batch.jobs.forEach((job, position) => {
+    if (jobIds && !jobIds.includes(job.id)) return;
+    // A shot being regenerated still has its previous image, which is exported.
+    const shots = job.shots.filter(shot => shot.imageId && (!approvedOnly || shot.review === 'approved'));
+    if (shots.length === 0) return;
+
+    // Two rows with the same SKU still get separate folders.
+    const stem = productFileStem(job, position);
+    let folder = stem;
+    for (let n = 2; folders.has(folder); n++) folder = `${stem}-${n}`;
+    folders.add(folder);
+
+    const viewName = (view: ProductView, i: number) => `${folder}/source/${stem}-${view.label ?? `view-${i + 1}`}`;
+    const sourceImages = job.views.map((view, i) => addImage(viewName(view, i), view.imageId));
+    const originalImages = job.views.flatMap((view, i) =>
+      view.originalImageId ? [addImage(`${viewName(view, i)}-original`, view.originalImageId)] : []);
+    const outfit = job.outfit.map(piece => addImage(`${folder}/outfit/${stem}-${piece.role}-${piece.match}`, piece.imageId));
+    for (const shot of shots) {
+      const metadata = shotMetadata(batch, job, shot);
+      images.push({
+        file: addImage(`${folder}/${stem}-shot-${shot.index + 1}`, shot.imageId!, metadata),
+        renditions: addRenditions(`${folder}/renditions/${stem}-shot-${shot.index + 1}`, shot, metadata),
+        sku: job.sku,
+        name: job.name,
+        colorway: job.colorway,
+        product: position + 1,
+        shot: shot.index + 1,
+        sourceImages,
+        originalImages,
+        outfit,
+        scene: scenePath(shot.sceneImageId),
+        sceneId: metadata.sceneId,
+        prompt: shot.prompt,
+        templateId: shot.templateId,
+        templateVersion: shot.templateVersion,
+        model: shot.model,
+        modelIdentity: shot.identityName,
+        aspectRatio: shot.aspectRatio,
+        imageSize: shot.imageSize,
+        extraPrompt: shot.extraPrompt,
+        attempts: shot.attempts,
+        generatedAt: metadata.generatedAt,
+        variantOf: shot.variantOf === undefined ? undefined : shot.variantOf + 1,
+        review: shot.review,
+        reviewedBy: shot.reviewedBy,
+        fidelity: shot.fidelity && fidelityScore(shot.fidelity),
+        fidelityFlagged: shot.fidelity?.flagged,
+      });
+    }
+  });
+  if (images.length === 0) return undefined;
+
+  const manifest: CatalogManifest = { session: batch.name, exportedAt: new Date().toISOString(), images };
+  files['manifest.json'] = strToU8(JSON.stringify(manifest, null, 2));
+  files['manifest.csv'] = strToU8(formatCsv([
+    CSV_COLUMNS,
+    ...images.map(image => CSV_COLUMNS.map(column => {
+      const value = image[column];
+      return Array.isArray(value) ? value.join(';') : value;
+    })),
+  ]));
+  return { files, manifest };
+}
+
+/** The catalog as a ZIP download. Returns undefined when no finished image matches the options. */
+export function buildCatalogZip(db: DB, batch: BatchRecord, options: CatalogExportOptions = {}): Uint8Array | undefined {
+  const catalog = collectCatalogFiles(db, batch, options);
+  if (!catalog) return undefined;
+  // Only the manifests are worth compressing; images already are.
+  return zipSync(Object.fromEntries(Object.entries(catalog.files).map(([path, data]) =>
+    [path, path.startsWith('manifest.') ? data : [data, { level: 0 }]])));
+}
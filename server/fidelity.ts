@@ -0,0 +1,55 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import sharp from 'sharp';
+import { compareColors, dominantColors, fidelityScore, productPixels, torsoPixels } from '../src/core/fidelity.ts';
+import type { FidelityResult, FidelitySettings, InlineImage, TokenUsage } from '../src/core/types.ts';
+import type { ImageProvider } from './providers.ts';
+
+// Side of the square every image is shrunk to before its colours are read.
+const SAMPLE_SIZE = 64;
+
+async function samplePixels(image: InlineImage): Promise<Uint8Array> {
+  const data = await sharp(Buffer.from(image.data, 'base64'))
+    .rotate()
+    .flatten({ background: '#ffffff' })
+    .resize(SAMPLE_SIZE, SAMPLE_SIZE, { fit: 'fill' })
+    .removeAlpha()
+    .raw()
+    .toBuffer();
+  return new Uint8Array(data);
+}
+
+/**
+ * Scores how faithfully `output` reproduces the garment in `garment` (the
+ * product's photos) and, when the settings ask for it and the provider can, adds
+ * the provider's own critique. A failed critique leaves the colour score standing.
+ * The critique's billed usage goes to `onUsage`.
+ */
+export async function assessFidelity(
+  garment: InlineImage[],
+  output: InlineImage,
+  settings: FidelitySettings,
+  provider: ImageProvider,
+  signal?: AbortSignal,
+  onUsage?: (usage: TokenUsage) => void
+): Promise<FidelityResult> {
+  const garmentPixels = (await Promise.all(garment.map(samplePixels))).map(rgb => productPixels(rgb, SAMPLE_SIZE));
+  const garmentPalette = dominantColors(Uint8Array.from(garmentPixels.flatMap(rgb => [...rgb])));
+  const outputPalette = dominantColors(torsoPixels(await samplePixels(output), SAMPLE_SIZE), 8);
+  const { score, deltaE } = compareColors(garmentPalette, outputPalette);
+
+  let critique: FidelityResult['critique'];
+  if (settings.critique && provider.critique) {
+    const response = await provider.critique({ garment, output }, signal).catch(error => {
+      console.warn("Fidelity critique failed:", error.message);
+      return undefined;
+    });
+    if (response?.usage) onUsage?.(response.usage);
+    critique = response && { score: response.score, notes: response.notes };
+  }
+  const result = { score, deltaE, garmentColors: garmentPalette.map(color => color.hex), critique };
+  return { ...result, flagged: fidelityScore(result) < settings.threshold };
+}
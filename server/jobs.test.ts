@@ -0,0 +1,200 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_IMAGE_MODEL } from '../src/core/usage.ts';
+import type { DB } from './db.ts';
+import { createJobRunner } from './jobs.ts';
+import { createMockProvider } from './mock.ts';
+import type { ImageProvider } from './providers.ts';
+import { getBatch } from './store.ts';
+import { createTestSession, testDatabase, testImage, testTarget } from './testing.ts';
+
+const FAST_RETRY = { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 1 };
+
+const shotStatuses = (db: DB, batchId: string) =>
+  getBatch(db, batchId)!.jobs.map(job => job.shots.map(shot => shot.status));
+
+/** The mock provider, held at each call until the test lets it go. Aborts reject like the real one. */
+function gatedProvider() {
+  const mock = createMockProvider();
+  let release!: () => void;
+  let gate = new Promise<void>(resolve => release = resolve);
+  let started!: () => void;
+  const firstCall = new Promise<void>(resolve => started = resolve);
+  const provider: ImageProvider = {
+    ...mock,
+    async generate(request, signal) {
+      started();
+      await new Promise<void>((resolve, reject) => {
+        gate.then(resolve);
+        signal?.addEventListener('abort', () => reject(new Error("aborted")), { once: true });
+      });
+      return mock.generate(request, signal);
+    },
+  };
+  return {
+    provider,
+    firstCall,
+    open: () => release(),
+    // Later calls pass straight through.
+    reset: () => gate = Promise.resolve(),
+  };
+}
+
+describe('job runner', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('drains every shot of a batch', async () => {
+    const db = testDatabase();
+    const provider = createMockProvider();
+    const runner = createJobRunner(db, provider);
+    const id = await createTestSession(db, provider, {
+      targets: [await testTarget(2, { sku: 'A1' }), await testTarget(1, { sku: 'B2' })],
+      concurrency: 2,
+    });
+
+    runner.startBatch(id);
+    await runner.idle(id);
+
+    const batch = getBatch(db, id)!;
+    expect(batch.status).toBe('completed');
+    expect(batch.jobs.map(job => job.status)).toEqual(['completed', 'completed']);
+    for (const shot of batch.jobs.flatMap(job => job.shots)) {
+      expect(shot.imageId).toBeDefined();
+      expect(shot.model).toBe('mock');
+      expect(shot.prompt).toContain('TARGET CARDIGAN');
+      expect(shot.renditions.map(rendition => rendition.name)).toEqual(['256.jpg']);
+    }
+    // Mock calls are recorded but free.
+    expect(batch.spent).toBe(0);
+  });
+
+  it('retries retryable errors and fails on the rest', async () => {
+    const db = testDatabase();
+    const mock = createMockProvider();
+    const calls: string[] = [];
+    const provider: ImageProvider = {
+      ...mock,
+      async generate(request, signal) {
+        const sku = request.parts.some(part => 'text' in part && part.text.includes('BAD')) ? 'BAD' : 'FLAKY';
+        calls.push(sku);
+        if (sku === 'BAD') throw Object.assign(new Error("Invalid argument"), { status: 400 });
+        if (calls.filter(call => call === 'FLAKY').length === 1) throw Object.assign(new Error("Unavailable"), { status: 503 });
+        return mock.generate(request, signal);
+      },
+    };
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const runner = createJobRunner(db, provider, { retry: FAST_RETRY });
+    const id = await createTestSession(db, provider, {
+      targets: [await testTarget(1, { sku: 'FLAKY' }), await testTarget(1, { sku: 'BAD' })],
+      concurrency: 1,
+    });
+
+    runner.startBatch(id);
+    await runner.idle(id);
+
+    const [flaky, bad] = getBatch(db, id)!.jobs;
+    expect(flaky.shots[0]).toMatchObject({ status: 'completed', attempts: 2 });
+    expect(bad.shots[0]).toMatchObject({ status: 'error', attempts: 1, error: "Invalid argument" });
+    expect(getBatch(db, id)!.status).toBe('partial');
+  });
+
+  it('pauses after the shot in flight and resumes where it stopped', async () => {
+    const db = testDatabase();
+    const gated = gatedProvider();
+    const runner = createJobRunner(db, gated.provider);
+    const id = await createTestSession(db, gated.provider, { targets: [await testTarget(3)], concurrency: 1 });
+
+    runner.startBatch(id);
+    await gated.firstCall;
+    runner.pauseBatch(id);
+    gated.open();
+    await runner.idle(id);
+
+    expect(getBatch(db, id)!.status).toBe('paused');
+    expect(shotStatuses(db, id)).toEqual([['completed', 'pending', 'pending']]);
+
+    gated.reset();
+    runner.startBatch(id);
+    await runner.idle(id);
+    expect(getBatch(db, id)!.status).toBe('completed');
+    expect(shotStatuses(db, id)).toEqual([['completed', 'completed', 'completed']]);
+  });
+
+  it('replaces the image of a shot re-queued for low fidelity', async () => {
+    const db = testDatabase();
+    const mock = createMockProvider();
+    // The first shot comes back without the red cardigan, which scores far below the threshold.
+    let calls = 0;
+    const provider: ImageProvider = {
+      ...mock,
+      async generate(request, signal) {
+        const result = await mock.generate(request, signal);
+        return ++calls === 1 ? { ...result, images: [await testImage('#2a5', 512)] } : result;
+      },
+    };
+    const runner = createJobRunner(db, provider);
+    const id = await createTestSession(db, provider, {
+      targets: [await testTarget(1)],
+      fidelity: { threshold: 70, action: 'requeue', maxRequeues: 1, critique: false },
+    });
+
+    runner.startBatch(id);
+    await runner.idle(id);
+
+    const [shot] = getBatch(db, id)!.jobs[0].shots;
+    expect(calls).toBe(2);
+    expect(shot).toMatchObject({ status: 'completed', fidelity: { flagged: false } });
+    // The scene, the product photo and the second shot; the first shot and its rendition are gone.
+    const count = (table: string) => (db.prepare(`SELECT COUNT(*) AS n FROM ${table}`).get() as { n: number }).n;
+    expect(count('images')).toBe(3);
+    expect(db.prepare('SELECT image_id FROM renditions').all()).toEqual([{ image_id: shot.imageId }]);
+  });
+
+  it('pauses once the budget is spent', async () => {
+    const db = testDatabase();
+    const mock = createMockProvider();
+    // Bills each shot as $1.20 of Gemini 3 Pro output.
+    const provider: ImageProvider = {
+      ...mock,
+      async generate(request, signal) {
+        const result = await mock.generate(request, signal);
+        return { ...result, usage: { model: DEFAULT_IMAGE_MODEL, promptTokens: 0, outputTokens: 10_000 } };
+      },
+    };
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const runner = createJobRunner(db, provider);
+    const id = await createTestSession(db, provider, { targets: [await testTarget(3)], concurrency: 1, budget: 2 });
+
+    runner.startBatch(id);
+    await runner.idle(id);
+
+    const batch = getBatch(db, id)!;
+    expect(batch.status).toBe('paused');
+    expect(batch.spent).toBeCloseTo(2.4);
+    expect(shotStatuses(db, id)).toEqual([['completed', 'completed', 'pending']]);
+  });
+
+  it('cancels the shot in flight and everything still queued', async () => {
+    const db = testDatabase();
+    const gated = gatedProvider();
+    const runner = createJobRunner(db, gated.provider);
+    const id = await createTestSession(db, gated.provider, { targets: [await testTarget(2), await testTarget(1)], concurrency: 1 });
+
+    runner.startBatch(id);
+    await gated.firstCall;
+    runner.cancelBatch(id);
+    await runner.idle(id);
+
+    const batch = getBatch(db, id)!;
+    expect(batch.status).toBe('cancelled');
+    expect(batch.jobs.flatMap(job => job.shots).every(shot => shot.status === 'cancelled')).toBe(true);
+    expect(batch.jobs.flatMap(job => job.shots).some(shot => shot.imageId)).toBe(false);
+  });
+});
@@ -0,0 +1,259 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { buildShotParts, describeParts } from '../src/core/prompt.ts';
+import { DEFAULT_CONCURRENCY } from '../src/core/settings.ts';
+import type { TokenUsage, UsageKind } from '../src/core/types.ts';
+import type { DB } from './db.ts';
+import { assessFidelity } from './fidelity.ts';
+import type { ImageProvider } from './providers.ts';
+import { createRenditions } from './renditions.ts';
+import { AbortedError, DEFAULT_RETRY_OPTIONS, type RetryOptions, withRetry } from './retry.ts';
+import {
+  autoRequeueShot,
+  cancelBatch,
+  cancelJob,
+  claimNextShot,
+  finalizeBatch,
+  getBatch,
+  getIdentity,
+  getImageModel,
+  getInlineImage,
+  getJob,
+  getOutputSettings,
+  getPromptSettings,
+  insertImage,
+  isBudgetSpent,
+  pauseBatch,
+  pauseJob,
+  prepareBatchRun,
+  prepareJobRun,
+  recordShotFidelity,
+  recordShotPrompt,
+  recordUsage,
+  type RunScope,
+  setBatchStatus,
+  setJobStatus,
+  setShotStatus,
+  updateJobStatus,
+} from './store.ts';
+
+export interface JobRunner {
+  /** Starts a standalone job, or the batch it belongs to. Also resumes a paused job. */
+  start(jobId: string): void;
+  /** Starts a batch, or resumes it from its first unfinished shot. */
+  startBatch(batchId: string): void;
+  pauseJob(jobId: string): void;
+  cancelJob(jobId: string): void;
+  pauseBatch(batchId: string): void;
+  cancelBatch(batchId: string): void;
+  /** Runs shots newly queued on a job without re-queueing failed or paused work. */
+  runQueued(jobId: string): void;
+  isRunning(id: string): boolean;
+  /** Resolves once the job or batch has no run in progress or pending. */
+  idle(id: string): Promise<void>;
+}
+
+export interface RunnerOptions {
+  retry?: RetryOptions;
+  /** Parallel shots for standalone jobs; batches carry their own setting. */
+  concurrency?: number;
+}
+
+export function createJobRunner(db: DB, provider: ImageProvider, options: RunnerOptions = {}): JobRunner {
+  const retry = options.retry ?? DEFAULT_RETRY_OPTIONS;
+  const running = new Set<string>();
+  const rerun = new Set<string>();
+  const inFlight = new Map<string, Set<AbortController>>(); // by job id
+  const waiting = new Map<string, (() => void)[]>(); // idle() callers, by run id
+
+  const abortJob = (jobId: string) => inFlight.get(jobId)?.forEach(controller => controller.abort());
+
+  async function runShot(jobId: string, shotIndex: number) {
+    const controller = new AbortController();
+    if (!inFlight.has(jobId)) inFlight.set(jobId, new Set());
+    inFlight.get(jobId)!.add(controller);
+
+    try {
+      const job = getJob(db, jobId)!;
+      const shot = job.shots[shotIndex];
+      const views = job.views.map(view => ({ image: getInlineImage(db, view.imageId), label: view.label }));
+      const scene = getInlineImage(db, shot.sceneImageId);
+      const identity = shot.identityId ? getIdentity(db, shot.identityId) : undefined;
+      if (shot.identityId && !identity) throw new Error(`Model identity "${shot.identityName}" was deleted.`);
+
+      const { template, variables } = getPromptSettings(db, jobId);
+      const parts = buildShotParts(template.body, {
+        shotIndex,
+        productName: job.name ?? job.sku ?? 'the cardigan',
+        sku: job.sku,
+        colorway: job.colorway,
+        notes: job.notes,
+        scene,
+        views,
+        outfit: job.outfit.map(piece => ({ ...piece, image: getInlineImage(db, piece.imageId) })),
+        extraPrompt: shot.extraPrompt,
+        revisionNote: shot.note,
+        identity: identity && {
+          name: identity.name,
+          images: identity.imageIds.map(imageId => getInlineImage(db, imageId))
+        },
+        variables
+      });
+      recordShotPrompt(db, jobId, shotIndex, template, describeParts(parts));
+
+      // Every billed call counts against the session's budget; reaching it pauses the
+      // session. Shots already in flight still finish.
+      const meter = (kind: UsageKind, usage: TokenUsage, images = 0) => {
+        recordUsage(db, { jobId, shotIndex, kind, usage, images });
+        if (job.batchId && isBudgetSpent(db, job.batchId)) {
+          console.warn(`Session ${job.batchId} reached its budget; pausing.`);
+          pauseBatch(db, job.batchId);
+        }
+      };
+
+      const model = getImageModel(db, jobId) ?? provider.defaultModel;
+      const { image, madeBy } = await withRetry(async attempt => {
+        setShotStatus(db, jobId, shotIndex, 'processing', { attempts: attempt });
+        updateJobStatus(db, jobId, true);
+        const { images: [image], model: madeBy, usage } = await provider.generate({
+          model,
+          parts,
+          aspectRatio: shot.aspectRatio,
+          imageSize: shot.imageSize
+        }, controller.signal);
+        if (usage) meter('image', usage, image ? 1 : 0);
+        if (!image) throw new Error("Model returned no image.");
+        return { image, madeBy };
+      }, retry, controller.signal, (attempt, error) => {
+        console.warn(`Retrying image ${shotIndex + 1} of job ${jobId} after attempt ${attempt}:`, error.message);
+        setShotStatus(db, jobId, shotIndex, 'retrying', { error: error.message });
+        updateJobStatus(db, jobId, true);
+      });
+
+      const imageId = insertImage(db, image);
+      const settings = getOutputSettings(db, jobId);
+      // Renditions and the fidelity check are extras: the original stays usable if they fail.
+      await createRenditions(db, imageId, settings.renditions).catch(error =>
+        console.error(`Renditions for image ${shotIndex + 1} of job ${jobId} failed:`, error));
+      const fidelity = await assessFidelity(
+        views.map(view => view.image), image, settings.fidelity, provider, controller.signal, usage => meter('critique', usage)
+      ).catch(error => console.error(`Fidelity check for image ${shotIndex + 1} of job ${jobId} failed:`, error));
+      setShotStatus(db, jobId, shotIndex, 'completed', { imageId, model: madeBy });
+      if (fidelity) {
+        recordShotFidelity(db, jobId, shotIndex, fidelity);
+        if (fidelity.flagged && settings.fidelity.action === 'requeue' && shot.autoRequeues < settings.fidelity.maxRequeues) {
+          autoRequeueShot(db, jobId, shotIndex);
+        }
+      }
+    } catch (error: any) {
+      if (error instanceof AbortedError || controller.signal.aborted) {
+        setShotStatus(db, jobId, shotIndex, 'cancelled');
+      } else {
+        console.error(`Error generating image ${shotIndex + 1}:`, error);
+        setShotStatus(db, jobId, shotIndex, 'error', { error: error.message });
+      }
+    } finally {
+      const controllers = inFlight.get(jobId)!;
+      controllers.delete(controller);
+      if (controllers.size === 0) inFlight.delete(jobId);
+      updateJobStatus(db, jobId, true);
+    }
+  }
+
+  /** Keeps `concurrency` shots in flight until nothing claimable is left in scope. */
+  async function drain(scope: RunScope, concurrency: number) {
+    const worker = async () => {
+      for (let next = claimNextShot(db, scope); next; next = claimNextShot(db, scope)) {
+        await runShot(next.jobId, next.shotIndex);
+      }
+    };
+    await Promise.all(Array.from({ length: concurrency }, worker));
+  }
+
+  async function runBatch(batchId: string) {
+    const batch = getBatch(db, batchId);
+    if (!batch) return;
+    await drain({ batchId }, batch.concurrency);
+    batch.jobs.forEach(job => updateJobStatus(db, job.id, false));
+    finalizeBatch(db, batchId);
+  }
+
+  async function runJob(jobId: string) {
+    await drain({ jobId }, options.concurrency ?? DEFAULT_CONCURRENCY);
+    updateJobStatus(db, jobId, false);
+  }
+
+  // A start that arrives mid-run is replayed once the current run drains, so
+  // work resumed during the tail of a run is never stranded.
+  const track = (id: string, work: () => Promise<void>, onFailure: (error: Error) => void) => {
+    if (running.has(id)) {
+      rerun.add(id);
+      return;
+    }
+    running.add(id);
+    work()
+      .catch(error => {
+        console.error(`Run ${id} failed:`, error);
+        onFailure(error);
+      })
+      .finally(() => {
+        running.delete(id);
+        if (rerun.delete(id)) return track(id, work, onFailure);
+        waiting.get(id)?.forEach(resolve => resolve());
+        waiting.delete(id);
+      });
+  };
+
+  const trackBatch = (batchId: string) =>
+    track(batchId, () => runBatch(batchId), () => setBatchStatus(db, batchId, 'error'));
+  const trackJob = (jobId: string) =>
+    track(jobId, () => runJob(jobId), error => setJobStatus(db, jobId, 'error', error.message));
+
+  const startBatch = (batchId: string) => {
+    prepareBatchRun(db, batchId);
+    trackBatch(batchId);
+  };
+
+  return {
+    start(jobId) {
+      const job = getJob(db, jobId);
+      if (!job) return;
+      prepareJobRun(db, jobId);
+      if (job.batchId) {
+        // Resuming one target must not override a batch-wide pause or cancel.
+        const batch = getBatch(db, job.batchId);
+        if (batch && batch.status !== 'paused' && batch.status !== 'cancelled') startBatch(job.batchId);
+        return;
+      }
+      trackJob(jobId);
+    },
+    startBatch,
+    pauseJob: jobId => pauseJob(db, jobId),
+    cancelJob(jobId) {
+      cancelJob(db, jobId);
+      abortJob(jobId);
+    },
+    pauseBatch: batchId => pauseBatch(db, batchId),
+    cancelBatch(batchId) {
+      cancelBatch(db, batchId);
+      getBatch(db, batchId)?.jobs.forEach(job => abortJob(job.id));
+    },
+    runQueued(jobId) {
+      const job = getJob(db, jobId);
+      if (!job) return;
+      if (!job.batchId) return trackJob(jobId);
+      const batch = getBatch(db, job.batchId);
+      if (!batch || batch.status === 'paused' || batch.status === 'cancelled') return;
+      setBatchStatus(db, batch.id, 'processing');
+      trackBatch(batch.id);
+    },
+    isRunning: id => running.has(id),
+    idle(id) {
+      if (!running.has(id)) return Promise.resolve();
+      return new Promise(resolve => waiting.set(id, [...(waiting.get(id) ?? []), resolve]));
+    },
+  };
+}
@@ -0,0 +1,130 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createHash } from 'crypto';
+import sharp, { type OverlayOptions } from 'sharp';
+import type { ImageSize, InlineImage, PromptPart } from '../src/core/types.ts';
+import { estimateImageUsage, findImageModel, IMAGE_MODELS } from '../src/core/usage.ts';
+import type { ImageProvider } from './providers.ts';
+
+const LONG_SIDE: Record<ImageSize, number> = { '1K': 1024, '2K': 2048, '4K': 4096 };
+
+// Where the garment goes, as fractions of the frame: the torso area the fidelity check samples.
+const GARMENT_BOX = { left: 0.2, top: 0.2, width: 0.6, height: 0.55 };
+
+interface References {
+  scene?: InlineImage;
+  garment: InlineImage[];
+  identity: InlineImage[];
+}
+
+/** Sorts the prompt's images by the label before them, as buildShotParts lays them out. */
+function sortReferences(parts: PromptPart[]): References {
+  const references: References = { garment: [], identity: [] };
+  let label = '';
+  for (const part of parts) {
+    if ('text' in part) {
+      label = part.text;
+    } else if (label.startsWith('TARGET CARDIGAN')) {
+      references.garment.push(part.inlineData);
+    } else if (label.startsWith('MODEL IDENTITY')) {
+      references.identity.push(part.inlineData);
+    } else {
+      references.scene ??= part.inlineData;
+    }
+  }
+  return references;
+}
+
+function frameSize(aspectRatio: string, imageSize: ImageSize) {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  const long = LONG_SIDE[imageSize];
+  return w >= h ? { width: long, height: Math.round(long * h / w) } : { width: Math.round(long * w / h), height: long };
+}
+
+const escapeXml = (text: string) => text.replace(/[<>&"]/g, char => `&#${char.charCodeAt(0)};`);
+
+function caption(width: number, text: string) {
+  const fontSize = Math.round(width / 40);
+  const height = fontSize * 2;
+  const svg = Buffer.from(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+    `<rect width="100%" height="100%" fill="#000" fill-opacity="0.6"/>` +
+    `<text x="${fontSize / 2}" y="${fontSize * 1.35}" font-family="sans-serif" font-size="${fontSize}" fill="#fff">${escapeXml(text)}</text>` +
+    `</svg>`
+  );
+  return { svg, height };
+}
+
+/**
+ * A placeholder shot: the scene filling the frame, the first garment photo over
+ * the torso area, the first model reference in a corner and a caption with the
+ * prompt's hash. The same request always gives the same bytes.
+ */
+export async function composePlaceholder(parts: PromptPart[], aspectRatio: string, imageSize: ImageSize): Promise<InlineImage> {
+  const { scene, garment, identity } = sortReferences(parts);
+  const { width, height } = frameSize(aspectRatio, imageSize);
+  const prompt = parts.map(part => 'text' in part ? part.text : '').join('\n');
+  const hash = createHash('sha256').update(prompt).digest('hex').slice(0, 8);
+
+  const base = scene
+    ? sharp(Buffer.from(scene.data, 'base64')).rotate().resize(width, height, { fit: 'cover' })
+    : sharp({ create: { width, height, channels: 3, background: '#d4d4d8' } });
+
+  const layers: OverlayOptions[] = [];
+  if (garment[0]) {
+    const box = { width: Math.round(width * GARMENT_BOX.width), height: Math.round(height * GARMENT_BOX.height) };
+    const { data, info } = await sharp(Buffer.from(garment[0].data, 'base64'))
+      .rotate()
+      .resize(box.width, box.height, { fit: 'inside' })
+      .png()
+      .toBuffer({ resolveWithObject: true });
+    layers.push({
+      input: data,
+      left: Math.round(width * GARMENT_BOX.left + (box.width - info.width) / 2),
+      top: Math.round(height * GARMENT_BOX.top + (box.height - info.height) / 2),
+    });
+  }
+  if (identity[0]) {
+    const side = Math.round(Math.min(width, height) * 0.15);
+    const face = await sharp(Buffer.from(identity[0].data, 'base64')).rotate().resize(side, side, { fit: 'cover' }).png().toBuffer();
+    layers.push({ input: face, left: Math.round(side * 0.2), top: Math.round(side * 0.2) });
+  }
+  const label = caption(width, `MOCK · ${aspectRatio} · ${imageSize} · ${hash}`);
+  layers.push({ input: label.svg, left: 0, top: height - label.height });
+
+  const data = await base.composite(layers).png().toBuffer();
+  return { data: data.toString('base64'), mimeType: 'image/png' };
+}
+
+/**
+ * Offline provider that composites placeholder shots from the references.
+ * Deterministic and free, so the whole app can run without a key. Usage is
+ * reported under the unpriced `mock` model, so offline runs cost nothing and
+ * never count towards spend or budgets.
+ */
+export function createMockProvider(defaultModel = IMAGE_MODELS[0].id): ImageProvider {
+  return {
+    name: 'mock',
+    offline: true,
+    models: IMAGE_MODELS,
+    defaultModel,
+    async generate({ model, parts, aspectRatio, imageSize }) {
+      const images = parts.filter(part => 'inlineData' in part).length;
+      const text = parts.reduce((length, part) => length + ('text' in part ? part.text.length : 0), 0);
+      // Like the real model, come back no larger than the model renders.
+      const sizes = findImageModel(model)?.imageSizes;
+      const size = !sizes || sizes.includes(imageSize) ? imageSize : sizes[sizes.length - 1];
+      return {
+        images: [await composePlaceholder(parts, aspectRatio, size)],
+        model: 'mock',
+        usage: estimateImageUsage(size, images, Math.ceil(text / 4), 'mock'),
+      };
+    },
+    async critique() {
+      return { score: 100, notes: "Offline provider: no critique made." };
+    }
+  };
+}
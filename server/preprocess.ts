@@ -0,0 +1,100 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import sharp from 'sharp';
+import { backgroundMask, garmentBounds, MASK_SIZE, MAX_UPLOAD_DIMENSION } from '../src/core/preprocess.ts';
+import type { InlineImage, PreprocessOptions, PreprocessResult, PreprocessStep } from '../src/core/types.ts';
+
+const CLEANED_QUALITY = 92;
+
+/** Scales a mask worked out on the small copy up to the photo, with soft edges (0-255). */
+async function scaleMask(mask: Uint8Array, from: { width: number; height: number }, to: { width: number; height: number }) {
+  return sharp(Buffer.from(mask.map(value => value * 255)), { raw: { ...from, channels: 1 } })
+    .resize(to.width, to.height, { fit: 'fill' })
+    .blur(1)
+    .extractChannel(0)
+    .raw()
+    .toBuffer();
+}
+
+/**
+ * Cleans up a product photo: EXIF orientation applied, oversized uploads
+ * scaled down, a plain background evened out to white and the frame cropped
+ * to the garment. Steps that find nothing to do are skipped, and a photo no
+ * step changed comes back as it was uploaded.
+ */
+export async function preprocessImage(image: InlineImage, options: PreprocessOptions): Promise<PreprocessResult> {
+  const source = Buffer.from(image.data, 'base64');
+  const metadata = await sharp(source).metadata();
+  const sideways = (metadata.orientation ?? 1) >= 5;
+  const original = {
+    width: (sideways ? metadata.height : metadata.width) ?? 0,
+    height: (sideways ? metadata.width : metadata.height) ?? 0,
+  };
+  const applied: PreprocessStep[] = [];
+
+  // The re-encoded copy carries no EXIF, so it is always turned upright; the
+  // option only decides whether that alone is worth replacing the upload.
+  let pipeline = sharp(source).rotate();
+  if (options.orientation && (metadata.orientation ?? 1) > 1) applied.push('orientation');
+  if (options.downscale && Math.max(original.width, original.height) > MAX_UPLOAD_DIMENSION) {
+    pipeline = pipeline.resize(MAX_UPLOAD_DIMENSION, MAX_UPLOAD_DIMENSION, { fit: 'inside' });
+    applied.push('downscale');
+  }
+  // Transparent backgrounds become white, as the cleaned background would.
+  const { data, info } = await pipeline.flatten({ background: '#ffffff' }).raw().toBuffer({ resolveWithObject: true });
+  const frame = { width: info.width, height: info.height };
+
+  let crop = { left: 0, top: 0, ...frame };
+  if (options.background || options.crop) {
+    const small = await sharp(data, { raw: { ...frame, channels: info.channels } })
+      .resize(MASK_SIZE, MASK_SIZE, { fit: 'inside' })
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    const mask = backgroundMask(small.data, small.info.width, small.info.height);
+
+    if (mask && options.background) {
+      const alpha = await scaleMask(mask, small.info, frame);
+      for (let i = 0; i < alpha.length; i++) {
+        for (let c = 0; c < info.channels; c++) {
+          const at = i * info.channels + c;
+          data[at] = Math.round(data[at] + (255 - data[at]) * alpha[i] / 255);
+        }
+      }
+      applied.push('background');
+    }
+    if (mask && options.crop) {
+      const bounds = garmentBounds(mask, small.info.width, small.info.height);
+      const scale = frame.width / small.info.width;
+      const left = Math.floor(bounds.left * scale);
+      const top = Math.floor(bounds.top * scale);
+      const box = {
+        left,
+        top,
+        width: Math.min(frame.width - left, Math.ceil(bounds.width * scale)),
+        height: Math.min(frame.height - top, Math.ceil(bounds.height * scale)),
+      };
+      // Trimming a sliver is not worth a re-encode.
+      if (box.width * box.height < frame.width * frame.height * 0.9) {
+        crop = box;
+        applied.push('crop');
+      }
+    }
+  }
+
+  if (applied.length === 0) return { image, applied, ...original, original };
+
+  const cleaned = await sharp(data, { raw: { ...frame, channels: info.channels } })
+    .extract(crop)
+    .jpeg({ quality: CLEANED_QUALITY, mozjpeg: true })
+    .toBuffer();
+  return {
+    image: { data: cleaned.toString('base64'), mimeType: 'image/jpeg' },
+    applied,
+    width: crop.width,
+    height: crop.height,
+    original,
+  };
+}
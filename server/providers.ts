@@ -0,0 +1,147 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GoogleGenAI, type GenerateContentResponse, Type } from '@google/genai';
+import type { ImageModelInfo, ImageSize, InlineImage, PromptPart, ProviderInfo, TokenUsage } from '../src/core/types.ts';
+import { CRITIC_MODEL, DEFAULT_IMAGE_MODEL, findImageModel, IMAGE_MODELS } from '../src/core/usage.ts';
+import { createMockProvider } from './mock.ts';
+
+export interface ImageRequest {
+  model: string; // one of the provider's models
+  parts: PromptPart[];
+  aspectRatio: string;
+  imageSize: ImageSize;
+}
+
+export interface ImageResult {
+  images: InlineImage[];
+  model: string; // recorded with the shot
+  usage?: TokenUsage; // what the call was billed for, when the model reports it
+}
+
+export interface CritiqueRequest {
+  garment: InlineImage[]; // the target cardigan's photos
+  output: InlineImage;
+}
+
+export interface Critique {
+  score: number; // 0-100
+  notes: string;
+  usage?: TokenUsage;
+}
+
+/** Anything that can turn a prompt, reference images and shot settings into images. */
+export interface ImageProvider {
+  readonly name: string;
+  readonly offline: boolean;
+  readonly models: ImageModelInfo[];
+  readonly defaultModel: string;
+  generate(request: ImageRequest, signal?: AbortSignal): Promise<ImageResult>;
+  /** Optional second opinion on garment fidelity, used when a session asks for it. */
+  critique?(request: CritiqueRequest, signal?: AbortSignal): Promise<Critique>;
+}
+
+export const GEMINI_MODEL_NAME = DEFAULT_IMAGE_MODEL;
+export const GEMINI_CRITIC_MODEL_NAME = CRITIC_MODEL;
+
+// Thinking tokens are billed at the output rate.
+const toTokenUsage = (response: GenerateContentResponse, model: string): TokenUsage | undefined => {
+  const metadata = response.usageMetadata;
+  if (!metadata) return undefined;
+  return {
+    model,
+    promptTokens: metadata.promptTokenCount ?? 0,
+    outputTokens: (metadata.candidatesTokenCount ?? 0) + (metadata.thoughtsTokenCount ?? 0),
+  };
+};
+
+const CRITIQUE_PROMPT = `You check e-commerce photos for garment accuracy.
+The first images show a cardigan. The last image is a generated photo of a model wearing it.
+Compare only the cardigan: color, knit pattern, texture, buttons, neckline, length and silhouette. Ignore the model, pose and background.
+Answer with a score from 0 (a different garment) to 100 (identical) and one or two sentences naming any differences.`;
+
+export function createGeminiProvider(apiKey: string, defaultModel = GEMINI_MODEL_NAME): ImageProvider {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    name: 'gemini',
+    offline: false,
+    models: IMAGE_MODELS,
+    defaultModel,
+    async generate({ model, parts, aspectRatio, imageSize }, signal) {
+      // Models with a single output size reject the setting.
+      const sizes = findImageModel(model)?.imageSizes ?? [];
+      const response = await ai.models.generateContent({
+        model,
+        contents: [{ role: 'user', parts }],
+        config: {
+          imageConfig: { aspectRatio, imageSize: sizes.length > 1 ? imageSize : undefined },
+          abortSignal: signal
+        }
+      });
+
+      const images: InlineImage[] = [];
+      for (const part of response.candidates?.[0]?.content?.parts ?? []) {
+        if (part.inlineData?.data) {
+          images.push({ data: part.inlineData.data, mimeType: part.inlineData.mimeType || 'image/png' });
+        }
+      }
+      return { images, model, usage: toTokenUsage(response, model) };
+    },
+
+    async critique({ garment, output }, signal) {
+      const response = await ai.models.generateContent({
+        model: GEMINI_CRITIC_MODEL_NAME,
+        contents: [{
+          role: 'user',
+          parts: [
+            { text: CRITIQUE_PROMPT },
+            ...garment.map(image => ({ inlineData: image })),
+            { text: "GENERATED PHOTO:" },
+            { inlineData: output },
+          ]
+        }],
+        config: {
+          responseMimeType: 'application/json',
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: { score: { type: Type.INTEGER }, notes: { type: Type.STRING } },
+            required: ['score', 'notes'],
+          },
+          abortSignal: signal
+        }
+      });
+      const { score, notes } = JSON.parse(response.text ?? '{}');
+      if (!Number.isFinite(score)) throw new Error("Critique returned no score.");
+      return {
+        score: Math.min(100, Math.max(0, Math.round(score))),
+        notes: String(notes ?? ''),
+        usage: toTokenUsage(response, GEMINI_CRITIC_MODEL_NAME),
+      };
+    }
+  };
+}
+
+export const providerInfo = (provider: ImageProvider): ProviderInfo => ({
+  provider: provider.name,
+  offline: provider.offline,
+  models: provider.models,
+  defaultModel: provider.defaultModel,
+});
+
+/**
+ * IMAGE_PROVIDER=mock runs offline; IMAGE_MODEL=fake is still accepted for it.
+ * GEMINI_IMAGE_MODEL picks the model sessions use unless they choose another.
+ */
+export function createProviderFromEnv(env: NodeJS.ProcessEnv = process.env): ImageProvider {
+  const defaultModel = env.GEMINI_IMAGE_MODEL || GEMINI_MODEL_NAME;
+  if (!findImageModel(defaultModel)) {
+    throw new Error(`Unknown GEMINI_IMAGE_MODEL "${defaultModel}". Use one of: ${IMAGE_MODELS.map(model => model.id).join(', ')}.`);
+  }
+  if (env.IMAGE_PROVIDER === 'mock' || env.IMAGE_MODEL === 'fake') return createMockProvider(defaultModel);
+  if (env.IMAGE_PROVIDER && env.IMAGE_PROVIDER !== 'gemini') throw new Error(`Unknown IMAGE_PROVIDER "${env.IMAGE_PROVIDER}". Use gemini or mock.`);
+  const key = env.API_KEY || env.GEMINI_API_KEY;
+  if (!key) throw new Error("API Key not found. Set GEMINI_API_KEY, or IMAGE_PROVIDER=mock to run offline.");
+  return createGeminiProvider(key, defaultModel);
+}
@@ -0,0 +1,35 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import sharp from 'sharp';
+import { RENDITION_FORMATS, renditionSpecs, type RenditionSpec } from '../src/core/renditions.ts';
+import type { RenditionSettings } from '../src/core/types.ts';
+import type { DB } from './db.ts';
+import { getImage, insertRenditions, type NewRendition } from './store.ts';
+
+async function render(source: Buffer, spec: RenditionSpec): Promise<NewRendition> {
+  // rotate() with no angle applies the EXIF orientation before resizing.
+  let pipeline = sharp(source).rotate();
+  pipeline = spec.square
+    ? pipeline.resize(spec.width, spec.width, { fit: 'cover', position: sharp.strategy.attention })
+    : pipeline.resize({ width: spec.width, withoutEnlargement: true });
+  pipeline = spec.format === 'jpeg'
+    ? pipeline.flatten({ background: '#ffffff' }).jpeg({ quality: spec.quality, mozjpeg: true })
+    : pipeline.webp({ quality: spec.quality });
+
+  const { data, info } = await pipeline.toBuffer({ resolveWithObject: true });
+  return { name: spec.name, mimeType: RENDITION_FORMATS[spec.format].mimeType, width: info.width, height: info.height, data };
+}
+
+/** Renders and stores every configured rendition of a stored image. */
+export async function createRenditions(db: DB, imageId: string, settings: RenditionSettings) {
+  const image = getImage(db, imageId);
+  if (!image) throw new Error(`Image ${imageId} not found.`);
+  const { width, height, orientation } = await sharp(image.data).metadata();
+  const sourceWidth = ((orientation ?? 1) >= 5 ? height : width) ?? Infinity; // as shown, after EXIF rotation
+  const renditions: NewRendition[] = [];
+  for (const spec of renditionSpecs(settings, sourceWidth)) renditions.push(await render(image.data, spec));
+  insertRenditions(db, imageId, renditions);
+}
@@ -0,0 +1,75 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export interface RetryOptions {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxAttempts: 4,
+  baseDelayMs: 2000,
+  maxDelayMs: 30000,
+};
+
+export class AbortedError extends Error {
+  constructor() {
+    super("Cancelled.");
+    this.name = 'AbortedError';
+  }
+}
+
+const RETRYABLE_MESSAGE = /quota|rate limit|resource[_ ]exhausted|unavailable|overloaded|deadline exceeded/i;
+
+/** 429, 5xx and quota errors are worth another try; bad requests are not. */
+export function isRetryableError(error: any): boolean {
+  const status = Number(error?.status ?? error?.code);
+  if (status === 429 || (status >= 500 && status < 600)) return true;
+  return RETRYABLE_MESSAGE.test(String(error?.message ?? ''));
+}
+
+/** Exponential backoff with full jitter, capped at `maxDelayMs`. */
+export function backoffDelay(attempt: number, { baseDelayMs, maxDelayMs }: RetryOptions): number {
+  return Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+}
+
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new AbortedError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AbortedError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Calls `fn` until it succeeds, a non-retryable error is thrown, attempts run
+ * out, or `signal` aborts. `onRetry` fires before each backoff wait.
+ */
+export async function withRetry<T>(
+  fn: (attempt: number) => Promise<T>,
+  options: RetryOptions,
+  signal: AbortSignal,
+  onRetry: (attempt: number, error: any) => void
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    if (signal.aborted) throw new AbortedError();
+    try {
+      return await fn(attempt);
+    } catch (error: any) {
+      if (signal.aborted) throw new AbortedError();
+      if (attempt >= options.maxAttempts || !isRetryableError(error)) throw error;
+      onRetry(attempt, error);
+      await sleep(backoffDelay(attempt, options), signal);
+    }
+  }
+}
@@ -0,0 +1,494 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { type Request, type Response, Router } from 'express';
+import { productFileStem } from '../src/core/products.ts';
+import { BUILT_IN_TEMPLATES, validateTemplateBody } from '../src/core/prompt.ts';
+import { validatePreprocessOptions } from '../src/core/preprocess.ts';
+import { normalizeSceneTags, validateSceneTags } from '../src/core/scenes.ts';
+import {
+  clampConcurrency,
+  MAX_REVIEWER_NAME_LENGTH,
+  MAX_VARIATIONS,
+  REVIEW_STATUSES,
+  REVIEWER_STATUSES,
+} from '../src/core/settings.ts';
+import { BUILT_IN_PRESETS, DEFAULT_SHOT_PLAN, validateShotPlan } from '../src/core/shotPlan.ts';
+import { formatCost, validateBudget } from '../src/core/usage.ts';
+import type {
+  BatchRecord,
+  CreateIdentityRequest,
+  CreateJobRequest,
+  JobRecord,
+  PreprocessRequest,
+  SavePromptTemplateRequest,
+  SaveSceneRequest,
+  ShotPlan,
+  ShotRecord,
+} from '../src/core/types.ts';
+import type { DB } from './db.ts';
+import { buildCatalogZip } from './export.ts';
+import type { JobRunner } from './jobs.ts';
+import { preprocessImage } from './preprocess.ts';
+import { type ImageProvider, providerInfo } from './providers.ts';
+import { createSession, isInlineImage, isOptionalText, trimmed } from './sessions.ts';
+import {
+  addIdentityImages,
+  addShotComment,
+  addShotVariations,
+  createIdentity,
+  createJob,
+  createReviewLink,
+  createScene,
+  deleteBatch,
+  deleteIdentity,
+  deletePromptTemplate,
+  deleteReviewLink,
+  deleteScene,
+  deleteShotPlanPreset,
+  getBatch,
+  getIdentity,
+  getImage,
+  getJob,
+  getRendition,
+  getReviewedBatch,
+  getScene,
+  getUsageReport,
+  insertImage,
+  isBudgetSpent,
+  isIdentityInUse,
+  isPromptTemplateInUse,
+  listBatches,
+  listIdentities,
+  listPromptTemplates,
+  listReviewLinks,
+  listScenes,
+  listShotPlanPresets,
+  planShots,
+  requeueShot,
+  savePromptTemplate,
+  saveShotPlanPreset,
+  setBatchBudget,
+  setBatchConcurrency,
+  setShotReview,
+  toSharedReview,
+  updateScene,
+} from './store.ts';
+
+function validateReviewer(value: unknown): string | null {
+  if (typeof value !== 'string' || !value.trim()) return "Add your name before reviewing.";
+  if (value.trim().length > MAX_REVIEWER_NAME_LENGTH) return `Names can be at most ${MAX_REVIEWER_NAME_LENGTH} characters.`;
+  return null;
+}
+
+export function createApiRouter(db: DB, runner: JobRunner, provider: ImageProvider): Router {
+  const router = Router();
+
+  router.post('/jobs', (req, res) => {
+    const { target, scenes, plan = DEFAULT_SHOT_PLAN } = (req.body ?? {}) as Partial<CreateJobRequest>;
+    if (!isInlineImage(target)) {
+      return res.status(400).json({ error: "A target image is required." });
+    }
+    if (!Array.isArray(scenes) || scenes.length === 0 || !scenes.every(isInlineImage)) {
+      return res.status(400).json({ error: "At least one scene reference image is required." });
+    }
+    const planError = validateShotPlan(plan, scenes.length);
+    if (planError) return res.status(400).json({ error: planError });
+
+    const id = createJob(db, {
+      views: [{ imageId: insertImage(db, target) }],
+      shots: planShots(plan, scenes.map(scene => insertImage(db, scene))),
+    });
+    runner.start(id);
+    res.status(202).json(getJob(db, id));
+  });
+
+  router.get('/jobs/:id', (req, res) => {
+    const job = getJob(db, req.params.id);
+    if (!job) return res.status(404).json({ error: "Job not found." });
+    res.json(job);
+  });
+
+  // A session that has spent its budget starts no billed work until the budget is raised.
+  const spentBudgetError = (job: JobRecord) => {
+    const batch = job.batchId && isBudgetSpent(db, job.batchId) ? getBatch(db, job.batchId) : undefined;
+    return batch && `This session has spent its ${formatCost(batch.budget!)} budget. Raise it to continue.`;
+  };
+
+  router.post('/jobs/:id/:action(pause|resume|cancel)', (req, res) => {
+    const job = getJob(db, req.params.id);
+    if (!job) return res.status(404).json({ error: "Job not found." });
+    if (req.params.action === 'pause') runner.pauseJob(job.id);
+    else if (req.params.action === 'cancel') runner.cancelJob(job.id);
+    else if (job.status === 'cancelled') return res.status(409).json({ error: "Job was cancelled." });
+    else {
+      const budgetError = spentBudgetError(job);
+      if (budgetError) return res.status(409).json({ error: budgetError });
+      runner.start(job.id);
+    }
+    res.json(getJob(db, job.id));
+  });
+
+  // Looks up :id and :index for the per-shot routes, answering 404 itself when either is unknown.
+  const findShot = (req: Request, res: Response): { job: JobRecord; shot: ShotRecord } | undefined => {
+    const job = getJob(db, req.params.id);
+    const shot = job?.shots.find(s => s.index === Number(req.params.index));
+    if (!job || !shot) {
+      res.status(404).json({ error: "Shot not found." });
+      return undefined;
+    }
+    return { job, shot };
+  };
+
+  // New takes can't run in a cancelled session, so refuse them up front.
+  const isCancelledSession = (job: JobRecord) => !!job.batchId && getBatch(db, job.batchId)?.status === 'cancelled';
+
+  router.post('/jobs/:id/shots/:index/regenerate', (req, res) => {
+    const found = findShot(req, res);
+    if (!found) return;
+    const { note } = req.body ?? {};
+    if (!isOptionalText(note)) return res.status(400).json({ error: "The note must be text." });
+    if (isCancelledSession(found.job)) return res.status(409).json({ error: "This session was cancelled." });
+    const budgetError = spentBudgetError(found.job);
+    if (budgetError) return res.status(409).json({ error: budgetError });
+    if (!requeueShot(db, found.job.id, found.shot.index, trimmed(note))) {
+      return res.status(409).json({ error: "This shot is already being generated." });
+    }
+    runner.runQueued(found.job.id);
+    res.status(202).json(getJob(db, found.job.id));
+  });
+
+  router.post('/jobs/:id/shots/:index/variations', (req, res) => {
+    const found = findShot(req, res);
+    if (!found) return;
+    const { count } = req.body ?? {};
+    if (!Number.isInteger(count) || count < 1 || count > MAX_VARIATIONS) {
+      return res.status(400).json({ error: `Ask for 1 to ${MAX_VARIATIONS} variations.` });
+    }
+    if (isCancelledSession(found.job)) return res.status(409).json({ error: "This session was cancelled." });
+    const budgetError = spentBudgetError(found.job);
+    if (budgetError) return res.status(409).json({ error: budgetError });
+    addShotVariations(db, found.job.id, found.shot.index, count);
+    runner.runQueued(found.job.id);
+    res.status(202).json(getJob(db, found.job.id));
+  });
+
+  // `review: null` clears the status.
+  router.put('/jobs/:id/shots/:index/review', (req, res) => {
+    const found = findShot(req, res);
+    if (!found) return;
+    const { review } = req.body ?? {};
+    if (review !== null && !Object.hasOwn(REVIEW_STATUSES, review)) {
+      return res.status(400).json({ error: `Review must be one of: ${Object.keys(REVIEW_STATUSES).join(', ')}.` });
+    }
+    if (!setShotReview(db, found.job.id, found.shot.index, review)) {
+      return res.status(409).json({ error: "Only generated images can be reviewed." });
+    }
+    res.json(getJob(db, found.job.id));
+  });
+
+  router.post('/jobs/:id/shots/:index/comments', (req, res) => {
+    const found = findShot(req, res);
+    if (!found) return;
+    const body = typeof req.body?.body === 'string' ? req.body.body.trim() : '';
+    if (!body) return res.status(400).json({ error: "A comment can't be empty." });
+    addShotComment(db, found.job.id, found.shot.index, body);
+    res.status(201).json(getJob(db, found.job.id));
+  });
+
+  router.get('/batches', (_req, res) => {
+    res.json(listBatches(db));
+  });
+
+  router.post('/batches', (req, res) => {
+    const result = createSession(db, provider, req.body ?? {});
+    if ('error' in result) return res.status(400).json({ error: result.error });
+    res.status(201).json(getBatch(db, result.id));
+  });
+
+  router.get('/batches/:id', (req, res) => {
+    const batch = getBatch(db, req.params.id);
+    if (!batch) return res.status(404).json({ error: "Session not found." });
+    res.json(batch);
+  });
+
+  // `?job=` narrows the export to one product, `?approved=1` to approved images.
+  router.get('/batches/:id/export', (req, res) => {
+    const batch = getBatch(db, req.params.id);
+    if (!batch) return res.status(404).json({ error: "Session not found." });
+    const jobId = typeof req.query.job === 'string' ? req.query.job : undefined;
+    const position = jobId ? batch.jobs.findIndex(job => job.id === jobId) : -1;
+    if (jobId && position < 0) return res.status(404).json({ error: "Product not found in this session." });
+
+    const approvedOnly = req.query.approved === '1';
+    const zip = buildCatalogZip(db, batch, { jobIds: jobId ? [jobId] : undefined, approvedOnly });
+    if (!zip) {
+      return res.status(409).json({
+        error: approvedOnly ? "There are no approved images to export yet." : "There are no finished images to export yet."
+      });
+    }
+    const name = jobId ? productFileStem(batch.jobs[position], position) : batch.name.replace(/[^\w.-]+/g, '-');
+    res.type('application/zip').attachment(`${name}.zip`).send(Buffer.from(zip));
+  });
+
+  // Starts a new batch or resumes an interrupted one from its first unfinished shot.
+  router.post('/batches/:id/run', (req, res) => {
+    const batch = getBatch(db, req.params.id);
+    if (!batch) return res.status(404).json({ error: "Session not found." });
+    if (batch.status === 'cancelled') return res.status(409).json({ error: "Session was cancelled." });
+    // `budget` replaces the session's budget; null removes it.
+    const budget = req.body?.budget;
+    if (budget !== undefined) {
+      const budgetError = validateBudget(budget);
+      if (budgetError) return res.status(400).json({ error: budgetError });
+    }
+    if (req.body?.concurrency !== undefined) {
+      setBatchConcurrency(db, batch.id, clampConcurrency(req.body.concurrency, batch.concurrency));
+    }
+    if (budget !== undefined) setBatchBudget(db, batch.id, budget ?? undefined);
+    if (isBudgetSpent(db, batch.id)) {
+      const limit = typeof budget === 'number' ? budget : batch.budget!;
+      return res.status(409).json({ error: `This session has spent its ${formatCost(limit)} budget. Raise it to continue.` });
+    }
+    runner.startBatch(batch.id);
+    res.status(202).json(getBatch(db, batch.id));
+  });
+
+  router.post('/batches/:id/:action(pause|cancel)', (req, res) => {
+    if (!getBatch(db, req.params.id)) return res.status(404).json({ error: "Session not found." });
+    if (req.params.action === 'pause') runner.pauseBatch(req.params.id);
+    else runner.cancelBatch(req.params.id);
+    res.json(getBatch(db, req.params.id));
+  });
+
+  router.delete('/batches/:id', (req, res) => {
+    if (runner.isRunning(req.params.id)) {
+      return res.status(409).json({ error: "Session is still generating." });
+    }
+    if (!deleteBatch(db, req.params.id)) return res.status(404).json({ error: "Session not found." });
+    res.status(204).end();
+  });
+
+  router.get('/batches/:id/review-links', (req, res) => {
+    if (!getBatch(db, req.params.id)) return res.status(404).json({ error: "Session not found." });
+    res.json(listReviewLinks(db, req.params.id));
+  });
+
+  // A link shows the session as it is when opened, so later takes and reviews show up too.
+  router.post('/batches/:id/review-links', (req, res) => {
+    const batch = getBatch(db, req.params.id);
+    if (!batch) return res.status(404).json({ error: "Session not found." });
+    if (batch.status !== 'completed' && batch.status !== 'partial') {
+      return res.status(409).json({ error: "Only finished sessions can be shared for review." });
+    }
+    res.status(201).json(createReviewLink(db, batch.id));
+  });
+
+  router.delete('/batches/:id/review-links/:token', (req, res) => {
+    if (!deleteReviewLink(db, req.params.id, req.params.token)) {
+      return res.status(404).json({ error: "Review link not found." });
+    }
+    res.status(204).end();
+  });
+
+  // The /review routes are what a review link opens. The token is their only check, so
+  // they reach nothing outside the linked session and can only review and comment.
+  const findSharedShot = (req: Request, res: Response): { batch: BatchRecord; shot: ShotRecord } | undefined => {
+    const batch = getReviewedBatch(db, req.params.token);
+    if (!batch) {
+      res.status(404).json({ error: "This review link is no longer valid." });
+      return undefined;
+    }
+    const job = batch.jobs.find(candidate => candidate.id === req.params.jobId);
+    const shot = job?.shots.find(s => s.index === Number(req.params.index) && s.imageId);
+    if (!job || !shot) {
+      res.status(404).json({ error: "Image not found." });
+      return undefined;
+    }
+    return { batch, shot };
+  };
+
+  router.get('/review/:token', (req, res) => {
+    const batch = getReviewedBatch(db, req.params.token);
+    if (!batch) return res.status(404).json({ error: "This review link is no longer valid." });
+    res.json(toSharedReview(batch));
+  });
+
+  // `review: null` clears the status.
+  router.put('/review/:token/products/:jobId/shots/:index/review', (req, res) => {
+    const found = findSharedShot(req, res);
+    if (!found) return;
+    const { review, reviewer } = req.body ?? {};
+    if (review !== null && !REVIEWER_STATUSES.includes(review)) {
+      return res.status(400).json({ error: `Review must be one of: ${REVIEWER_STATUSES.join(', ')}.` });
+    }
+    const reviewerError = validateReviewer(reviewer);
+    if (reviewerError) return res.status(400).json({ error: reviewerError });
+    setShotReview(db, req.params.jobId, found.shot.index, review, reviewer.trim());
+    res.json(toSharedReview(getBatch(db, found.batch.id)!));
+  });
+
+  router.post('/review/:token/products/:jobId/shots/:index/comments', (req, res) => {
+    const found = findSharedShot(req, res);
+    if (!found) return;
+    const { reviewer } = req.body ?? {};
+    const body = typeof req.body?.body === 'string' ? req.body.body.trim() : '';
+    if (!body) return res.status(400).json({ error: "A comment can't be empty." });
+    const reviewerError = validateReviewer(reviewer);
+    if (reviewerError) return res.status(400).json({ error: reviewerError });
+    addShotComment(db, req.params.jobId, found.shot.index, body, reviewer.trim());
+    res.status(201).json(toSharedReview(getBatch(db, found.batch.id)!));
+  });
+
+  router.get('/shot-plans', (_req, res) => {
+    res.json([...BUILT_IN_PRESETS, ...listShotPlanPresets(db)]);
+  });
+
+  router.post('/shot-plans', (req, res) => {
+    const { name, plan } = (req.body ?? {}) as { name?: string; plan?: ShotPlan };
+    if (typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({ error: "A preset name is required." });
+    }
+    // Scene slots are checked against the real scene count when a batch uses the preset.
+    const planError = validateShotPlan(plan, Number.MAX_SAFE_INTEGER);
+    if (planError) return res.status(400).json({ error: planError });
+    res.status(201).json(saveShotPlanPreset(db, name.trim(), plan!));
+  });
+
+  router.delete('/shot-plans/:id', (req, res) => {
+    if (!deleteShotPlanPreset(db, req.params.id)) return res.status(404).json({ error: "Preset not found." });
+    res.status(204).end();
+  });
+
+  router.get('/prompt-templates', (_req, res) => {
+    res.json([...BUILT_IN_TEMPLATES, ...listPromptTemplates(db)]);
+  });
+
+  // Without an id this starts a new template; with one it saves the next version.
+  router.post('/prompt-templates/:id?', (req, res) => {
+    const { name, body } = (req.body ?? {}) as Partial<SavePromptTemplateRequest>;
+    if (typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({ error: "A template name is required." });
+    }
+    const bodyError = validateTemplateBody(body);
+    if (bodyError) return res.status(400).json({ error: bodyError });
+    if (req.params.id && BUILT_IN_TEMPLATES.some(t => t.id === req.params.id)) {
+      return res.status(409).json({ error: "Built-in templates are read-only. Save a copy instead." });
+    }
+
+    const template = savePromptTemplate(db, name.trim(), body!, req.params.id);
+    if (!template) return res.status(404).json({ error: "Prompt template not found." });
+    res.status(201).json(template);
+  });
+
+  router.delete('/prompt-templates/:id', (req, res) => {
+    if (isPromptTemplateInUse(db, req.params.id)) {
+      return res.status(409).json({ error: "This template is still needed by unfinished shots." });
+    }
+    if (!deletePromptTemplate(db, req.params.id)) return res.status(404).json({ error: "Prompt template not found." });
+    res.status(204).end();
+  });
+
+  router.get('/identities', (_req, res) => {
+    res.json(listIdentities(db));
+  });
+
+  router.post('/identities', (req, res) => {
+    const { name, description, images } = (req.body ?? {}) as Partial<CreateIdentityRequest>;
+    if (typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({ error: "A model name is required." });
+    }
+    if (!Array.isArray(images) || images.length === 0 || !images.every(isInlineImage)) {
+      return res.status(400).json({ error: "At least one face or body reference image is required." });
+    }
+    const id = createIdentity(db, name.trim(), typeof description === 'string' ? description.trim() || undefined : undefined, images);
+    res.status(201).json(getIdentity(db, id));
+  });
+
+  router.post('/identities/:id/images', (req, res) => {
+    const images = req.body?.images;
+    if (!getIdentity(db, req.params.id)) return res.status(404).json({ error: "Model identity not found." });
+    if (!Array.isArray(images) || images.length === 0 || !images.every(isInlineImage)) {
+      return res.status(400).json({ error: "At least one reference image is required." });
+    }
+    addIdentityImages(db, req.params.id, images);
+    res.json(getIdentity(db, req.params.id));
+  });
+
+  router.delete('/identities/:id', (req, res) => {
+    if (isIdentityInUse(db, req.params.id)) {
+      return res.status(409).json({ error: "This model is still needed by unfinished shots." });
+    }
+    if (!deleteIdentity(db, req.params.id)) return res.status(404).json({ error: "Model identity not found." });
+    res.status(204).end();
+  });
+
+  router.get('/scenes', (_req, res) => {
+    res.json(listScenes(db));
+  });
+
+  router.post('/scenes', (req, res) => {
+    const { name, image, tags = {} } = (req.body ?? {}) as Partial<SaveSceneRequest>;
+    if (typeof name !== 'string' || !name.trim()) return res.status(400).json({ error: "A scene name is required." });
+    if (!isInlineImage(image)) return res.status(400).json({ error: "A scene image is required." });
+    const tagError = validateSceneTags(tags);
+    if (tagError) return res.status(400).json({ error: tagError });
+    const id = createScene(db, name.trim(), image, normalizeSceneTags(tags));
+    res.status(201).json(getScene(db, id));
+  });
+
+  // Renames and retags; the image of a library scene never changes.
+  router.put('/scenes/:id', (req, res) => {
+    const { name, tags = {} } = (req.body ?? {}) as Partial<SaveSceneRequest>;
+    if (typeof name !== 'string' || !name.trim()) return res.status(400).json({ error: "A scene name is required." });
+    const tagError = validateSceneTags(tags);
+    if (tagError) return res.status(400).json({ error: tagError });
+    if (!updateScene(db, req.params.id, name.trim(), normalizeSceneTags(tags))) {
+      return res.status(404).json({ error: "Scene not found." });
+    }
+    res.json(getScene(db, req.params.id));
+  });
+
+  router.delete('/scenes/:id', (req, res) => {
+    if (!deleteScene(db, req.params.id)) return res.status(404).json({ error: "Scene not found." });
+    res.status(204).end();
+  });
+
+  // Stateless: the client keeps both versions until it starts a session.
+  router.post('/preprocess', async (req, res) => {
+    const { image, options } = (req.body ?? {}) as Partial<PreprocessRequest>;
+    if (!isInlineImage(image)) return res.status(400).json({ error: "A product image is required." });
+    const optionsError = validatePreprocessOptions(options);
+    if (optionsError) return res.status(400).json({ error: optionsError });
+    try {
+      res.json(await preprocessImage(image, options!));
+    } catch (error: any) {
+      console.error("Preprocessing failed:", error);
+      res.status(422).json({ error: "The image could not be read." });
+    }
+  });
+
+  router.get('/provider', (_req, res) => {
+    res.json(providerInfo(provider));
+  });
+
+  router.get('/usage', (_req, res) => {
+    res.json(getUsageReport(db));
+  });
+
+  router.get('/images/:id', (req, res) => {
+    const image = getImage(db, req.params.id);
+    if (!image) return res.status(404).json({ error: "Image not found." });
+    res.type(image.mimeType).set('Cache-Control', 'private, max-age=31536000, immutable').send(image.data);
+  });
+
+  router.get('/images/:id/renditions/:name', (req, res) => {
+    const rendition = getRendition(db, req.params.id, req.params.name);
+    if (!rendition) return res.status(404).json({ error: "Rendition not found." });
+    res.type(rendition.mimeType).set('Cache-Control', 'private, max-age=31536000, immutable').send(rendition.data);
+  });
+
+  return router;
+}
@@ -0,0 +1,173 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { validateOutfit, MAX_VIEWS_PER_PRODUCT } from '../src/core/products.ts';
+import { DEFAULT_TEMPLATE } from '../src/core/prompt.ts';
+import { DEFAULT_FIDELITY, validateFidelitySettings } from '../src/core/fidelity.ts';
+import { DEFAULT_RENDITIONS, validateRenditionSettings } from '../src/core/renditions.ts';
+import { clampConcurrency } from '../src/core/settings.ts';
+import { validateShotPlan } from '../src/core/shotPlan.ts';
+import { validateBudget } from '../src/core/usage.ts';
+import type {
+  CreateBatchRequest,
+  IdentitySelection,
+  InlineImage,
+  LibraryScene,
+  PromptVariables,
+  RenditionSettings,
+  TargetInput,
+} from '../src/core/types.ts';
+import type { DB } from './db.ts';
+import type { ImageProvider } from './providers.ts';
+import { createBatch, getIdentity, getPromptTemplate, getScene } from './store.ts';
+
+// Turning a session request into a stored batch, shared by the API and the CLI
+// so both check and normalise their input the same way.
+
+export const isInlineImage = (value: any): value is InlineImage =>
+  typeof value?.data === 'string' && typeof value?.mimeType === 'string' && value.mimeType.startsWith('image/');
+
+const DIVERSE: IdentitySelection = { mode: 'diverse', identityIds: [] };
+
+function validateIdentitySelection(db: DB, selection: any): string | null {
+  if (!['diverse', 'single', 'rotate'].includes(selection?.mode)) return "Unknown model identity mode.";
+  if (selection.mode === 'diverse') return null;
+  const ids = selection.identityIds;
+  if (!Array.isArray(ids) || ids.length === 0) return "Pick at least one model identity.";
+  if (selection.mode === 'single' && ids.length !== 1) return "Single model mode takes exactly one identity.";
+  const missing = ids.find((id: unknown) => typeof id !== 'string' || !getIdentity(db, id));
+  return missing === undefined ? null : "A selected model identity no longer exists.";
+}
+
+export const isOptionalText = (value: unknown) => value === undefined || typeof value === 'string';
+export const trimmed = (value?: string) => value?.trim() || undefined;
+
+function validateTarget(target: any, sceneCount: number): string | null {
+  const views = target?.views;
+  if (!Array.isArray(views) || views.length === 0 || !views.every((view: any) => isInlineImage(view?.image))) {
+    return "At least one product image is required.";
+  }
+  if (views.length > MAX_VIEWS_PER_PRODUCT) return `A product can have at most ${MAX_VIEWS_PER_PRODUCT} images.`;
+  if (!views.every((view: any) => isOptionalText(view.label))) return "View labels must be text.";
+  if (!views.every((view: any) => view.original === undefined || isInlineImage(view.original))) {
+    return "Original product images must be images.";
+  }
+  if (![target.sku, target.name, target.colorway, target.notes].every(isOptionalText)) {
+    return "SKU, name, colorway and notes must be text.";
+  }
+  if (target.outfit !== undefined) {
+    const outfitError = validateOutfit(target.outfit);
+    if (outfitError) return outfitError;
+    if (!target.outfit.every((piece: any) => isInlineImage(piece.image))) return "Every outfit piece needs an image.";
+  }
+  return validateShotPlan(target.plan, sceneCount);
+}
+
+const toTargetInput = (target: TargetInput): TargetInput => ({
+  sku: trimmed(target.sku),
+  name: trimmed(target.name),
+  colorway: trimmed(target.colorway),
+  notes: trimmed(target.notes),
+  views: target.views.map(view => ({ image: view.image, original: view.original, label: trimmed(view.label) })),
+  outfit: target.outfit?.map(piece => ({ role: piece.role, match: piece.match, image: piece.image, note: trimmed(piece.note) })),
+  plan: target.plan,
+});
+
+// Only the produced formats' quality is validated; the others keep the default.
+const toRenditionSettings = (value: RenditionSettings): RenditionSettings => ({
+  widths: [...new Set(value.widths)],
+  formats: [...new Set(value.formats)],
+  quality: { ...DEFAULT_RENDITIONS.quality, ...Object.fromEntries(value.formats.map(format => [format, value.quality[format]])) },
+  thumbnailSize: value.thumbnailSize,
+});
+
+// Keeps only the known variables, as trimmed non-empty strings.
+function toPromptVariables(value: any): PromptVariables {
+  const variables: PromptVariables = {};
+  for (const key of ['season', 'backgroundNote'] as const) {
+    if (typeof value?.[key] === 'string' && value[key].trim()) variables[key] = value[key].trim();
+  }
+  return variables;
+}
+
+/** Validates a session request and stores it as a pending batch, or says what is wrong with it. */
+export function createSession(
+  db: DB,
+  provider: ImageProvider,
+  request: Partial<CreateBatchRequest>
+): { id: string } | { error: string } {
+  const {
+    name,
+    sceneIds = [],
+    scenes = [],
+    sceneOrder = 'same',
+    targets,
+    concurrency,
+    identity = DIVERSE,
+    template = DEFAULT_TEMPLATE,
+    promptVariables,
+    renditions = DEFAULT_RENDITIONS,
+    fidelity = DEFAULT_FIDELITY,
+    budget,
+    imageModel,
+  } = request;
+  if (typeof name !== 'string' || !name.trim()) {
+    return { error: "A session name is required." };
+  }
+  if (!Array.isArray(sceneIds) || !sceneIds.every(id => typeof id === 'string')) {
+    return { error: "Scene ids must be a list." };
+  }
+  if (!Array.isArray(scenes) || !scenes.every(isInlineImage)) {
+    return { error: "Scene references must be images." };
+  }
+  const libraryScenes = sceneIds.map(id => getScene(db, id));
+  if (libraryScenes.some(scene => !scene)) return { error: "A selected scene no longer exists." };
+  const sceneCount = libraryScenes.length + scenes.length;
+  if (sceneCount === 0) return { error: "At least one scene reference image is required." };
+  if (sceneOrder !== 'same' && sceneOrder !== 'rotate') return { error: "Scene order must be same or rotate." };
+  if (!Array.isArray(targets) || targets.length === 0) {
+    return { error: "At least one target product is required." };
+  }
+  for (const [i, target] of targets.entries()) {
+    const targetError = validateTarget(target, sceneCount);
+    if (targetError) return { error: `Product ${i + 1}: ${targetError}` };
+  }
+  const identityError = validateIdentitySelection(db, identity);
+  if (identityError) return { error: identityError };
+  if (typeof template?.id !== 'string' || !Number.isInteger(template.version) || !getPromptTemplate(db, template)) {
+    return { error: "Prompt template version not found." };
+  }
+  const renditionError = validateRenditionSettings(renditions);
+  if (renditionError) return { error: renditionError };
+  const fidelityError = validateFidelitySettings(fidelity);
+  if (fidelityError) return { error: fidelityError };
+  const budgetError = validateBudget(budget);
+  if (budgetError) return { error: budgetError };
+  if (imageModel !== undefined && !provider.models.some(model => model.id === imageModel)) {
+    return { error: "Unknown image model." };
+  }
+
+  const id = createBatch(db, {
+    name: name.trim(),
+    libraryScenes: libraryScenes as LibraryScene[],
+    scenes,
+    sceneOrder,
+    targets: targets.map(toTargetInput),
+    concurrency: clampConcurrency(concurrency),
+    identity,
+    template: { id: template.id, version: template.version },
+    promptVariables: toPromptVariables(promptVariables),
+    renditions: toRenditionSettings(renditions),
+    fidelity: {
+      threshold: fidelity.threshold,
+      action: fidelity.action,
+      maxRequeues: fidelity.maxRequeues,
+      critique: fidelity.critique,
+    },
+    budget: budget ?? undefined,
+    imageModel,
+  });
+  return { id };
+}
@@ -0,0 +1,1090 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { randomBytes, randomUUID } from 'crypto';
+import type { DB } from './db.ts';
+import { BUILT_IN_TEMPLATES, DEFAULT_TEMPLATE } from '../src/core/prompt.ts';
+import { DEFAULT_FIDELITY } from '../src/core/fidelity.ts';
+import { sortOutfit } from '../src/core/products.ts';
+import { DEFAULT_RENDITIONS } from '../src/core/renditions.ts';
+import { resolveSceneIndex } from '../src/core/shotPlan.ts';
+import { usageCost } from '../src/core/usage.ts';
+import type {
+  AspectRatio,
+  BatchRecord,
+  BatchStatus,
+  BatchSummary,
+  FidelityResult,
+  FidelitySettings,
+  IdentityMode,
+  IdentitySelection,
+  ImageSize,
+  InlineImage,
+  JobRecord,
+  LibraryScene,
+  JobStatus,
+  ModelIdentity,
+  PromptTemplate,
+  PromptTemplateBody,
+  OutfitMatch,
+  OutfitPiece,
+  OutfitRole,
+  ProductInfo,
+  ProductView,
+  PromptVariables,
+  RenditionInfo,
+  RenditionSettings,
+  ReviewLink,
+  ReviewStatus,
+  SceneOrder,
+  SceneTags,
+  ShotPlan,
+  ShotPlanPreset,
+  ShotRecord,
+  ShotStatus,
+  SharedReview,
+  TargetInput,
+  TemplateRef,
+  TokenUsage,
+  UsageKind,
+  UsageReport,
+  UsageTotals,
+} from '../src/core/types.ts';
+
+interface JobRow {
+  id: string;
+  status: JobStatus;
+  error: string | null;
+  batch_id: string | null;
+  product_name: string | null;
+  sku: string | null;
+  colorway: string | null;
+  notes: string | null;
+  target_image_id: string;
+  created_at: number;
+  updated_at: number;
+}
+
+interface ShotRow {
+  shot_index: number;
+  scene_image_id: string;
+  status: ShotStatus;
+  attempts: number;
+  aspect_ratio: AspectRatio;
+  image_size: ImageSize;
+  extra_prompt: string | null;
+  note: string | null;
+  variant_of: number | null;
+  identity_id: string | null;
+  identity_name: string | null;
+  template_id: string | null;
+  template_version: number | null;
+  prompt: string | null;
+  model: string | null;
+  image_id: string | null;
+  image_mime_type: string | null;
+  error: string | null;
+  completed_at: number | null;
+  review_status: ReviewStatus | null;
+  reviewed_by: string | null;
+  fidelity: string | null;
+  auto_requeues: number;
+}
+
+interface BatchRow {
+  id: string;
+  name: string;
+  status: BatchStatus;
+  concurrency: number;
+  identity_mode: IdentityMode;
+  template_id: string;
+  template_version: number;
+  prompt_variables: string;
+  renditions: string | null;
+  fidelity: string | null;
+  budget: number | null;
+  image_model: string | null;
+  created_at: number;
+  updated_at: number;
+  target_count: number;
+  completed_targets: number;
+  image_count: number;
+  approved_count: number;
+  spent: number;
+}
+
+export interface StoredImage {
+  mimeType: string;
+  data: Buffer;
+}
+
+export interface NewRendition extends RenditionInfo {
+  data: Buffer;
+}
+
+export interface NewShot {
+  sceneImageId: string;
+  aspectRatio: AspectRatio;
+  imageSize: ImageSize;
+  extraPrompt?: string;
+  identity?: { id: string; name: string };
+}
+
+export interface NewJob {
+  product?: ProductInfo;
+  views: ProductView[]; // the first is the thumbnail
+  outfit?: OutfitPiece[];
+  shots: NewShot[];
+  batchId?: string;
+  position?: number;
+}
+
+export interface NewBatch {
+  name: string;
+  libraryScenes: LibraryScene[];
+  scenes: InlineImage[];
+  sceneOrder: SceneOrder;
+  targets: TargetInput[];
+  concurrency: number;
+  identity: IdentitySelection;
+  template: TemplateRef;
+  promptVariables: PromptVariables;
+  renditions: RenditionSettings;
+  fidelity: FidelitySettings;
+  budget?: number;
+  imageModel?: string;
+}
+
+export interface PromptSettings {
+  template: PromptTemplate;
+  variables: PromptVariables;
+}
+
+/** What the runner does with an image once it is generated. */
+export interface OutputSettings {
+  renditions: RenditionSettings;
+  fidelity: FidelitySettings;
+}
+
+// --- Images ---
+
+export function insertImage(db: DB, image: InlineImage): string {
+  const id = randomUUID();
+  db.prepare('INSERT INTO images (id, mime_type, data, created_at) VALUES (?, ?, ?, ?)')
+    .run(id, image.mimeType, Buffer.from(image.data, 'base64'), Date.now());
+  return id;
+}
+
+export function getImage(db: DB, id: string): StoredImage | undefined {
+  const row = db.prepare('SELECT mime_type, data FROM images WHERE id = ?').get(id) as
+    | { mime_type: string; data: Buffer }
+    | undefined;
+  return row && { mimeType: row.mime_type, data: row.data };
+}
+
+export function getInlineImage(db: DB, id: string): InlineImage {
+  const image = getImage(db, id);
+  if (!image) throw new Error(`Image ${id} not found.`);
+  return { data: image.data.toString('base64'), mimeType: image.mimeType };
+}
+
+export function insertRenditions(db: DB, imageId: string, renditions: NewRendition[]) {
+  const insert = db.prepare(`
+    INSERT OR REPLACE INTO renditions (image_id, name, mime_type, width, height, data, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+  const now = Date.now();
+  db.transaction(() => {
+    renditions.forEach(r => insert.run(imageId, r.name, r.mimeType, r.width, r.height, r.data, now));
+  })();
+}
+
+export function getRendition(db: DB, imageId: string, name: string): StoredImage | undefined {
+  const row = db.prepare('SELECT mime_type, data FROM renditions WHERE image_id = ? AND name = ?').get(imageId, name) as
+    | { mime_type: string; data: Buffer }
+    | undefined;
+  return row && { mimeType: row.mime_type, data: row.data };
+}
+
+// Every image still in use by a batch, job, shot, model identity or library scene.
+const REFERENCED_IMAGES_SQL = `
+  SELECT image_id FROM batch_scenes
+  UNION SELECT target_image_id FROM jobs WHERE target_image_id IS NOT NULL
+  UNION SELECT image_id FROM job_views
+  UNION SELECT original_image_id FROM job_views WHERE original_image_id IS NOT NULL
+  UNION SELECT image_id FROM job_outfit
+  UNION SELECT scene_image_id FROM shots
+  UNION SELECT image_id FROM model_identity_images
+  UNION SELECT image_id FROM scenes
+  UNION SELECT image_id FROM shots WHERE image_id IS NOT NULL
+`;
+
+/** Drops blobs no longer referenced by any batch, job or shot. Their renditions go with them. */
+export function deleteOrphanImages(db: DB) {
+  db.prepare(`DELETE FROM images WHERE id NOT IN (${REFERENCED_IMAGES_SQL})`).run();
+}
+
+// --- Jobs ---
+
+/** Pairs each shot in the plan with the stored scene and model identity it should use. */
+export const planShots = (
+  plan: ShotPlan,
+  sceneImageIds: string[],
+  identity?: { id: string; name: string },
+  sceneOffset = 0
+): NewShot[] =>
+  plan.shots.map((spec, i) => ({
+    sceneImageId: sceneImageIds[resolveSceneIndex(spec, i, sceneImageIds.length, sceneOffset)],
+    aspectRatio: spec.aspectRatio,
+    imageSize: spec.imageSize,
+    extraPrompt: spec.extraPrompt?.trim() || undefined,
+    identity,
+  }));
+
+export function createJob(db: DB, job: NewJob): string {
+  const id = randomUUID();
+  const now = Date.now();
+  db.transaction(() => {
+    db.prepare(`
+      INSERT INTO jobs (
+        id, status, batch_id, position, sku, product_name, colorway, notes, target_image_id, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      id, 'pending', job.batchId ?? null, job.position ?? 0, job.product?.sku ?? null, job.product?.name ?? null,
+      job.product?.colorway ?? null, job.product?.notes ?? null, job.views[0].imageId, now, now
+    );
+    const insertView = db.prepare('INSERT INTO job_views (job_id, position, image_id, original_image_id, label) VALUES (?, ?, ?, ?, ?)');
+    job.views.forEach((view, position) =>
+      insertView.run(id, position, view.imageId, view.originalImageId ?? null, view.label ?? null));
+    const insertPiece = db.prepare('INSERT INTO job_outfit (job_id, role, match, image_id, note) VALUES (?, ?, ?, ?, ?)');
+    job.outfit?.forEach(piece => insertPiece.run(id, piece.role, piece.match, piece.imageId, piece.note ?? null));
+    const insertShot = db.prepare(`
+      INSERT INTO shots (
+        job_id, shot_index, scene_image_id, status, aspect_ratio, image_size, extra_prompt, identity_id, identity_name
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    job.shots.forEach((shot, i) => {
+      insertShot.run(
+        id, i, shot.sceneImageId, 'pending', shot.aspectRatio, shot.imageSize, shot.extraPrompt ?? null,
+        shot.identity?.id ?? null, shot.identity?.name ?? null
+      );
+    });
+  })();
+  return id;
+}
+
+function toJobRecord(db: DB, row: JobRow): JobRecord {
+  const shots = db.prepare(`
+    SELECT shots.*, images.mime_type AS image_mime_type FROM shots
+    LEFT JOIN images ON images.id = shots.image_id
+    WHERE job_id = ? ORDER BY shot_index
+  `).all(row.id) as ShotRow[];
+  const renditions = db.prepare(`
+    SELECT renditions.image_id, name, mime_type, width, height FROM renditions
+    JOIN shots ON shots.image_id = renditions.image_id
+    WHERE shots.job_id = ? ORDER BY renditions.rowid
+  `).all(row.id) as { image_id: string; name: string; mime_type: string; width: number; height: number }[];
+  const comments = db.prepare('SELECT shot_index, body, author, created_at FROM shot_comments WHERE job_id = ? ORDER BY id')
+    .all(row.id) as { shot_index: number; body: string; author: string | null; created_at: number }[];
+  const views = db.prepare('SELECT image_id, original_image_id, label FROM job_views WHERE job_id = ? ORDER BY position')
+    .all(row.id) as { image_id: string; original_image_id: string | null; label: string | null }[];
+  const outfit = db.prepare('SELECT role, match, image_id, note FROM job_outfit WHERE job_id = ?').all(row.id) as
+    { role: OutfitRole; match: OutfitMatch; image_id: string; note: string | null }[];
+  return {
+    id: row.id,
+    status: row.status,
+    error: row.error ?? undefined,
+    batchId: row.batch_id ?? undefined,
+    sku: row.sku ?? undefined,
+    name: row.product_name ?? undefined,
+    colorway: row.colorway ?? undefined,
+    notes: row.notes ?? undefined,
+    targetImageId: row.target_image_id,
+    views: views.map(view => ({
+      imageId: view.image_id,
+      originalImageId: view.original_image_id ?? undefined,
+      label: view.label ?? undefined,
+    })),
+    outfit: sortOutfit(outfit.map(piece => ({
+      role: piece.role,
+      match: piece.match,
+      imageId: piece.image_id,
+      note: piece.note ?? undefined,
+    }))),
+    shots: shots.map((shot): ShotRecord => ({
+      index: shot.shot_index,
+      status: shot.status,
+      attempts: shot.attempts,
+      sceneImageId: shot.scene_image_id,
+      aspectRatio: shot.aspect_ratio,
+      imageSize: shot.image_size,
+      extraPrompt: shot.extra_prompt ?? undefined,
+      note: shot.note ?? undefined,
+      variantOf: shot.variant_of ?? undefined,
+      identityId: shot.identity_id ?? undefined,
+      identityName: shot.identity_name ?? undefined,
+      templateId: shot.template_id ?? undefined,
+      templateVersion: shot.template_version ?? undefined,
+      prompt: shot.prompt ?? undefined,
+      model: shot.model ?? undefined,
+      imageId: shot.image_id ?? undefined,
+      mimeType: shot.image_mime_type ?? undefined,
+      renditions: renditions
+        .filter(r => r.image_id === shot.image_id)
+        .map(r => ({ name: r.name, mimeType: r.mime_type, width: r.width, height: r.height })),
+      error: shot.error ?? undefined,
+      completedAt: shot.completed_at ?? undefined,
+      review: shot.review_status ?? undefined,
+      reviewedBy: shot.reviewed_by ?? undefined,
+      fidelity: shot.fidelity ? JSON.parse(shot.fidelity) : undefined,
+      autoRequeues: shot.auto_requeues,
+      comments: comments
+        .filter(comment => comment.shot_index === shot.shot_index)
+        .map(comment => ({ body: comment.body, author: comment.author ?? undefined, createdAt: comment.created_at })),
+    })),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function getJob(db: DB, id: string): JobRecord | undefined {
+  const row = db.prepare('SELECT * FROM jobs WHERE id = ?').get(id) as JobRow | undefined;
+  return row && toJobRecord(db, row);
+}
+
+export function setJobStatus(db: DB, id: string, status: JobStatus, error?: string) {
+  db.prepare('UPDATE jobs SET status = ?, error = ?, updated_at = ? WHERE id = ?')
+    .run(status, error ?? null, Date.now(), id);
+}
+
+/**
+ * Recomputes a job's status from its shots. Paused and cancelled are user
+ * decisions and stick until the user resumes. `inRun` distinguishes a job
+ * waiting for a worker slot from one left over after the run ended.
+ */
+export function updateJobStatus(db: DB, id: string, inRun: boolean) {
+  const job = getJob(db, id);
+  if (!job) return;
+
+  const count = (status: ShotStatus) => job.shots.filter(shot => shot.status === status).length;
+  const total = job.shots.length;
+  const completed = count('completed');
+  if (job.status === 'cancelled' || (job.status === 'paused' && completed < total)) return;
+  const firstError = job.shots.find(shot => shot.status === 'error')?.error;
+
+  let status: JobStatus;
+  if (completed === total) status = 'completed';
+  else if (count('processing') > 0) status = 'processing';
+  else if (count('retrying') > 0) status = 'retrying';
+  else if (count('pending') > 0) status = inRun && count('pending') < total ? 'processing' : 'pending';
+  else if (completed > 0) status = 'partial';
+  else if (count('cancelled') === total) status = 'cancelled';
+  else status = 'error';
+
+  setJobStatus(db, id, status, status === 'partial' || status === 'error' ? firstError : undefined);
+}
+
+export type RunScope = { batchId: string } | { jobId: string };
+
+/**
+ * Atomically picks the next pending shot in scope, honouring pauses and
+ * cancellations, and marks it processing. Targets go in upload order.
+ */
+export function claimNextShot(db: DB, scope: RunScope): { jobId: string; shotIndex: number } | undefined {
+  return db.transaction(() => {
+    const row = db.prepare(`
+      SELECT shots.job_id, shots.shot_index FROM shots
+      JOIN jobs ON jobs.id = shots.job_id
+      LEFT JOIN batches ON batches.id = jobs.batch_id
+      WHERE shots.status = 'pending'
+        AND jobs.status NOT IN ('paused', 'cancelled')
+        AND (batches.id IS NULL OR batches.status = 'processing')
+        AND ${'batchId' in scope ? 'jobs.batch_id' : 'jobs.id'} = ?
+      ORDER BY jobs.position, shots.shot_index
+      LIMIT 1
+    `).get('batchId' in scope ? scope.batchId : scope.jobId) as { job_id: string; shot_index: number } | undefined;
+    if (!row) return undefined;
+    setShotStatus(db, row.job_id, row.shot_index, 'processing');
+    setJobStatus(db, row.job_id, 'processing');
+    return { jobId: row.job_id, shotIndex: row.shot_index };
+  })();
+}
+
+/** Re-queues failed shots so a resume retries them. Cancelled shots stay cancelled. */
+export function prepareJobRun(db: DB, id: string) {
+  db.prepare("UPDATE shots SET status = 'pending', error = NULL, attempts = 0 WHERE job_id = ? AND status = 'error'").run(id);
+  db.prepare(
+    "UPDATE jobs SET status = 'pending', error = NULL, updated_at = ? WHERE id = ? AND status IN ('paused', 'error', 'partial')"
+  ).run(Date.now(), id);
+}
+
+export function pauseJob(db: DB, id: string) {
+  db.prepare("UPDATE jobs SET status = 'paused', updated_at = ? WHERE id = ? AND status NOT IN ('completed', 'cancelled')")
+    .run(Date.now(), id);
+}
+
+/** Cancels the job's queued shots. Shots already in flight are aborted by the runner. */
+export function cancelJob(db: DB, id: string) {
+  db.transaction(() => {
+    db.prepare("UPDATE shots SET status = 'cancelled' WHERE job_id = ? AND status IN ('pending', 'retrying')").run(id);
+    db.prepare("UPDATE jobs SET status = 'cancelled', updated_at = ? WHERE id = ? AND status != 'completed'")
+      .run(Date.now(), id);
+  })();
+}
+
+export function setShotStatus(
+  db: DB,
+  jobId: string,
+  shotIndex: number,
+  status: ShotStatus,
+  update: { imageId?: string; model?: string; error?: string; attempts?: number } = {}
+) {
+  const now = Date.now();
+  db.transaction(() => {
+    const previous = update.imageId && (
+      db.prepare('SELECT image_id FROM shots WHERE job_id = ? AND shot_index = ?').get(jobId, shotIndex) as
+        | { image_id: string | null }
+        | undefined
+    )?.image_id;
+    db.prepare(`
+      UPDATE shots SET status = ?, image_id = COALESCE(?, image_id), model = COALESCE(?, model), error = ?,
+        attempts = COALESCE(?, attempts), completed_at = CASE WHEN ? = 'completed' THEN ? ELSE completed_at END,
+        review_status = CASE WHEN ? IS NULL THEN review_status END,
+        reviewed_by = CASE WHEN ? IS NULL THEN reviewed_by END,
+        fidelity = CASE WHEN ? IS NULL THEN fidelity END
+      WHERE job_id = ? AND shot_index = ?
+    `).run(
+      status, update.imageId ?? null, update.model ?? null, update.error ?? null, update.attempts ?? null,
+      status, now, update.imageId ?? null, update.imageId ?? null, update.imageId ?? null, jobId, shotIndex
+    );
+    // A regenerated or re-queued shot's new image replaces the old one, renditions included.
+    if (previous && previous !== update.imageId) {
+      db.prepare(`DELETE FROM images WHERE id = ? AND id NOT IN (${REFERENCED_IMAGES_SQL})`).run(previous);
+    }
+    db.prepare('UPDATE jobs SET updated_at = ? WHERE id = ?').run(now, jobId);
+  })();
+}
+
+// New work on a finished or cancelled job reopens it; a paused job waits for its resume.
+const reopenJob = (db: DB, jobId: string) =>
+  db.prepare("UPDATE jobs SET status = 'pending', error = NULL, updated_at = ? WHERE id = ? AND status != 'paused'")
+    .run(Date.now(), jobId);
+
+/**
+ * Queues a settled shot again with the same inputs plus an optional revision
+ * note. The current image stays visible until the new one completes, which
+ * deletes it.
+ */
+export function requeueShot(db: DB, jobId: string, shotIndex: number, note?: string): boolean {
+  return db.transaction(() => {
+    const { changes } = db.prepare(`
+      UPDATE shots SET status = 'pending', error = NULL, attempts = 0, auto_requeues = 0, note = ?
+      WHERE job_id = ? AND shot_index = ? AND status IN ('completed', 'error', 'cancelled')
+    `).run(note ?? null, jobId, shotIndex);
+    if (changes > 0) reopenJob(db, jobId);
+    return changes > 0;
+  })();
+}
+
+/** Queues another take of a completed shot that failed the fidelity check, counting the re-queue. */
+export function autoRequeueShot(db: DB, jobId: string, shotIndex: number) {
+  db.prepare(`
+    UPDATE shots SET status = 'pending', attempts = 0, auto_requeues = auto_requeues + 1
+    WHERE job_id = ? AND shot_index = ? AND status = 'completed'
+  `).run(jobId, shotIndex);
+}
+
+export function recordShotFidelity(db: DB, jobId: string, shotIndex: number, fidelity: FidelityResult) {
+  db.prepare('UPDATE shots SET fidelity = ? WHERE job_id = ? AND shot_index = ?')
+    .run(JSON.stringify(fidelity), jobId, shotIndex);
+}
+
+/** Appends `count` pending copies of a shot. Variations of a variation point at the original shot. */
+export function addShotVariations(db: DB, jobId: string, shotIndex: number, count: number): number[] {
+  return db.transaction(() => {
+    const { next } = db.prepare('SELECT MAX(shot_index) + 1 AS next FROM shots WHERE job_id = ?').get(jobId) as { next: number };
+    const insert = db.prepare(`
+      INSERT INTO shots (
+        job_id, shot_index, scene_image_id, status, aspect_ratio, image_size, extra_prompt, identity_id, identity_name,
+        variant_of
+      )
+      SELECT job_id, ?, scene_image_id, 'pending', aspect_ratio, image_size, extra_prompt, identity_id, identity_name,
+        COALESCE(variant_of, shot_index)
+      FROM shots WHERE job_id = ? AND shot_index = ?
+    `);
+    const indexes = Array.from({ length: count }, (_, i) => next + i);
+    indexes.forEach(index => insert.run(index, jobId, shotIndex));
+    reopenJob(db, jobId);
+    return indexes;
+  })();
+}
+
+/** `reviewer` names who decided through a review link; studio reviews leave it unset. */
+export function setShotReview(db: DB, jobId: string, shotIndex: number, review: ReviewStatus | null, reviewer?: string): boolean {
+  const { changes } = db.prepare(`
+    UPDATE shots SET review_status = ?, reviewed_by = ? WHERE job_id = ? AND shot_index = ? AND image_id IS NOT NULL
+  `).run(review, review ? reviewer ?? null : null, jobId, shotIndex);
+  return changes > 0;
+}
+
+export function addShotComment(db: DB, jobId: string, shotIndex: number, body: string, author?: string) {
+  db.prepare('INSERT INTO shot_comments (job_id, shot_index, body, author, created_at) VALUES (?, ?, ?, ?, ?)')
+    .run(jobId, shotIndex, body, author ?? null, Date.now());
+}
+
+/** Remembers the template and rendered prompt a shot was generated with. */
+export function recordShotPrompt(db: DB, jobId: string, shotIndex: number, template: TemplateRef, prompt: string) {
+  db.prepare('UPDATE shots SET template_id = ?, template_version = ?, prompt = ? WHERE job_id = ? AND shot_index = ?')
+    .run(template.id, template.version, prompt, jobId, shotIndex);
+}
+
+/** The template and variables a job renders with. Standalone jobs use the default template. */
+export function getPromptSettings(db: DB, jobId: string): PromptSettings {
+  const row = db.prepare(`
+    SELECT batches.template_id, batches.template_version, batches.prompt_variables FROM jobs
+    JOIN batches ON batches.id = jobs.batch_id
+    WHERE jobs.id = ?
+  `).get(jobId) as Pick<BatchRow, 'template_id' | 'template_version' | 'prompt_variables'> | undefined;
+  if (!row) return { template: DEFAULT_TEMPLATE, variables: {} };
+
+  const template = getPromptTemplate(db, { id: row.template_id, version: row.template_version });
+  if (!template) throw new Error(`Prompt template ${row.template_id} v${row.template_version} was deleted.`);
+  return { template, variables: JSON.parse(row.prompt_variables) };
+}
+
+// Sessions from before a setting existed, and standalone jobs, use its defaults.
+const toOutputSettings = (row?: Pick<BatchRow, 'renditions' | 'fidelity'>): OutputSettings => ({
+  renditions: row?.renditions ? JSON.parse(row.renditions) : DEFAULT_RENDITIONS,
+  fidelity: row?.fidelity ? JSON.parse(row.fidelity) : DEFAULT_FIDELITY,
+});
+
+export function getOutputSettings(db: DB, jobId: string): OutputSettings {
+  const row = db.prepare(`
+    SELECT batches.renditions, batches.fidelity FROM jobs JOIN batches ON batches.id = jobs.batch_id WHERE jobs.id = ?
+  `).get(jobId) as Pick<BatchRow, 'renditions' | 'fidelity'> | undefined;
+  return toOutputSettings(row);
+}
+
+/** The image model a job's session picked. Undefined means the provider's default. */
+export function getImageModel(db: DB, jobId: string): string | undefined {
+  const row = db.prepare(`
+    SELECT batches.image_model FROM jobs JOIN batches ON batches.id = jobs.batch_id WHERE jobs.id = ?
+  `).get(jobId) as Pick<BatchRow, 'image_model'> | undefined;
+  return row?.image_model ?? undefined;
+}
+
+// --- Batches ---
+
+const BATCH_SUMMARY_SQL = `
+  SELECT batches.*,
+    (SELECT COUNT(*) FROM jobs WHERE jobs.batch_id = batches.id) AS target_count,
+    (SELECT COUNT(*) FROM jobs WHERE jobs.batch_id = batches.id AND jobs.status = 'completed') AS completed_targets,
+    (SELECT COUNT(*) FROM shots JOIN jobs ON jobs.id = shots.job_id
+      WHERE jobs.batch_id = batches.id AND shots.image_id IS NOT NULL) AS image_count,
+    (SELECT COUNT(*) FROM shots JOIN jobs ON jobs.id = shots.job_id
+      WHERE jobs.batch_id = batches.id AND shots.image_id IS NOT NULL AND shots.review_status = 'approved') AS approved_count,
+    (SELECT COALESCE(SUM(cost), 0) FROM usage WHERE usage.batch_id = batches.id) AS spent
+  FROM batches
+`;
+
+function toBatchSummary(row: BatchRow): BatchSummary {
+  return {
+    id: row.id,
+    name: row.name,
+    status: row.status,
+    concurrency: row.concurrency,
+    targetCount: row.target_count,
+    completedTargets: row.completed_targets,
+    imageCount: row.image_count,
+    approvedCount: row.approved_count,
+    spent: row.spent,
+    budget: row.budget ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Stores the scenes once and queues one pending job per target, keeping upload
+ * order. Library scenes share their stored image and come first. In rotate
+ * mode product N wears roster[N % roster.length]; in rotate scene order its
+ * unpinned shots start at scene N.
+ */
+export function createBatch(db: DB, batch: NewBatch): string {
+  const { name, libraryScenes, scenes, targets, concurrency, identity, template } = batch;
+  const id = randomUUID();
+  const now = Date.now();
+  const roster = identity.mode === 'diverse' ? [] : identity.identityIds.map(identityId => {
+    const found = getIdentity(db, identityId);
+    if (!found) throw new Error(`Model identity ${identityId} not found.`);
+    return { id: found.id, name: found.name };
+  });
+
+  db.transaction(() => {
+    db.prepare(`
+      INSERT INTO batches (
+        id, name, status, concurrency, identity_mode, template_id, template_version, prompt_variables, renditions,
+        fidelity, budget, image_model, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      id, name, 'pending', concurrency, identity.mode, template.id, template.version,
+      JSON.stringify(batch.promptVariables), JSON.stringify(batch.renditions), JSON.stringify(batch.fidelity),
+      batch.budget ?? null, batch.imageModel ?? null, now, now
+    );
+    const insertIdentity = db.prepare('INSERT INTO batch_identities (batch_id, position, identity_id) VALUES (?, ?, ?)');
+    roster.forEach((member, position) => insertIdentity.run(id, position, member.id));
+    const insertScene = db.prepare('INSERT INTO batch_scenes (batch_id, position, image_id, scene_id) VALUES (?, ?, ?, ?)');
+    const sceneImageIds = [
+      ...libraryScenes.map(scene => ({ imageId: scene.imageId, sceneId: scene.id })),
+      ...scenes.map(scene => ({ imageId: insertImage(db, scene), sceneId: null })),
+    ].map(({ imageId, sceneId }, position) => {
+      insertScene.run(id, position, imageId, sceneId);
+      return imageId;
+    });
+    targets.forEach((target, position) => {
+      createJob(db, {
+        product: { sku: target.sku, name: target.name, colorway: target.colorway, notes: target.notes },
+        views: target.views.map(view => ({
+          imageId: insertImage(db, view.image),
+          originalImageId: view.original && insertImage(db, view.original),
+          label: view.label,
+        })),
+        outfit: target.outfit?.map(piece => ({
+          role: piece.role,
+          match: piece.match,
+          imageId: insertImage(db, piece.image),
+          note: piece.note,
+        })),
+        shots: planShots(
+          target.plan,
+          sceneImageIds,
+          roster.length ? roster[position % roster.length] : undefined,
+          batch.sceneOrder === 'rotate' ? position : 0
+        ),
+        batchId: id,
+        position,
+      });
+    });
+  })();
+  return id;
+}
+
+export function listBatches(db: DB): BatchSummary[] {
+  const rows = db.prepare(`${BATCH_SUMMARY_SQL} ORDER BY created_at DESC`).all() as BatchRow[];
+  return rows.map(toBatchSummary);
+}
+
+export function getBatch(db: DB, id: string): BatchRecord | undefined {
+  const row = db.prepare(`${BATCH_SUMMARY_SQL} WHERE id = ?`).get(id) as BatchRow | undefined;
+  if (!row) return undefined;
+  const scenes = db.prepare('SELECT image_id, scene_id FROM batch_scenes WHERE batch_id = ? ORDER BY position')
+    .all(id) as { image_id: string; scene_id: string | null }[];
+  const jobs = db.prepare('SELECT * FROM jobs WHERE batch_id = ? ORDER BY position').all(id) as JobRow[];
+  const roster = db.prepare('SELECT identity_id FROM batch_identities WHERE batch_id = ? ORDER BY position')
+    .all(id) as { identity_id: string }[];
+  return {
+    ...toBatchSummary(row),
+    identity: { mode: row.identity_mode, identityIds: roster.map(member => member.identity_id) },
+    template: { id: row.template_id, version: row.template_version },
+    promptVariables: JSON.parse(row.prompt_variables),
+    ...toOutputSettings(row),
+    imageModel: row.image_model ?? undefined,
+    sceneImageIds: scenes.map(scene => scene.image_id),
+    sceneIds: scenes.map(scene => scene.scene_id),
+    jobs: jobs.map(job => toJobRecord(db, job)),
+  };
+}
+
+export function setBatchStatus(db: DB, id: string, status: BatchStatus) {
+  db.prepare('UPDATE batches SET status = ?, updated_at = ? WHERE id = ?').run(status, Date.now(), id);
+}
+
+export function setBatchConcurrency(db: DB, id: string, concurrency: number) {
+  db.prepare('UPDATE batches SET concurrency = ? WHERE id = ?').run(concurrency, id);
+}
+
+export function setBatchBudget(db: DB, id: string, budget: number | undefined) {
+  db.prepare('UPDATE batches SET budget = ? WHERE id = ?').run(budget ?? null, id);
+}
+
+/** True once a session with a budget has spent all of it. */
+export function isBudgetSpent(db: DB, id: string): boolean {
+  return !!db.prepare(`
+    SELECT 1 FROM batches
+    WHERE id = ? AND budget IS NOT NULL
+      AND (SELECT COALESCE(SUM(cost), 0) FROM usage WHERE batch_id = batches.id) >= budget
+  `).get(id);
+}
+
+/** Marks the batch running and re-queues everything a resume should pick up. */
+export function prepareBatchRun(db: DB, id: string) {
+  db.transaction(() => {
+    const jobs = db.prepare('SELECT id FROM jobs WHERE batch_id = ?').all(id) as { id: string }[];
+    jobs.forEach(job => prepareJobRun(db, job.id));
+    setBatchStatus(db, id, 'processing');
+  })();
+}
+
+export function pauseBatch(db: DB, id: string) {
+  db.prepare("UPDATE batches SET status = 'paused', updated_at = ? WHERE id = ? AND status IN ('pending', 'processing')")
+    .run(Date.now(), id);
+}
+
+/** Cancels a batch that is queued, running or paused. Finished batches are left alone. */
+export function cancelBatch(db: DB, id: string) {
+  db.transaction(() => {
+    const { changes } = db.prepare(
+      "UPDATE batches SET status = 'cancelled', updated_at = ? WHERE id = ? AND status IN ('pending', 'processing', 'paused')"
+    ).run(Date.now(), id);
+    if (changes === 0) return;
+    const jobs = db.prepare('SELECT id FROM jobs WHERE batch_id = ?').all(id) as { id: string }[];
+    jobs.forEach(job => cancelJob(db, job.id));
+  })();
+}
+
+/** Settles the batch status once its run has drained. Paused and cancelled stick. */
+export function finalizeBatch(db: DB, id: string) {
+  const batch = getBatch(db, id);
+  if (!batch || batch.status === 'paused' || batch.status === 'cancelled') return;
+
+  const statuses = batch.jobs.map(job => job.status);
+  let status: BatchStatus;
+  if (statuses.every(s => s === 'completed')) status = 'completed';
+  else if (statuses.some(s => s === 'pending' || s === 'paused')) status = 'paused';
+  else if (batch.jobs.some(job => job.shots.some(shot => shot.status === 'completed'))) status = 'partial';
+  else if (statuses.every(s => s === 'cancelled')) status = 'cancelled';
+  else status = 'error';
+  setBatchStatus(db, id, status);
+}
+
+export function deleteBatch(db: DB, id: string): boolean {
+  const { changes } = db.prepare('DELETE FROM batches WHERE id = ?').run(id);
+  if (changes > 0) deleteOrphanImages(db);
+  return changes > 0;
+}
+
+/**
+ * Anything still marked processing was cut off by a server restart. Put it back
+ * to pending so a resume picks it up from the first unfinished shot.
+ */
+export function resetInterruptedWork(db: DB) {
+  db.transaction(() => {
+    db.prepare("UPDATE shots SET status = 'pending' WHERE status IN ('processing', 'retrying')").run();
+    db.prepare("UPDATE jobs SET status = 'pending' WHERE status IN ('processing', 'retrying')").run();
+    db.prepare("UPDATE batches SET status = 'pending' WHERE status = 'processing'").run();
+  })();
+}
+
+// --- Review links ---
+
+interface ReviewLinkRow {
+  token: string;
+  batch_id: string;
+  created_at: number;
+}
+
+const toReviewLink = (row: ReviewLinkRow): ReviewLink => ({ token: row.token, batchId: row.batch_id, createdAt: row.created_at });
+
+/** 192 random bits, so the token can't be guessed or enumerated. */
+export function createReviewLink(db: DB, batchId: string): ReviewLink {
+  const row: ReviewLinkRow = { token: randomBytes(24).toString('base64url'), batch_id: batchId, created_at: Date.now() };
+  db.prepare('INSERT INTO review_links (token, batch_id, created_at) VALUES (@token, @batch_id, @created_at)').run(row);
+  return toReviewLink(row);
+}
+
+export function listReviewLinks(db: DB, batchId: string): ReviewLink[] {
+  const rows = db.prepare('SELECT * FROM review_links WHERE batch_id = ? ORDER BY created_at').all(batchId) as ReviewLinkRow[];
+  return rows.map(toReviewLink);
+}
+
+export function deleteReviewLink(db: DB, batchId: string, token: string): boolean {
+  return db.prepare('DELETE FROM review_links WHERE batch_id = ? AND token = ?').run(batchId, token).changes > 0;
+}
+
+/** The session behind a review link; undefined once the link is revoked or the session deleted. */
+export function getReviewedBatch(db: DB, token: string): BatchRecord | undefined {
+  const row = db.prepare('SELECT batch_id FROM review_links WHERE token = ?').get(token) as Pick<ReviewLinkRow, 'batch_id'> | undefined;
+  return row && getBatch(db, row.batch_id);
+}
+
+/** The reviewer's view of a session: every product's current images, leaving out prompts, costs and settings. */
+export const toSharedReview = (batch: BatchRecord): SharedReview => ({
+  name: batch.name,
+  products: batch.jobs.map(job => ({
+    jobId: job.id,
+    sku: job.sku,
+    name: job.name,
+    colorway: job.colorway,
+    shots: job.shots.flatMap(shot => shot.imageId
+      ? [{
+        index: shot.index,
+        imageId: shot.imageId,
+        aspectRatio: shot.aspectRatio,
+        renditions: shot.renditions,
+        review: shot.review,
+        reviewedBy: shot.reviewedBy,
+        comments: shot.comments,
+      }]
+      : []),
+  })),
+});
+
+// --- Usage ---
+
+export interface NewUsage {
+  jobId: string;
+  shotIndex: number;
+  kind: UsageKind;
+  usage: TokenUsage;
+  images: number;
+}
+
+/** Records one billed call against the job's session; returns its cost in USD. */
+export function recordUsage(db: DB, { jobId, shotIndex, kind, usage, images }: NewUsage): number {
+  const cost = usageCost(usage);
+  db.prepare(`
+    INSERT INTO usage (batch_id, job_id, shot_index, kind, model, prompt_tokens, output_tokens, images, cost, created_at)
+    SELECT batch_id, id, ?, ?, ?, ?, ?, ?, ?, ? FROM jobs WHERE id = ?
+  `).run(shotIndex, kind, usage.model, usage.promptTokens, usage.outputTokens, images, cost, Date.now(), jobId);
+  return cost;
+}
+
+const USAGE_TOTALS_SQL = `
+  COUNT(*) AS calls, COALESCE(SUM(images), 0) AS images, COALESCE(SUM(prompt_tokens), 0) AS promptTokens,
+  COALESCE(SUM(output_tokens), 0) AS outputTokens, COALESCE(SUM(cost), 0) AS cost
+`;
+
+/** Spend over the last `days` days by day (server time) and by session, plus the all-time total. */
+export function getUsageReport(db: DB, days = 30): UsageReport {
+  const since = Date.now() - days * 24 * 60 * 60 * 1000;
+  const total = db.prepare(`SELECT ${USAGE_TOTALS_SQL} FROM usage`).get() as UsageTotals;
+  const byDay = db.prepare(`
+    SELECT date(created_at / 1000, 'unixepoch', 'localtime') AS day, ${USAGE_TOTALS_SQL}
+    FROM usage WHERE created_at >= ? GROUP BY day ORDER BY day DESC
+  `).all(since) as (UsageTotals & { day: string })[];
+  const byBatch = db.prepare(`
+    SELECT usage.batch_id, batches.name, ${USAGE_TOTALS_SQL}
+    FROM usage LEFT JOIN batches ON batches.id = usage.batch_id
+    GROUP BY usage.batch_id ORDER BY MAX(usage.created_at) DESC
+  `).all() as (UsageTotals & { batch_id: string | null; name: string | null })[];
+  return {
+    total,
+    byDay,
+    byBatch: byBatch.map(({ batch_id, name, ...totals }) => ({
+      ...totals,
+      batchId: batch_id ?? undefined,
+      name: name ?? undefined,
+    })),
+  };
+}
+
+// --- Shot plan presets ---
+
+export function listShotPlanPresets(db: DB): ShotPlanPreset[] {
+  const rows = db.prepare('SELECT id, name, plan FROM shot_plan_presets ORDER BY name').all() as
+    { id: string; name: string; plan: string }[];
+  return rows.map(row => ({ id: row.id, name: row.name, plan: JSON.parse(row.plan) }));
+}
+
+export function saveShotPlanPreset(db: DB, name: string, plan: ShotPlan): ShotPlanPreset {
+  const id = randomUUID();
+  db.prepare('INSERT INTO shot_plan_presets (id, name, plan, created_at) VALUES (?, ?, ?, ?)')
+    .run(id, name, JSON.stringify(plan), Date.now());
+  return { id, name, plan };
+}
+
+export function deleteShotPlanPreset(db: DB, id: string): boolean {
+  return db.prepare('DELETE FROM shot_plan_presets WHERE id = ?').run(id).changes > 0;
+}
+
+// --- Model identities ---
+
+interface IdentityRow {
+  id: string;
+  name: string;
+  description: string | null;
+  created_at: number;
+}
+
+function toIdentity(db: DB, row: IdentityRow): ModelIdentity {
+  const images = db.prepare('SELECT image_id FROM model_identity_images WHERE identity_id = ? ORDER BY position')
+    .all(row.id) as { image_id: string }[];
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description ?? undefined,
+    imageIds: images.map(image => image.image_id),
+    createdAt: row.created_at,
+  };
+}
+
+export function listIdentities(db: DB): ModelIdentity[] {
+  const rows = db.prepare('SELECT * FROM model_identities ORDER BY name').all() as IdentityRow[];
+  return rows.map(row => toIdentity(db, row));
+}
+
+export function getIdentity(db: DB, id: string): ModelIdentity | undefined {
+  const row = db.prepare('SELECT * FROM model_identities WHERE id = ?').get(id) as IdentityRow | undefined;
+  return row && toIdentity(db, row);
+}
+
+export function createIdentity(db: DB, name: string, description: string | undefined, images: InlineImage[]): string {
+  const id = randomUUID();
+  db.transaction(() => {
+    db.prepare('INSERT INTO model_identities (id, name, description, created_at) VALUES (?, ?, ?, ?)')
+      .run(id, name, description ?? null, Date.now());
+    addIdentityImages(db, id, images);
+  })();
+  return id;
+}
+
+export function addIdentityImages(db: DB, id: string, images: InlineImage[]) {
+  const { next } = db.prepare('SELECT COALESCE(MAX(position) + 1, 0) AS next FROM model_identity_images WHERE identity_id = ?')
+    .get(id) as { next: number };
+  const insert = db.prepare('INSERT INTO model_identity_images (identity_id, position, image_id) VALUES (?, ?, ?)');
+  images.forEach((image, i) => insert.run(id, next + i, insertImage(db, image)));
+}
+
+/** True while an unfinished shot still needs this identity's reference images. */
+export function isIdentityInUse(db: DB, id: string): boolean {
+  return !!db.prepare(
+    "SELECT 1 FROM shots WHERE identity_id = ? AND status IN ('pending', 'processing', 'retrying', 'error') LIMIT 1"
+  ).get(id);
+}
+
+export function deleteIdentity(db: DB, id: string): boolean {
+  const { changes } = db.prepare('DELETE FROM model_identities WHERE id = ?').run(id);
+  if (changes > 0) deleteOrphanImages(db);
+  return changes > 0;
+}
+
+// --- Scene library ---
+
+interface SceneRow {
+  id: string;
+  name: string;
+  image_id: string;
+  location: string | null;
+  pose: string | null;
+  lighting: string | null;
+  season: string | null;
+  created_at: number;
+}
+
+const toScene = (row: SceneRow): LibraryScene => ({
+  id: row.id,
+  name: row.name,
+  imageId: row.image_id,
+  tags: {
+    location: row.location ?? undefined,
+    pose: row.pose ?? undefined,
+    lighting: row.lighting ?? undefined,
+    season: row.season ?? undefined,
+  },
+  createdAt: row.created_at,
+});
+
+export function listScenes(db: DB): LibraryScene[] {
+  const rows = db.prepare('SELECT * FROM scenes ORDER BY created_at, rowid').all() as SceneRow[];
+  return rows.map(toScene);
+}
+
+export function getScene(db: DB, id: string): LibraryScene | undefined {
+  const row = db.prepare('SELECT * FROM scenes WHERE id = ?').get(id) as SceneRow | undefined;
+  return row && toScene(row);
+}
+
+export function createScene(db: DB, name: string, image: InlineImage, tags: SceneTags): string {
+  const id = randomUUID();
+  db.transaction(() => {
+    db.prepare(`
+      INSERT INTO scenes (id, name, image_id, location, pose, lighting, season, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      id, name, insertImage(db, image), tags.location ?? null, tags.pose ?? null, tags.lighting ?? null,
+      tags.season ?? null, Date.now()
+    );
+  })();
+  return id;
+}
+
+export function updateScene(db: DB, id: string, name: string, tags: SceneTags): boolean {
+  const { changes } = db.prepare('UPDATE scenes SET name = ?, location = ?, pose = ?, lighting = ?, season = ? WHERE id = ?')
+    .run(name, tags.location ?? null, tags.pose ?? null, tags.lighting ?? null, tags.season ?? null, id);
+  return changes > 0;
+}
+
+// Sessions keep their own reference to the image, so deleting a library scene never breaks one.
+export function deleteScene(db: DB, id: string): boolean {
+  const { changes } = db.prepare('DELETE FROM scenes WHERE id = ?').run(id);
+  if (changes > 0) deleteOrphanImages(db);
+  return changes > 0;
+}
+
+// --- Prompt templates ---
+
+interface PromptTemplateRow {
+  id: string;
+  version: number;
+  name: string;
+  body: string;
+  created_at: number;
+}
+
+const toPromptTemplate = (row: PromptTemplateRow): PromptTemplate => ({
+  id: row.id,
+  version: row.version,
+  name: row.name,
+  body: JSON.parse(row.body),
+  createdAt: row.created_at,
+});
+
+/** Every saved version, newest first within each template. Built-ins are not stored. */
+export function listPromptTemplates(db: DB): PromptTemplate[] {
+  const rows = db.prepare('SELECT * FROM prompt_templates ORDER BY id, version DESC').all() as PromptTemplateRow[];
+  return rows.map(toPromptTemplate);
+}
+
+export function getPromptTemplate(db: DB, ref: TemplateRef): PromptTemplate | undefined {
+  const builtIn = BUILT_IN_TEMPLATES.find(t => t.id === ref.id && t.version === ref.version);
+  if (builtIn) return builtIn;
+  const row = db.prepare('SELECT * FROM prompt_templates WHERE id = ? AND version = ?').get(ref.id, ref.version) as
+    | PromptTemplateRow
+    | undefined;
+  return row && toPromptTemplate(row);
+}
+
+/** Saves `body` as the next version of template `id`, or as version 1 of a new template. */
+export function savePromptTemplate(db: DB, name: string, body: PromptTemplateBody, id?: string): PromptTemplate | undefined {
+  return db.transaction(() => {
+    let version = 1;
+    if (id) {
+      const { latest } = db.prepare('SELECT MAX(version) AS latest FROM prompt_templates WHERE id = ?').get(id) as
+        { latest: number | null };
+      if (latest === null) return undefined;
+      version = latest + 1;
+    }
+    const row: PromptTemplateRow = { id: id ?? randomUUID(), version, name, body: JSON.stringify(body), created_at: Date.now() };
+    db.prepare('INSERT INTO prompt_templates (id, version, name, body, created_at) VALUES (?, ?, ?, ?, ?)')
+      .run(row.id, row.version, row.name, row.body, row.created_at);
+    return toPromptTemplate(row);
+  })();
+}
+
+/** True while an unfinished shot in some session still renders with this template. */
+export function isPromptTemplateInUse(db: DB, id: string): boolean {
+  return !!db.prepare(`
+    SELECT 1 FROM shots
+    JOIN jobs ON jobs.id = shots.job_id
+    JOIN batches ON batches.id = jobs.batch_id
+    WHERE batches.template_id = ? AND shots.status IN ('pending', 'processing', 'retrying', 'error')
+    LIMIT 1
+  `).get(id);
+}
+
+/** Deletes every version. Finished shots keep their rendered prompt. */
+export function deletePromptTemplate(db: DB, id: string): boolean {
+  return db.prepare('DELETE FROM prompt_templates WHERE id = ?').run(id).changes > 0;
+}
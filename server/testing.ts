@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import sharp from 'sharp';
+import type { CreateBatchRequest, InlineImage, TargetInput } from '../src/core/types.ts';
+import { type DB, openDatabase } from './db.ts';
+import type { ImageProvider } from './providers.ts';
+import { createSession } from './sessions.ts';
+
+// Helpers shared by the tests. Images and renditions are kept small so a run
+// against the mock provider takes a fraction of a second per shot.
+
+/** A solid-colour PNG. */
+export async function testImage(color = '#a33', size = 64): Promise<InlineImage> {
+  const data = await sharp({ create: { width: size, height: size, channels: 3, background: color } }).png().toBuffer();
+  return { data: data.toString('base64'), mimeType: 'image/png' };
+}
+
+/** A product with one front photo and `shots` square 1K shots. */
+export async function testTarget(shots: number, details: Omit<TargetInput, 'views' | 'plan'> = {}): Promise<TargetInput> {
+  return {
+    ...details,
+    views: [{ image: await testImage(), label: 'front' }],
+    plan: { shots: Array.from({ length: shots }, () => ({ aspectRatio: '1:1' as const, imageSize: '1K' as const })) },
+  };
+}
+
+export const testDatabase = () => openDatabase(':memory:');
+
+/** Creates a pending session with one scene, failing the test on a validation error. */
+export async function createTestSession(
+  db: DB,
+  provider: ImageProvider,
+  request: Partial<CreateBatchRequest> & Pick<CreateBatchRequest, 'targets'>
+): Promise<string> {
+  const result = createSession(db, provider, {
+    name: 'Test session',
+    scenes: [await testImage('#ddd')],
+    renditions: { widths: [256], formats: ['jpeg'], quality: { jpeg: 80, webp: 80 } },
+    ...request,
+  });
+  if ('error' in result) throw new Error(result.error);
+  return result.id;
+}
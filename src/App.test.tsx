@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ * @vitest-environment jsdom
+ */
+
+import { cleanup, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import express from 'express';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import sharp from 'sharp';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { createJobRunner } from '../server/jobs.ts';
+import { createMockProvider } from '../server/mock.ts';
+import { createApiRouter } from '../server/routes.ts';
+import { testDatabase } from '../server/testing.ts';
+import App from './App.tsx';
+
+// The whole studio against the real API, run in-process with the mock provider.
+let server: Server;
+
+beforeAll(async () => {
+  const db = testDatabase();
+  const provider = createMockProvider();
+  const app = express();
+  app.use(express.json({ limit: '50mb' }));
+  app.use('/api', createApiRouter(db, createJobRunner(db, provider), provider));
+  server = await new Promise<Server>(resolve => {
+    const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+  });
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  const serverFetch = globalThis.fetch;
+  vi.stubGlobal('fetch', (input: string, init?: RequestInit) => serverFetch(new URL(input, base), init));
+  URL.createObjectURL = () => 'blob:preview';
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterAll(async () => {
+  cleanup();
+  // Refreshes still in flight fail as the server goes; console.error stays muted for them.
+  await new Promise(resolve => server.close(resolve));
+  vi.unstubAllGlobals();
+});
+
+async function pngFile(name: string, color: string) {
+  const data = await sharp({ create: { width: 96, height: 128, channels: 3, background: color } }).png().toBuffer();
+  return new File([new Uint8Array(data)], name, { type: 'image/png' });
+}
+
+/** The dropzone input inside the panel whose heading starts with `heading`. */
+function dropzoneInput(heading: string) {
+  let panel = screen.getByText(text => text.startsWith(heading)).parentElement;
+  while (panel && !panel.querySelector('input[type=file]')) panel = panel.parentElement;
+  return panel!.querySelector<HTMLInputElement>('input[type=file]')!;
+}
+
+describe('studio', () => {
+  it('takes scenes and products through generation to an export', async () => {
+    render(<App />);
+    await screen.findByText(/Mock provider/);
+
+    fireEvent.change(dropzoneInput('1. Studio Scenes'), { target: { files: [await pngFile('loft.png', '#ccc')] } });
+    await screen.findByText('loft');
+
+    fireEvent.change(dropzoneInput('2. Target Cardigans'), {
+      target: { files: [await pngFile('SKU1_front.png', '#a33'), await pngFile('SKU1_back.png', '#a33')] },
+    });
+    const generate = screen.getByRole<HTMLButtonElement>('button', { name: /Generate Bulk Catalog/ });
+    await waitFor(() => expect(generate.disabled).toBe(false), { timeout: 10000 });
+
+    fireEvent.click(generate);
+    await screen.findByText('Completed', undefined, { timeout: 30000 });
+
+    const exportLink = screen.getByText('Export ZIP').closest('a')!;
+    const zip = await fetch(exportLink.getAttribute('href')!);
+    expect(zip.status).toBe(200);
+    expect(zip.headers.get('content-type')).toBe('application/zip');
+    expect(screen.getAllByRole('img').some(img => img.getAttribute('src')?.includes('/renditions/'))).toBe(true);
+  }, 60000);
+});
@@ -4,275 +4,630 @@
  */
 
 import React, { useState, useEffect, useCallback } from 'react';
-import { GoogleGenAI } from "@google/genai";
 import { 
   Upload, 
   Image as ImageIcon, 
-  Layers, 
   CheckCircle2, 
   AlertCircle, 
   Loader2, 
-  Plus, 
   X, 
   Sparkles,
   Camera,
   User,
   Settings2,
   Download,
-  ExternalLink
+  History,
+  RotateCcw,
+  Trash2,
+  Pause,
+  Play,
+  Ban,
+  RefreshCw,
+  Clock,
+  Share2,
+  ScanSearch
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
-import { useDropzone } from 'react-dropzone';
-import { clsx, type ClassValue } from 'clsx';
-import { twMerge } from 'tailwind-merge';
-
-function cn(...inputs: ClassValue[]) {
-  return twMerge(clsx(inputs));
-}
+import { DEFAULT_CONCURRENCY, MAX_CONCURRENCY, REVIEW_STATUSES } from './core/settings.ts';
+import { alignSceneOrder, BUILT_IN_PRESETS, DEFAULT_SHOT_PLAN, resizePlan, resolveSceneIndex } from './core/shotPlan.ts';
+import { BUILT_IN_TEMPLATES, DEFAULT_TEMPLATE, type ShotInput } from './core/prompt.ts';
+import { productFileStem, productLabel } from './core/products.ts';
+import { imageExtension } from './core/images.ts';
+import { DEFAULT_FIDELITY, fidelityScore } from './core/fidelity.ts';
+import { DEFAULT_RENDITIONS } from './core/renditions.ts';
+import { estimateBatchCost, formatCost } from './core/usage.ts';
+import type {
+  AspectRatio,
+  BatchRecord,
+  BatchSummary,
+  IdentitySelection,
+  ImageSize,
+  JobRecord,
+  JobStatus,
+  LibraryScene,
+  ModelIdentity,
+  ProductInfo,
+  PromptTemplate,
+  PromptVariables,
+  ProviderInfo,
+  FidelityResult,
+  FidelitySettings,
+  RenditionSettings,
+  ReviewLink,
+  ReviewStatus,
+  SavePromptTemplateRequest,
+  SceneOrder,
+  SceneTags,
+  ShotComment,
+  ShotPlan,
+  ShotPlanPreset,
+  TemplateRef,
+  UsageReport
+} from './core/types.ts';
+import {
+  addIdentityImages,
+  addShotVariations,
+  cancelBatch,
+  commentOnShot,
+  controlJob,
+  createBatch,
+  createIdentity,
+  createReviewLink,
+  deleteBatch,
+  deleteIdentity,
+  deletePromptTemplate,
+  deleteReviewLink,
+  deleteScene,
+  deleteShotPlanPreset,
+  exportUrl,
+  getBatch,
+  getProvider,
+  getUsageReport,
+  imageUrl,
+  listBatches,
+  listIdentities,
+  listPromptTemplates,
+  listReviewLinks,
+  listScenes,
+  listShotPlanPresets,
+  pauseBatch,
+  POLL_INTERVAL_MS,
+  previewUrl,
+  regenerateShot,
+  renditionUrl,
+  reviewShot,
+  runBatch,
+  savePromptTemplate,
+  saveScene,
+  saveShotPlanPreset
+} from './lib/api.ts';
+import { cn, cssAspect, fileToBase64 } from './lib/utils.ts';
+import SceneLibraryPanel from './components/SceneLibraryPanel.tsx';
+import ShotPlanEditor from './components/ShotPlanEditor.tsx';
+import ModelIdentityPanel from './components/ModelIdentityPanel.tsx';
+import PromptTemplatePanel from './components/PromptTemplatePanel.tsx';
+import RenditionPanel from './components/RenditionPanel.tsx';
+import FidelityPanel from './components/FidelityPanel.tsx';
+import CostPanel from './components/CostPanel.tsx';
+import BudgetRaise from './components/BudgetRaise.tsx';
+import UsageDashboard from './components/UsageDashboard.tsx';
+import ShotActions from './components/ShotActions.tsx';
+import ReviewLinksPanel from './components/ReviewLinksPanel.tsx';
+import ImageInspector from './components/ImageInspector.tsx';
+import ProductPanel, { type ProductGroup } from './components/ProductPanel.tsx';
 
 // --- Types ---
 
-declare global {
-  interface Window {
-    aistudio?: {
-      hasSelectedApiKey: () => Promise<boolean>;
-      openSelectKey: () => Promise<void>;
-    };
-  }
-}
-
-interface ImageFile {
-  id: string;
-  file: File;
-  preview: string;
-  base64: string;
+interface GeneratedImage {
+  shotIndex: number;
+  variantOf?: number;
+  url: string;
+  previewUrl: string; // a smaller rendition when there is one
+  extension: string;
+  renditions: { name: string; url: string }[];
+  aspectRatio: AspectRatio;
+  imageSize: ImageSize;
+  identityName?: string;
+  templateVersion?: number;
+  prompt?: string;
+  note?: string;
+  review?: ReviewStatus;
+  reviewedBy?: string;
+  fidelity?: FidelityResult;
+  comments: ShotComment[];
+  isBusy: boolean; // regenerating; the image shown is the previous take
 }
 
 interface GenerationResult {
   targetId: string;
-  images: string[];
-  status: 'pending' | 'processing' | 'completed' | 'error';
+  targetPreview: string;
+  product: ProductInfo;
+  images: GeneratedImage[];
+  status: JobStatus;
   error?: string;
-  progress: number; // 0 to 4
+  modelNames: string[];
+  progress: number; // completed shots
+  shotCount: number;
+  inFlight: AspectRatio[]; // shots processing, retrying or queued
+  attempts: number; // highest attempt among retrying shots
 }
 
-// --- Constants ---
+const fidelityDetails = (fidelity: FidelityResult) => [
+  `Colour match ${fidelity.score} (average ΔE ${fidelity.deltaE})`,
+  `Garment colours: ${fidelity.garmentColors.join(', ')}`,
+  ...(fidelity.critique ? [`Critique ${fidelity.critique.score}: ${fidelity.critique.notes}`] : []),
+].join('\n');
+
+const toGenerationResult = (job: JobRecord): GenerationResult => ({
+  targetId: job.id,
+  targetPreview: imageUrl(job.targetImageId),
+  product: { sku: job.sku, name: job.name, colorway: job.colorway },
+  images: job.shots.flatMap(shot => shot.imageId
+    ? [{
+      shotIndex: shot.index,
+      variantOf: shot.variantOf,
+      url: imageUrl(shot.imageId),
+      previewUrl: previewUrl(shot.imageId, shot.renditions),
+      extension: imageExtension(shot.mimeType ?? 'image/png'),
+      renditions: shot.renditions.map(r => ({ name: r.name, url: renditionUrl(shot.imageId!, r.name) })),
+      aspectRatio: shot.aspectRatio,
+      imageSize: shot.imageSize,
+      identityName: shot.identityName,
+      templateVersion: shot.templateVersion,
+      prompt: shot.prompt,
+      note: shot.note,
+      review: shot.review,
+      reviewedBy: shot.reviewedBy,
+      fidelity: shot.fidelity,
+      comments: shot.comments,
+      isBusy: ['pending', 'processing', 'retrying'].includes(shot.status)
+    }]
+    : []),
+  status: job.status,
+  error: job.error,
+  modelNames: [...new Set(job.shots.flatMap(shot => shot.identityName ? [shot.identityName] : []))],
+  progress: job.shots.filter(shot => shot.status === 'completed').length,
+  shotCount: job.shots.length,
+  inFlight: job.shots
+    .filter(shot => !shot.imageId && ['pending', 'processing', 'retrying'].includes(shot.status))
+    .map(shot => shot.aspectRatio),
+  attempts: Math.max(0, ...job.shots.filter(shot => shot.status === 'retrying').map(shot => shot.attempts))
+});
 
-const MODEL_NAME = "gemini-3-pro-image-preview";
-const SYSTEM_PROMPT = `You are a world-class commercial fashion photographer. 
-TASK: Generate a professional 4K fashion photograph.
+// Scene slots pinned to scenes that were since removed fall back to auto.
+const fitPlanToScenes = (plan: ShotPlan, sceneCount: number): ShotPlan => ({
+  shots: plan.shots.map(shot => shot.sceneIndex !== undefined && shot.sceneIndex >= sceneCount
+    ? { ...shot, sceneIndex: undefined }
+    : shot)
+});
 
-STRICT REQUIREMENTS:
-1. BACKGROUND & SETTING: You MUST use the exact same background, environment, and lighting as shown in the provided "SCENE REFERENCE" image. The setting must remain perfectly consistent across all generations.
-2. POSE: You MUST replicate the pose and camera angle from the "SCENE REFERENCE" image.
-3. TARGET PRODUCT: The model MUST be wearing the "TARGET CARDIGAN". Replicate its color, knit pattern, texture, and silhouette with 100% accuracy.
-4. MODEL FACE VARIETY: For each generation, use a DIFFERENT, unique, and realistic woman's face. Ensure the faces are diverse and professional. The face should look natural and seamlessly integrated into the scene.
-5. QUALITY: Output must be 4K, sharp, professional editorial quality.`;
+// Shots can still be in flight after a pause or cancel, so keep polling until they settle.
+const isBatchActive = (batch: BatchRecord | null) =>
+  !!batch && (batch.status === 'processing' || batch.jobs.some(job => job.status === 'processing' || job.status === 'retrying'));
+
+const defaultSessionName = () => `Session ${new Date().toLocaleString()}`;
 
 // --- Components ---
 
 export default function App() {
-  const [apiKeySelected, setApiKeySelected] = useState<boolean>(false);
-  const [sceneReferences, setSceneReferences] = useState<ImageFile[]>([]);
-  const [targetProducts, setTargetProducts] = useState<ImageFile[]>([]);
-  const [results, setResults] = useState<GenerationResult[]>([]);
-  const [isProcessing, setIsProcessing] = useState(false);
-  const [currentProcessingIndex, setCurrentProcessingIndex] = useState(-1);
+  const [sceneLibrary, setSceneLibrary] = useState<LibraryScene[]>([]);
+  const [sceneSelection, setSceneSelection] = useState<string[]>([]);
+  const [sceneOrder, setSceneOrder] = useState<SceneOrder>('same');
+  const [targetProducts, setTargetProducts] = useState<ProductGroup[]>([]);
+  const [sessionName, setSessionName] = useState('');
+  const [batches, setBatches] = useState<BatchSummary[]>([]);
+  const [activeBatch, setActiveBatch] = useState<BatchRecord | null>(null);
+  const [concurrency, setConcurrency] = useState(DEFAULT_CONCURRENCY);
+  const [batchPlan, setBatchPlan] = useState<ShotPlan>(DEFAULT_SHOT_PLAN);
+  const [planOverrides, setPlanOverrides] = useState<Record<string, ShotPlan>>({});
+  const [presets, setPresets] = useState<ShotPlanPreset[]>(BUILT_IN_PRESETS);
+  const [identities, setIdentities] = useState<ModelIdentity[]>([]);
+  const [identitySelection, setIdentitySelection] = useState<IdentitySelection>({ mode: 'diverse', identityIds: [] });
+  const [templates, setTemplates] = useState<PromptTemplate[]>(BUILT_IN_TEMPLATES);
+  const [templateSelection, setTemplateSelection] = useState<TemplateRef>({ id: DEFAULT_TEMPLATE.id, version: DEFAULT_TEMPLATE.version });
+  const [promptVariables, setPromptVariables] = useState<PromptVariables>({});
+  const [renditions, setRenditions] = useState<RenditionSettings>(DEFAULT_RENDITIONS);
+  const [fidelity, setFidelity] = useState<FidelitySettings>(DEFAULT_FIDELITY);
+  const [budget, setBudget] = useState<number | undefined>();
+  const [provider, setProvider] = useState<ProviderInfo | null>(null);
+  const [imageModel, setImageModel] = useState<string | undefined>();
+  const [usage, setUsage] = useState<UsageReport | null>(null);
+  const [approvedOnly, setApprovedOnly] = useState(false);
+  const [reviewLinks, setReviewLinks] = useState<ReviewLink[] | null>(null); // null while the panel is closed
+  const [isInspecting, setIsInspecting] = useState(false);
+  const [isStarting, setIsStarting] = useState(false);
+  const [startError, setStartError] = useState<string | null>(null);
+
+  const results = activeBatch?.jobs.map(toGenerationResult) ?? [];
+  const isProcessing = isStarting || activeBatch?.status === 'processing';
+  const isActive = isBatchActive(activeBatch);
+  const currentProcessingIndex = activeBatch?.jobs.findIndex(job => job.status === 'processing') ?? -1;
+
+  const refreshBatches = useCallback(async () => {
+    try {
+      setBatches(await listBatches());
+    } catch (error) {
+      console.error("Failed to load sessions:", error);
+    }
+  }, []);
 
   useEffect(() => {
-    const checkKey = async () => {
-      if (window.aistudio?.hasSelectedApiKey) {
-        const hasKey = await window.aistudio.hasSelectedApiKey();
-        setApiKeySelected(hasKey);
-      }
-    };
-    checkKey();
+    getProvider()
+      .then(info => {
+        setProvider(info);
+        setImageModel(current => current ?? info.defaultModel);
+      })
+      .catch(error => console.error("Failed to load provider:", error));
   }, []);
 
-  const handleSelectKey = async () => {
-    if (window.aistudio?.openSelectKey) {
-      await window.aistudio.openSelectKey();
-      setApiKeySelected(true);
-    }
-  };
+  // Every change to the session list may come with new spend.
+  useEffect(() => {
+    getUsageReport().then(setUsage).catch(error => console.error("Failed to load usage:", error));
+  }, [batches]);
 
-  const fileToBase64 = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.readAsDataURL(file);
-      reader.onload = () => {
-        const base64String = (reader.result as string).split(',')[1];
-        resolve(base64String);
-      };
-      reader.onerror = error => reject(error);
-    });
-  };
+  const refreshPresets = useCallback(() => {
+    listShotPlanPresets().then(setPresets).catch(error => console.error("Failed to load presets:", error));
+  }, []);
 
-  const onDropScene = useCallback(async (acceptedFiles: File[]) => {
-    const newFiles = await Promise.all(acceptedFiles.map(async file => ({
-      id: Math.random().toString(36).substring(7),
-      file,
-      preview: URL.createObjectURL(file),
-      base64: await fileToBase64(file)
-    })));
-    setSceneReferences(prev => [...prev, ...newFiles]);
+  useEffect(refreshPresets, [refreshPresets]);
+
+  const refreshIdentities = useCallback(() => {
+    listIdentities().then(setIdentities).catch(error => console.error("Failed to load model identities:", error));
   }, []);
 
-  const onDropTarget = useCallback(async (acceptedFiles: File[]) => {
-    const newFiles = await Promise.all(acceptedFiles.map(async file => ({
-      id: Math.random().toString(36).substring(7),
-      file,
-      preview: URL.createObjectURL(file),
-      base64: await fileToBase64(file)
-    })));
-    setTargetProducts(prev => [...prev, ...newFiles]);
+  useEffect(refreshIdentities, [refreshIdentities]);
+
+  const refreshScenes = useCallback(() => {
+    listScenes().then(setSceneLibrary).catch(error => console.error("Failed to load the scene library:", error));
   }, []);
 
-  const removeScene = (id: string) => setSceneReferences(prev => prev.filter(img => img.id !== id));
-  const removeTarget = (id: string) => setTargetProducts(prev => prev.filter(img => img.id !== id));
+  useEffect(refreshScenes, [refreshScenes]);
 
-  const generateForTarget = async (target: ImageFile, onProgress: (count: number) => void) => {
-    const key = process.env.API_KEY || process.env.GEMINI_API_KEY;
-    if (!key) throw new Error("API Key not found.");
-    
-    const ai = new GoogleGenAI({ apiKey: key });
-    const generatedImages: string[] = [];
+  const refreshTemplates = useCallback(() => {
+    listPromptTemplates().then(setTemplates).catch(error => console.error("Failed to load prompt templates:", error));
+  }, []);
+
+  useEffect(refreshTemplates, [refreshTemplates]);
 
-    for (let i = 0; i < 4; i++) {
-      const sceneRef = sceneReferences[i % sceneReferences.length];
-      if (!sceneRef) continue;
+  // Reopen the newest session if it is still generating on the server.
+  useEffect(() => {
+    listBatches().then(async list => {
+      setBatches(list);
+      if (list[0]?.status === 'processing') setActiveBatch(await getBatch(list[0].id));
+    }).catch(error => console.error("Failed to load sessions:", error));
+  }, []);
 
+  // Follow the active session while the server works through it.
+  useEffect(() => {
+    if (!activeBatch || !isBatchActive(activeBatch)) return;
+    let cancelled = false;
+    const timer = setTimeout(async () => {
       try {
-        const parts: any[] = [
-          { text: SYSTEM_PROMPT },
-          { text: `SHOT #${i + 1}: Use a unique model face for this shot.` },
-          { text: "SCENE REFERENCE (Background & Pose):" },
-          { inlineData: { data: sceneRef.base64, mimeType: sceneRef.file.type } },
-          { text: "TARGET CARDIGAN (Garment to feature):" },
-          { inlineData: { data: target.base64, mimeType: target.file.type } },
-          { text: "Generate the 4K photo now with a unique model face." }
-        ];
-
-        const response = await ai.models.generateContent({
-          model: MODEL_NAME,
-          contents: [{ role: 'user', parts }],
-          config: {
-            imageConfig: {
-              aspectRatio: "3:4",
-              imageSize: "1K"
-            }
-          }
-        });
-
-        if (response.candidates?.[0]?.content?.parts) {
-          for (const part of response.candidates[0].content.parts) {
-            if (part.inlineData) {
-              generatedImages.push(`data:image/png;base64,${part.inlineData.data}`);
-              onProgress(generatedImages.length);
-            }
-          }
-        }
-      } catch (error: any) {
-        console.error(`Error generating image ${i + 1}:`, error);
-        throw error;
+        const next = await getBatch(activeBatch.id);
+        if (!cancelled) setActiveBatch(next);
+      } catch (error) {
+        console.error("Failed to refresh session:", error);
       }
-    }
+    }, POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [activeBatch]);
+
+  useEffect(() => {
+    if (activeBatch && !isActive) refreshBatches();
+  }, [activeBatch?.id, activeBatch?.status, isActive, refreshBatches]);
 
-    return generatedImages;
+  // Grouping and removal can retire product ids; drop the plan overrides that went with them.
+  useEffect(() => {
+    setPlanOverrides(prev => {
+      const kept = Object.entries(prev).filter(([id]) => targetProducts.some(product => product.id === id));
+      return kept.length === Object.keys(prev).length ? prev : Object.fromEntries(kept);
+    });
+  }, [targetProducts]);
+
+  const updatePlanOverride = (targetId: string, plan: ShotPlan | null) => {
+    setPlanOverrides(prev => {
+      const { [targetId]: _, ...rest } = prev;
+      return plan ? { ...rest, [targetId]: plan } : rest;
+    });
   };
 
-  const startBulkGeneration = async () => {
-    if (targetProducts.length === 0 || sceneReferences.length === 0) return;
-    setIsProcessing(true);
-    setResults([]);
-
-    const initialResults: GenerationResult[] = targetProducts.map(img => ({
-      targetId: img.id,
-      images: [],
-      status: 'pending',
-      progress: 0
+  const importProducts = (products: ProductGroup[], shotCounts: Record<string, number>) => {
+    setTargetProducts(prev => [...prev, ...products]);
+    setPlanOverrides(prev => ({
+      ...prev,
+      ...Object.fromEntries(Object.entries(shotCounts).map(([id, count]) => [id, resizePlan(batchPlan, count)]))
     }));
-    setResults(initialResults);
+  };
+
+  const savePreset = async (name: string, plan: ShotPlan) => {
+    try {
+      await saveShotPlanPreset(name, plan);
+      refreshPresets();
+    } catch (error: any) {
+      setStartError(error.message);
+    }
+  };
 
-    for (let i = 0; i < targetProducts.length; i++) {
-      setCurrentProcessingIndex(i);
-      const target = targetProducts[i];
-      
-      setResults(prev => prev.map((res, idx) => 
-        idx === i ? { ...res, status: 'processing' } : res
-      ));
+  const removePreset = async (id: string) => {
+    try {
+      await deleteShotPlanPreset(id);
+      refreshPresets();
+    } catch (error: any) {
+      setStartError(error.message);
+    }
+  };
 
-      try {
-        const images = await generateForTarget(target, (count) => {
-          setResults(prev => prev.map((res, idx) => 
-            idx === i ? { ...res, progress: count } : res
-          ));
-        });
-        setResults(prev => prev.map((res, idx) => 
-          idx === i ? { ...res, images, status: 'completed', progress: 4 } : res
-        ));
-      } catch (error: any) {
-        setResults(prev => prev.map((res, idx) => 
-          idx === i ? { ...res, status: 'error', error: error.message } : res
-        ));
+  const toInlineImages = (files: File[]) =>
+    Promise.all(files.map(async file => ({ data: await fileToBase64(file), mimeType: file.type })));
+
+  // Dropped scenes join the library and the session being set up.
+  const uploadScenes = async (files: File[]) => {
+    try {
+      const images = await toInlineImages(files);
+      const saved = [];
+      for (const [i, image] of images.entries()) {
+        saved.push(await saveScene({ name: files[i].name.replace(/\.[^.]+$/, ''), image, tags: {} }));
       }
+      setSceneSelection(prev => [...prev, ...saved.map(scene => scene.id)]);
+      refreshScenes();
+    } catch (error: any) {
+      setStartError(error.message);
     }
+  };
 
-    setIsProcessing(false);
-    setCurrentProcessingIndex(-1);
+  const updateScene = async (id: string, name: string, tags: SceneTags) => {
+    try {
+      await saveScene({ name, tags }, id);
+      refreshScenes();
+    } catch (error: any) {
+      setStartError(error.message);
+    }
   };
 
-  const downloadAll = (images: string[], productName: string) => {
-    images.forEach((url, i) => {
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = `${productName}-shot-${i + 1}.png`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-    });
+  const removeScene = async (id: string) => {
+    try {
+      await deleteScene(id);
+      setSceneSelection(prev => prev.filter(existing => existing !== id));
+      refreshScenes();
+    } catch (error: any) {
+      setStartError(error.message);
+    }
   };
 
-  const { getRootProps: getSceneProps, getInputProps: getSceneInput, isDragActive: isSceneActive } = useDropzone({
-    onDrop: onDropScene,
-    accept: { 'image/*': [] },
-    multiple: true
-  } as any);
-
-  const { getRootProps: getTargetProps, getInputProps: getTargetInput, isDragActive: isTargetActive } = useDropzone({
-    onDrop: onDropTarget,
-    accept: { 'image/*': [] },
-    multiple: true
-  } as any);
-
-  if (!apiKeySelected) {
-    return (
-      <div className="min-h-screen flex items-center justify-center bg-[#fdfcfb] p-6">
-        <motion.div 
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          className="max-w-md w-full glass p-8 rounded-3xl text-center space-y-6"
-        >
-          <div className="w-16 h-16 bg-zinc-900 rounded-2xl flex items-center justify-center mx-auto shadow-lg">
-            <Sparkles className="text-white w-8 h-8" />
-          </div>
-          <div className="space-y-2">
-            <h1 className="text-2xl font-serif font-bold">Cardigan Studio Pro</h1>
-            <p className="text-zinc-500 text-sm">
-              Connect your API key to start generating consistent fashion photography.
-            </p>
-          </div>
-          <button
-            onClick={handleSelectKey}
-            className="w-full py-4 bg-zinc-900 text-white rounded-xl font-medium hover:bg-zinc-800 transition-all flex items-center justify-center gap-2 group"
-          >
-            Select API Key
-            <ExternalLink className="w-4 h-4 opacity-50 group-hover:opacity-100 transition-opacity" />
-          </button>
-        </motion.div>
-      </div>
-    );
-  }
+  const addIdentity = async (name: string, description: string, files: File[]) => {
+    try {
+      await createIdentity({ name, description, images: await toInlineImages(files) });
+      refreshIdentities();
+    } catch (error: any) {
+      setStartError(error.message);
+    }
+  };
+
+  const addReferencesToIdentity = async (id: string, files: File[]) => {
+    try {
+      await addIdentityImages(id, await toInlineImages(files));
+      refreshIdentities();
+    } catch (error: any) {
+      setStartError(error.message);
+    }
+  };
+
+  const removeIdentity = async (id: string) => {
+    try {
+      await deleteIdentity(id);
+      setIdentitySelection(prev => ({ ...prev, identityIds: prev.identityIds.filter(existing => existing !== id) }));
+      refreshIdentities();
+    } catch (error: any) {
+      setStartError(error.message);
+    }
+  };
+
+  const saveTemplate = async (request: SavePromptTemplateRequest, id?: string) => {
+    try {
+      const saved = await savePromptTemplate(request, id);
+      setTemplateSelection({ id: saved.id, version: saved.version });
+      refreshTemplates();
+    } catch (error: any) {
+      setStartError(error.message);
+    }
+  };
+
+  const removeTemplate = async (id: string) => {
+    try {
+      await deletePromptTemplate(id);
+      setTemplateSelection({ id: DEFAULT_TEMPLATE.id, version: DEFAULT_TEMPLATE.version });
+      refreshTemplates();
+    } catch (error: any) {
+      setStartError(error.message);
+    }
+  };
+
+  const selectedScenes = sceneSelection.flatMap(id => sceneLibrary.filter(scene => scene.id === id));
+  // The plan a product is queued with: its own or the batch plan, on the batch's scene order when shared.
+  const planFor = (targetId: string) => {
+    const plan = fitPlanToScenes(planOverrides[targetId] ?? batchPlan, selectedScenes.length);
+    return sceneOrder === 'same' ? alignSceneOrder(plan, fitPlanToScenes(batchPlan, selectedScenes.length)) : plan;
+  };
+
+  const previewTarget = targetProducts[0];
+  const [previewShot] = previewTarget ? planFor(previewTarget.id).shots : [];
+  const previewIdentity = identitySelection.mode !== 'diverse'
+    ? identities.find(identity => identity.id === identitySelection.identityIds[0])
+    : undefined;
+  const promptPreview: ShotInput<string> | null = previewShot && selectedScenes.length > 0 ? {
+    shotIndex: 0,
+    productName: productLabel(previewTarget, 0),
+    sku: previewTarget.sku || undefined,
+    colorway: previewTarget.colorway || undefined,
+    notes: previewTarget.notes || undefined,
+    scene: imageUrl(selectedScenes[resolveSceneIndex(previewShot, 0, selectedScenes.length)].imageId),
+    views: previewTarget.views.map(view => ({ image: view.preview, label: view.label })),
+    outfit: previewTarget.outfit.map(piece => ({ role: piece.role, match: piece.match, image: piece.preview, note: piece.note.trim() || undefined })),
+    extraPrompt: previewShot.extraPrompt?.trim() || undefined,
+    identity: previewIdentity && { name: previewIdentity.name, images: previewIdentity.imageIds.map(imageUrl) },
+    variables: promptVariables
+  } : null;
+
+  // Reference photos of the model a product is queued with; diverse mode sends none.
+  const identityImageCount = (position: number) => {
+    const { mode, identityIds } = identitySelection;
+    if (mode === 'diverse' || identityIds.length === 0) return 0;
+    const id = mode === 'single' ? identityIds[0] : identityIds[position % identityIds.length];
+    return identities.find(identity => identity.id === id)?.imageIds.length ?? 0;
+  };
+  const estimate = estimateBatchCost(
+    targetProducts.flatMap((target, position) => planFor(target.id).shots.map(shot => ({
+      imageSize: shot.imageSize,
+      inputImages: 1 + target.views.length + target.outfit.length + identityImageCount(position),
+      garmentImages: target.views.length
+    }))),
+    { critique: fidelity.critique, model: imageModel }
+  );
+  const imageModelInfo = provider?.models.find(model => model.id === imageModel);
+
+  const identityReady = identitySelection.mode === 'diverse' || identitySelection.identityIds.length > 0;
+  const canStart = !isProcessing && targetProducts.length > 0 && selectedScenes.length > 0 && identityReady;
+
+  const startBulkGeneration = async () => {
+    if (!canStart) return;
+    setIsStarting(true);
+    setStartError(null);
+
+    try {
+      const batch = await createBatch({
+        name: sessionName.trim() || defaultSessionName(),
+        sceneIds: selectedScenes.map(scene => scene.id),
+        sceneOrder,
+        targets: targetProducts.map(target => ({
+          sku: target.sku,
+          name: target.name,
+          colorway: target.colorway,
+          notes: target.notes,
+          views: target.views.map(view => ({
+            image: { data: view.base64, mimeType: view.mimeType },
+            original: view.base64 === view.original.base64 ? undefined : { data: view.original.base64, mimeType: view.original.mimeType },
+            label: view.label
+          })),
+          outfit: target.outfit.map(piece => ({
+            role: piece.role,
+            match: piece.match,
+            image: { data: piece.base64, mimeType: piece.mimeType },
+            note: piece.note
+          })),
+          plan: planFor(target.id)
+        })),
+        identity: identitySelection,
+        template: templateSelection,
+        promptVariables,
+        renditions,
+        fidelity,
+        budget,
+        imageModel,
+        concurrency
+      });
+      setActiveBatch(await runBatch(batch.id));
+      setSessionName('');
+      refreshBatches();
+    } catch (error: any) {
+      setStartError(error.message);
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const openBatch = async (id: string) => {
+    try {
+      setActiveBatch(await getBatch(id));
+    } catch (error: any) {
+      setStartError(error.message);
+    }
+  };
+
+  const resumeBatch = async (id: string, budget?: number) => {
+    try {
+      setActiveBatch(await runBatch(id, concurrency, budget));
+      refreshBatches();
+    } catch (error: any) {
+      setStartError(error.message);
+    }
+  };
+
+  const stopBatch = async (action: 'pause' | 'cancel') => {
+    if (!activeBatch) return;
+    try {
+      setActiveBatch(await (action === 'pause' ? pauseBatch : cancelBatch)(activeBatch.id));
+      refreshBatches();
+    } catch (error: any) {
+      setStartError(error.message);
+    }
+  };
+
+  const controlTarget = async (jobId: string, action: 'pause' | 'resume' | 'cancel') => {
+    if (!activeBatch) return;
+    try {
+      await controlJob(jobId, action);
+      setActiveBatch(await getBatch(activeBatch.id));
+    } catch (error: any) {
+      setStartError(error.message);
+    }
+  };
+
+  // Per-image actions answer with the job; reload the session so its status and counts follow.
+  const updateShot = async (action: () => Promise<unknown>) => {
+    if (!activeBatch) return;
+    try {
+      await action();
+      setActiveBatch(await getBatch(activeBatch.id));
+      refreshBatches();
+    } catch (error: any) {
+      setStartError(error.message);
+    }
+  };
+
+  useEffect(() => setReviewLinks(null), [activeBatch?.id]);
+
+  const toggleReviewLinks = async () => {
+    if (!activeBatch) return;
+    if (reviewLinks) return setReviewLinks(null);
+    try {
+      setReviewLinks(await listReviewLinks(activeBatch.id));
+    } catch (error: any) {
+      setStartError(error.message);
+    }
+  };
+
+  const shareForReview = async () => {
+    if (!activeBatch) return;
+    try {
+      const link = await createReviewLink(activeBatch.id);
+      setReviewLinks(links => [...(links ?? []), link]);
+    } catch (error: any) {
+      setStartError(error.message);
+    }
+  };
+
+  const revokeReviewLink = async (token: string) => {
+    if (!activeBatch) return;
+    try {
+      await deleteReviewLink(activeBatch.id, token);
+      setReviewLinks(links => links?.filter(link => link.token !== token) ?? null);
+    } catch (error: any) {
+      setStartError(error.message);
+    }
+  };
+
+  const removeBatch = async (id: string) => {
+    try {
+      await deleteBatch(id);
+      if (activeBatch?.id === id) setActiveBatch(null);
+      refreshBatches();
+    } catch (error: any) {
+      setStartError(error.message);
+    }
+  };
 
   return (
     <div className="min-h-screen pb-20">
@@ -289,25 +644,85 @@ export default function App() {
           </div>
           
           <div className="flex items-center gap-4">
+            <input
+              value={sessionName}
+              onChange={e => setSessionName(e.target.value)}
+              placeholder="Session name"
+              disabled={isProcessing}
+              className="hidden sm:block w-48 px-4 py-2 text-sm rounded-full border border-zinc-200 bg-white/60 focus:outline-none focus:border-zinc-900"
+            />
+            <label className="hidden sm:flex items-center gap-2 text-[10px] text-zinc-500 font-bold uppercase tracking-widest">
+              Parallel
+              <select
+                value={concurrency}
+                onChange={e => setConcurrency(Number(e.target.value))}
+                className="px-2 py-1.5 text-xs rounded-full border border-zinc-200 bg-white/60 focus:outline-none"
+              >
+                {Array.from({ length: MAX_CONCURRENCY }, (_, i) => i + 1).map(n => (
+                  <option key={n} value={n}>{n}</option>
+                ))}
+              </select>
+            </label>
+            {provider && (
+              <label className="hidden sm:flex items-center gap-2 text-[10px] text-zinc-500 font-bold uppercase tracking-widest">
+                Model
+                <select
+                  value={imageModel}
+                  onChange={e => setImageModel(e.target.value)}
+                  title={imageModelInfo && `Renders ${imageModelInfo.imageSizes.join(', ')}; larger sizes come back at ${imageModelInfo.imageSizes.at(-1)}`}
+                  className="px-2 py-1.5 text-xs rounded-full border border-zinc-200 bg-white/60 focus:outline-none"
+                >
+                  {provider.models.map(model => <option key={model.id} value={model.id}>{model.label}</option>)}
+                </select>
+                {provider.offline && (
+                  <span className="px-2 py-1 rounded-full bg-amber-50 border border-amber-200 text-amber-700" title="Placeholder images, no API calls">
+                    Mock
+                  </span>
+                )}
+              </label>
+            )}
+            <button
+              onClick={() => setIsInspecting(open => !open)}
+              className={cn("p-2 rounded-full border transition-colors", isInspecting ? "border-zinc-900 text-zinc-900" : "border-zinc-200 text-zinc-600 hover:bg-zinc-50")}
+              title="Inspect the metadata embedded in an image"
+            >
+              <ScanSearch className="w-4 h-4" />
+            </button>
             {isProcessing && (
               <div className="flex items-center gap-2 px-3 py-1.5 bg-zinc-50 rounded-full border border-zinc-100">
                 <Loader2 className="w-3 h-3 animate-spin text-zinc-500" />
                 <span className="text-xs font-medium text-zinc-600">
-                  Processing {currentProcessingIndex + 1} of {targetProducts.length}
+                  Processing {currentProcessingIndex + 1} of {activeBatch?.jobs.length ?? targetProducts.length}
                 </span>
               </div>
             )}
+            {activeBatch?.status === 'processing' && (
+              <button onClick={() => stopBatch('pause')} className="p-2 rounded-full border border-zinc-200 text-zinc-600 hover:bg-zinc-50 transition-colors" title="Pause batch">
+                <Pause className="w-4 h-4" />
+              </button>
+            )}
+            {activeBatch?.status === 'paused' && (
+              <button onClick={() => resumeBatch(activeBatch.id)} className="p-2 rounded-full border border-zinc-200 text-zinc-600 hover:bg-zinc-50 transition-colors" title="Resume batch">
+                <Play className="w-4 h-4" />
+              </button>
+            )}
+            {(activeBatch?.status === 'processing' || activeBatch?.status === 'paused') && (
+              <button onClick={() => stopBatch('cancel')} className="p-2 rounded-full border border-zinc-200 text-red-600 hover:bg-red-50 transition-colors" title="Cancel batch">
+                <Ban className="w-4 h-4" />
+              </button>
+            )}
             <button
               onClick={startBulkGeneration}
-              disabled={isProcessing || targetProducts.length === 0 || sceneReferences.length === 0}
+              disabled={!canStart}
               className={cn(
                 "px-6 py-2.5 rounded-full font-medium transition-all flex items-center gap-2",
-                isProcessing || targetProducts.length === 0 || sceneReferences.length === 0
+                !canStart
                   ? "bg-zinc-100 text-zinc-400 cursor-not-allowed"
                   : "bg-zinc-900 text-white hover:bg-zinc-800 shadow-lg shadow-zinc-200"
               )}
             >
               {isProcessing ? "Generating..." : "Generate Bulk Catalog"}
+              {!isProcessing && estimate.calls > 0 && <span className="text-xs opacity-60">≈ {formatCost(estimate.cost)}</span>}
               {!isProcessing && <Sparkles className="w-4 h-4" />}
             </button>
           </div>
@@ -315,87 +730,215 @@ export default function App() {
       </header>
 
       <main className="max-w-7xl mx-auto px-6 pt-8 space-y-12">
+        {isInspecting && <ImageInspector onClose={() => setIsInspecting(false)} />}
+
         {/* Setup Grid */}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
           {/* 1. Scenes */}
-          <div className="space-y-4">
-            <div className="flex items-center justify-between">
-              <div className="flex items-center gap-2">
-                <ImageIcon className="w-4 h-4 text-zinc-400" />
-                <h2 className="font-medium text-[10px] text-zinc-500 uppercase tracking-widest">1. Studio Scenes (Location & Pose)</h2>
-              </div>
-              <span className="text-[10px] font-bold text-zinc-400">{sceneReferences.length}</span>
-            </div>
-            <div {...getSceneProps()} className={cn("border-2 border-dashed rounded-2xl p-10 text-center cursor-pointer transition-colors", isSceneActive ? "bg-zinc-50 border-zinc-900" : "border-zinc-100 hover:border-zinc-200")}>
-              <input {...getSceneInput()} />
-              <Camera className="w-6 h-6 text-zinc-300 mx-auto mb-3" />
-              <p className="text-sm font-medium">Drop pose/background references</p>
-              <p className="text-xs text-zinc-400 mt-1">These define the environment and model pose</p>
-            </div>
-            <div className="grid grid-cols-4 sm:grid-cols-6 gap-3">
-              {sceneReferences.map(img => (
-                <div key={img.id} className="relative aspect-square rounded-xl overflow-hidden group border border-zinc-100">
-                  <img src={img.preview} className="w-full h-full object-cover" />
-                  <button onClick={() => removeScene(img.id)} className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 flex items-center justify-center text-white transition-opacity">
-                    <X className="w-5 h-5" />
-                  </button>
-                </div>
-              ))}
-            </div>
-          </div>
+          <SceneLibraryPanel
+            scenes={sceneLibrary}
+            selection={sceneSelection}
+            onSelectionChange={setSceneSelection}
+            onUpload={uploadScenes}
+            onSave={updateScene}
+            onDelete={removeScene}
+          />
 
           {/* 2. Products */}
+          <ProductPanel products={targetProducts} onChange={setTargetProducts} onImport={importProducts} />
+        </div>
+
+        <ShotPlanEditor
+          batchPlan={batchPlan}
+          overrides={planOverrides}
+          targets={targetProducts.map((product, i) => ({ id: product.id, preview: product.views[0].preview, name: productLabel(product, i) }))}
+          scenes={selectedScenes.map(scene => ({ id: scene.id, preview: imageUrl(scene.imageId), name: scene.name }))}
+          presets={presets}
+          sceneOrder={sceneOrder}
+          onSceneOrderChange={setSceneOrder}
+          onBatchPlanChange={setBatchPlan}
+          onOverrideChange={updatePlanOverride}
+          onSavePreset={savePreset}
+          onDeletePreset={removePreset}
+        />
+
+        <ModelIdentityPanel
+          identities={identities}
+          selection={identitySelection}
+          onSelectionChange={setIdentitySelection}
+          onCreate={addIdentity}
+          onAddImages={addReferencesToIdentity}
+          onDelete={removeIdentity}
+        />
+
+        <PromptTemplatePanel
+          templates={templates}
+          selection={templateSelection}
+          onSelectionChange={setTemplateSelection}
+          variables={promptVariables}
+          onVariablesChange={setPromptVariables}
+          preview={promptPreview}
+          onSave={saveTemplate}
+          onDelete={removeTemplate}
+        />
+
+        <RenditionPanel settings={renditions} onChange={setRenditions} />
+
+        <FidelityPanel settings={fidelity} onChange={setFidelity} />
+
+        <CostPanel estimate={estimate} budget={budget} onBudgetChange={setBudget} />
+
+        {startError && (
+          <div className="flex items-center gap-2 px-4 py-3 rounded-2xl bg-red-50 border border-red-100 text-xs text-red-600 font-medium">
+            <AlertCircle className="w-4 h-4" />
+            {startError}
+          </div>
+        )}
+
+        {/* Session History */}
+        {batches.length > 0 && (
           <div className="space-y-4">
-            <div className="flex items-center justify-between">
-              <div className="flex items-center gap-2">
-                <Layers className="w-4 h-4 text-zinc-400" />
-                <h2 className="font-medium text-[10px] text-zinc-500 uppercase tracking-widest">2. Target Cardigans</h2>
-              </div>
-              <span className="text-[10px] font-bold text-zinc-400">{targetProducts.length}</span>
+            <div className="flex items-center gap-2">
+              <History className="w-4 h-4 text-zinc-400" />
+              <h2 className="font-medium text-[10px] text-zinc-500 uppercase tracking-widest">Session History</h2>
             </div>
-            <div {...getTargetProps()} className={cn("border-2 border-dashed rounded-2xl p-10 text-center cursor-pointer transition-colors", isTargetActive ? "bg-zinc-50 border-zinc-900" : "border-zinc-100 hover:border-zinc-200")}>
-              <input {...getTargetInput()} />
-              <Plus className="w-6 h-6 text-zinc-300 mx-auto mb-3" />
-              <p className="text-sm font-medium">Drop product photos</p>
-              <p className="text-xs text-zinc-400 mt-1">Upload multiple for bulk catalog generation</p>
-            </div>
-            <div className="grid grid-cols-4 sm:grid-cols-6 gap-3">
-              {targetProducts.map(img => (
-                <div key={img.id} className="relative aspect-square rounded-xl overflow-hidden group border border-zinc-100">
-                  <img src={img.preview} className="w-full h-full object-cover" />
-                  <button onClick={() => removeTarget(img.id)} className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 flex items-center justify-center text-white transition-opacity">
-                    <X className="w-5 h-5" />
-                  </button>
-                </div>
-              ))}
+            <div className="divide-y divide-zinc-100 border border-zinc-100 rounded-2xl overflow-hidden">
+              {batches.map(batch => {
+                const resumable = batch.status !== 'processing' && batch.status !== 'cancelled' && batch.completedTargets < batch.targetCount;
+                const budgetSpent = batch.budget !== undefined && batch.spent >= batch.budget;
+                return (
+                  <div
+                    key={batch.id}
+                    className={cn("flex items-center justify-between px-4 py-3 text-sm", activeBatch?.id === batch.id ? "bg-zinc-50" : "bg-white")}
+                  >
+                    <button onClick={() => openBatch(batch.id)} className="flex-1 text-left">
+                      <span className="font-medium">{batch.name}</span>
+                      <span className="ml-3 text-xs text-zinc-400">
+                        {new Date(batch.createdAt).toLocaleString()} · {batch.completedTargets}/{batch.targetCount} products
+                        {batch.imageCount > 0 && ` · ${batch.approvedCount}/${batch.imageCount} approved`}
+                        {batch.spent > 0 && ` · ${formatCost(batch.spent)}`}
+                        {batch.budget !== undefined && ` of ${formatCost(batch.budget)}`}
+                      </span>
+                    </button>
+                    <div className="flex items-center gap-2">
+                      {batch.status === 'processing' && <Loader2 className="w-3 h-3 animate-spin text-zinc-500" />}
+                      {batch.status === 'completed' && <CheckCircle2 className="w-3 h-3 text-emerald-600" />}
+                      {resumable && budgetSpent && (
+                        <BudgetRaise budget={batch.budget!} spent={batch.spent} onRaise={raised => resumeBatch(batch.id, raised)} />
+                      )}
+                      {resumable && !budgetSpent && (
+                        <button
+                          onClick={() => resumeBatch(batch.id)}
+                          className="flex items-center gap-1.5 px-3 py-1 bg-zinc-900 text-white text-xs font-bold rounded-full hover:bg-zinc-800 transition-colors"
+                        >
+                          <RotateCcw className="w-3 h-3" />
+                          Resume
+                        </button>
+                      )}
+                      {batch.status !== 'processing' && (
+                        <button onClick={() => removeBatch(batch.id)} className="p-1.5 text-zinc-400 hover:text-red-600 transition-colors">
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
             </div>
           </div>
-        </div>
+        )}
+
+        {usage && usage.total.calls > 0 && <UsageDashboard report={usage} onOpenBatch={openBatch} />}
 
         {/* Results */}
         {results.length > 0 && (
           <div className="space-y-12">
-            <div className="flex items-center gap-2 border-b border-zinc-100 pb-4">
-              <Sparkles className="w-5 h-5 text-zinc-900" />
-              <h2 className="font-serif font-bold text-xl">Generated Catalog</h2>
+            <div className="space-y-4">
+              <div className="flex items-center gap-2 border-b border-zinc-100 pb-4">
+                <Sparkles className="w-5 h-5 text-zinc-900" />
+                <h2 className="font-serif font-bold text-xl">Generated Catalog</h2>
+                {activeBatch && <span className="text-xs text-zinc-400">{activeBatch.name}</span>}
+                <label className="ml-auto flex items-center gap-1.5 text-xs text-zinc-500 font-medium cursor-pointer">
+                  <input type="checkbox" checked={approvedOnly} onChange={e => setApprovedOnly(e.target.checked)} className="accent-zinc-900" />
+                  Approved only
+                </label>
+                {activeBatch && results.some(result => result.images.length > 0) && (
+                  <>
+                    <button
+                      onClick={toggleReviewLinks}
+                      className={cn(
+                        "flex items-center gap-2 px-4 py-2 text-xs font-bold rounded-full border transition-colors",
+                        reviewLinks ? "border-zinc-900 text-zinc-900" : "border-zinc-200 text-zinc-600 hover:bg-zinc-50"
+                      )}
+                      title="Links a client can open to approve, reject and comment without an account"
+                    >
+                      <Share2 className="w-3 h-3" />
+                      Share for review
+                    </button>
+                    <a
+                      href={exportUrl(activeBatch.id, { approvedOnly })}
+                      className="flex items-center gap-2 px-4 py-2 bg-zinc-900 hover:bg-zinc-800 text-white text-xs font-bold rounded-full transition-colors"
+                      title="ZIP with a folder per SKU, source photos and manifest.json / manifest.csv"
+                    >
+                      <Download className="w-3 h-3" />
+                      Export catalog
+                    </a>
+                  </>
+                )}
+              </div>
+
+              {activeBatch && reviewLinks && (
+                <ReviewLinksPanel
+                  links={reviewLinks}
+                  canShare={activeBatch.status === 'completed' || activeBatch.status === 'partial'}
+                  onCreate={shareForReview}
+                  onRevoke={revokeReviewLink}
+                />
+              )}
             </div>
             
             {results.map((result, idx) => {
-              const targetImg = targetProducts.find(t => t.id === result.targetId);
+              const images = approvedOnly ? result.images.filter(image => image.review === 'approved') : result.images;
               return (
                 <div key={result.targetId} className="space-y-6">
                   <div className="flex items-center justify-between">
                     <div className="flex items-center gap-4">
                       <div className="w-12 h-16 rounded-lg bg-zinc-50 overflow-hidden border border-zinc-100 shadow-sm">
-                        <img src={targetImg?.preview} className="w-full h-full object-cover" />
+                        <img src={result.targetPreview} className="w-full h-full object-cover" />
                       </div>
                       <div>
-                        <h3 className="font-serif font-bold text-lg">Product Batch #{idx + 1}</h3>
+                        <h3 className="font-serif font-bold text-lg">{productLabel(result.product, idx)}</h3>
+                        {(result.product.sku || result.product.colorway) && (
+                          <p className="text-[10px] text-zinc-400 uppercase tracking-widest font-medium">
+                            {[result.product.sku, result.product.colorway].filter(Boolean).join(' · ')}
+                          </p>
+                        )}
+                        {result.modelNames.length > 0 && (
+                          <p className="text-[10px] text-zinc-400 uppercase tracking-widest font-medium">Model: {result.modelNames.join(', ')}</p>
+                        )}
                         <div className="flex items-center gap-2">
+                          {result.status === 'pending' && (
+                            <span className="flex items-center gap-1.5 text-xs text-zinc-400 font-medium">
+                              <Clock className="w-3 h-3" />
+                              Queued
+                            </span>
+                          )}
                           {result.status === 'processing' && (
                             <span className="flex items-center gap-1.5 text-xs text-blue-600 font-medium">
                               <Loader2 className="w-3 h-3 animate-spin" />
-                              Generating: {result.progress}/4 shots...
+                              Generating: {result.progress}/{result.shotCount} shots...
+                            </span>
+                          )}
+                          {result.status === 'retrying' && (
+                            <span className="flex items-center gap-1.5 text-xs text-amber-600 font-medium">
+                              <RefreshCw className="w-3 h-3 animate-spin" />
+                              Retrying after attempt {result.attempts}: {result.progress}/{result.shotCount} shots...
+                            </span>
+                          )}
+                          {result.status === 'paused' && (
+                            <span className="flex items-center gap-1.5 text-xs text-zinc-500 font-medium">
+                              <Pause className="w-3 h-3" />
+                              Paused at {result.progress}/{result.shotCount} shots
                             </span>
                           )}
                           {result.status === 'completed' && (
@@ -404,6 +947,18 @@ export default function App() {
                               Completed
                             </span>
                           )}
+                          {result.status === 'partial' && (
+                            <span className="flex items-center gap-1.5 text-xs text-amber-600 font-medium">
+                              <AlertCircle className="w-3 h-3" />
+                              {result.progress}/{result.shotCount} shots. {result.error}
+                            </span>
+                          )}
+                          {result.status === 'cancelled' && (
+                            <span className="flex items-center gap-1.5 text-xs text-zinc-500 font-medium">
+                              <Ban className="w-3 h-3" />
+                              Cancelled at {result.progress}/{result.shotCount} shots
+                            </span>
+                          )}
                           {result.status === 'error' && (
                             <span className="flex items-center gap-1.5 text-xs text-red-600 font-medium">
                               <AlertCircle className="w-3 h-3" />
@@ -414,41 +969,110 @@ export default function App() {
                       </div>
                     </div>
 
-                    {result.status === 'completed' && (
-                      <button 
-                        onClick={() => downloadAll(result.images, `product-${idx + 1}`)}
-                        className="flex items-center gap-2 px-4 py-2 bg-zinc-50 hover:bg-zinc-100 text-zinc-600 text-xs font-bold rounded-full border border-zinc-200 transition-colors"
-                      >
-                        <Download className="w-3 h-3" />
-                        Download All
-                      </button>
-                    )}
+                    <div className="flex items-center gap-2">
+                      {['pending', 'processing', 'retrying'].includes(result.status) && activeBatch?.status === 'processing' && (
+                        <button onClick={() => controlTarget(result.targetId, 'pause')} className="p-2 rounded-full border border-zinc-200 text-zinc-600 hover:bg-zinc-50 transition-colors" title="Pause product">
+                          <Pause className="w-3 h-3" />
+                        </button>
+                      )}
+                      {result.status === 'paused' && (
+                        <button onClick={() => controlTarget(result.targetId, 'resume')} className="p-2 rounded-full border border-zinc-200 text-zinc-600 hover:bg-zinc-50 transition-colors" title="Resume product">
+                          <Play className="w-3 h-3" />
+                        </button>
+                      )}
+                      {['pending', 'processing', 'retrying', 'paused'].includes(result.status) && (
+                        <button onClick={() => controlTarget(result.targetId, 'cancel')} className="p-2 rounded-full border border-zinc-200 text-red-600 hover:bg-red-50 transition-colors" title="Cancel product">
+                          <Ban className="w-3 h-3" />
+                        </button>
+                      )}
+                      {activeBatch && images.length > 0 && !['processing', 'retrying'].includes(result.status) && (
+                        <a
+                          href={exportUrl(activeBatch.id, { jobId: result.targetId, approvedOnly })}
+                          className="flex items-center gap-2 px-4 py-2 bg-zinc-50 hover:bg-zinc-100 text-zinc-600 text-xs font-bold rounded-full border border-zinc-200 transition-colors"
+                        >
+                          <Download className="w-3 h-3" />
+                          Export ZIP
+                        </a>
+                      )}
+                    </div>
                   </div>
 
                   <div className="grid grid-cols-2 lg:grid-cols-4 gap-6">
-                    {result.status === 'processing' && Array.from({ length: 4 }).map((_, i) => (
-                      <div key={i} className="aspect-[3/4] bg-zinc-50 rounded-3xl animate-pulse flex items-center justify-center border border-zinc-100">
-                        <ImageIcon className="w-8 h-8 text-zinc-100" />
-                      </div>
-                    ))}
-                    
-                    {result.images.map((url, i) => (
+                    {images.map((image, i) => (
                       <motion.div
-                        key={i}
+                        key={image.shotIndex}
                         initial={{ opacity: 0, y: 20 }}
                         animate={{ opacity: 1, y: 0 }}
                         transition={{ delay: i * 0.1 }}
-                        className="group relative aspect-[3/4] rounded-3xl overflow-hidden bg-zinc-100 card-shadow border border-zinc-100"
+                        className="space-y-2"
                       >
-                        <img src={url} className="w-full h-full object-cover" />
-                        <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity flex flex-col items-center justify-center gap-3">
-                          <a href={url} download={`catalog-${idx}-${i}.png`} className="p-4 bg-white text-zinc-900 rounded-full hover:scale-110 transition-transform shadow-xl">
-                            <Download className="w-6 h-6" />
-                          </a>
-                          <span className="text-[10px] text-white font-bold tracking-widest uppercase">4K High Res</span>
+                        <div
+                          style={{ aspectRatio: cssAspect(image.aspectRatio) }}
+                          title={image.prompt}
+                          className={cn("group relative rounded-3xl overflow-hidden bg-zinc-100 card-shadow border border-zinc-100", image.isBusy && "opacity-60")}
+                        >
+                          <img src={image.previewUrl} className="w-full h-full object-cover" />
+                          {image.review && (
+                            <span className={cn(
+                              "absolute top-3 left-3 px-2 py-0.5 rounded-full text-[10px] font-bold text-white",
+                              image.review === 'approved' ? "bg-emerald-600" : image.review === 'rejected' ? "bg-red-600" : "bg-amber-500"
+                            )}>
+                              {REVIEW_STATUSES[image.review]}{image.reviewedBy && ` · ${image.reviewedBy}`}
+                            </span>
+                          )}
+                          {image.fidelity && (
+                            <span
+                              title={fidelityDetails(image.fidelity)}
+                              className={cn(
+                                "absolute top-3 right-3 px-2 py-0.5 rounded-full text-[10px] font-bold",
+                                image.fidelity.flagged ? "bg-red-600 text-white" : "bg-white/90 text-zinc-700"
+                              )}
+                            >
+                              Fidelity {fidelityScore(image.fidelity)}
+                            </span>
+                          )}
+                          <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity flex flex-col items-center justify-center gap-3">
+                            <a href={image.url} download={`${productFileStem(result.product, idx)}-shot-${image.shotIndex + 1}.${image.extension}`} className="p-4 bg-white text-zinc-900 rounded-full hover:scale-110 transition-transform shadow-xl" title="Download original">
+                              <Download className="w-6 h-6" />
+                            </a>
+                            {image.renditions.length > 0 && (
+                              <div className="flex flex-wrap justify-center gap-1 px-3">
+                                {image.renditions.map(rendition => (
+                                  <a
+                                    key={rendition.name}
+                                    href={rendition.url}
+                                    download={`${productFileStem(result.product, idx)}-shot-${image.shotIndex + 1}-${rendition.name}`}
+                                    className="px-1.5 py-0.5 rounded bg-white/20 hover:bg-white/40 text-[9px] text-white font-medium"
+                                  >
+                                    {rendition.name}
+                                  </a>
+                                ))}
+                              </div>
+                            )}
+                            <span className="text-[10px] text-white font-bold tracking-widest uppercase">{image.imageSize} · {image.aspectRatio}</span>
+                            {image.identityName && <span className="text-[10px] text-white/80 font-medium">{image.identityName}</span>}
+                            {image.templateVersion && <span className="text-[10px] text-white/60 font-medium">Template v{image.templateVersion}</span>}
+                            {image.variantOf !== undefined && <span className="text-[10px] text-white/60 font-medium">Variation of shot {image.variantOf + 1}</span>}
+                          </div>
                         </div>
+                        <ShotActions
+                          review={image.review}
+                          comments={image.comments}
+                          note={image.note}
+                          isBusy={image.isBusy}
+                          onRegenerate={note => updateShot(() => regenerateShot(result.targetId, image.shotIndex, note))}
+                          onVariations={count => updateShot(() => addShotVariations(result.targetId, image.shotIndex, count))}
+                          onReview={review => updateShot(() => reviewShot(result.targetId, image.shotIndex, review))}
+                          onComment={body => updateShot(() => commentOnShot(result.targetId, image.shotIndex, body))}
+                        />
                       </motion.div>
                     ))}
+
+                    {['processing', 'retrying'].includes(result.status) && result.inFlight.map((ratio, i) => (
+                      <div key={`pending-${i}`} style={{ aspectRatio: cssAspect(ratio) }} className="bg-zinc-50 rounded-3xl animate-pulse flex items-center justify-center border border-zinc-100">
+                        <ImageIcon className="w-8 h-8 text-zinc-100" />
+                      </div>
+                    ))}
                   </div>
                 </div>
               );
@@ -461,9 +1085,18 @@ export default function App() {
         <div className="max-w-7xl mx-auto flex items-center justify-between text-[10px] text-zinc-400 font-bold uppercase tracking-widest">
           <div className="flex items-center gap-4">
             <span className="flex items-center gap-1"><Settings2 className="w-3 h-3" /> Consistency Engine v3</span>
-            <span>Diverse Faces Mode</span>
+            <span>
+              {identitySelection.mode === 'diverse' && "Diverse Faces Mode"}
+              {identitySelection.mode === 'single' && `Single Model: ${identities.find(i => i.id === identitySelection.identityIds[0])?.name ?? 'none picked'}`}
+              {identitySelection.mode === 'rotate' && `Roster Rotation (${identitySelection.identityIds.length})`}
+            </span>
           </div>
-          <div className="flex items-center gap-1"><Sparkles className="w-3 h-3" /> Powered by Gemini 3 Pro</div>
+          {provider && (
+            <div className="flex items-center gap-1">
+              <Sparkles className="w-3 h-3" />
+              {provider.offline ? "Mock provider · " : "Powered by "}{imageModelInfo?.label ?? provider.defaultModel}
+            </div>
+          )}
         </div>
       </footer>
     </div>
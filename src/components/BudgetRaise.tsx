@@ -0,0 +1,44 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { RotateCcw } from 'lucide-react';
+import { formatCost } from '../core/usage.ts';
+
+interface BudgetRaiseProps {
+  budget: number;
+  spent: number;
+  onRaise: (budget: number) => void;
+}
+
+/** Shown on a session paused by its budget: raise the budget and resume in one go. */
+export default function BudgetRaise({ budget, spent, onRaise }: BudgetRaiseProps) {
+  const [value, setValue] = useState(String(Math.ceil(budget * 2)));
+  const raised = Number(value);
+  const valid = Number.isFinite(raised) && raised > spent;
+
+  return (
+    <span className="flex items-center gap-1.5">
+      <span className="text-[10px] font-bold text-amber-600 whitespace-nowrap">Budget {formatCost(budget)} reached</span>
+      <input
+        type="number"
+        min={0.01}
+        step={0.5}
+        value={value}
+        onChange={e => setValue(e.target.value)}
+        className="w-16 px-2 py-1 text-xs rounded-lg border border-zinc-200 bg-white focus:outline-none focus:border-zinc-900"
+        title="New budget (USD)"
+      />
+      <button
+        onClick={() => onRaise(raised)}
+        disabled={!valid}
+        className="flex items-center gap-1.5 px-3 py-1 bg-zinc-900 text-white text-xs font-bold rounded-full hover:bg-zinc-800 disabled:opacity-40 transition-colors whitespace-nowrap"
+      >
+        <RotateCcw className="w-3 h-3" />
+        Raise & resume
+      </button>
+    </span>
+  );
+}
@@ -0,0 +1,69 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Wallet } from 'lucide-react';
+import { IMAGE_SIZES } from '../core/shotPlan.ts';
+import { type CostEstimate, formatCost, formatTokens } from '../core/usage.ts';
+import { cn } from '../lib/utils.ts';
+
+interface CostPanelProps {
+  estimate: CostEstimate;
+  budget?: number;
+  onBudgetChange: (budget: number | undefined) => void;
+}
+
+export default function CostPanel({ estimate, budget, onBudgetChange }: CostPanelProps) {
+  const overBudget = budget !== undefined && estimate.cost > budget;
+  const images = IMAGE_SIZES.filter(size => estimate.images[size] > 0).map(size => `${estimate.images[size]} × ${size}`);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Wallet className="w-4 h-4 text-zinc-400" />
+        <h2 className="font-medium text-[10px] text-zinc-500 uppercase tracking-widest">8. Cost & Budget</h2>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 text-xs">
+        <div className="space-y-1">
+          <span className="text-[10px] font-medium text-zinc-400 uppercase tracking-widest">Estimate</span>
+          <p className="text-2xl font-serif font-bold">≈ {formatCost(estimate.cost)}</p>
+          <p className="text-[10px] text-zinc-400">At list prices, if every shot succeeds first time. Retries and re-queues cost extra.</p>
+        </div>
+
+        <div className="space-y-1 text-zinc-600">
+          <span className="text-[10px] font-medium text-zinc-400 uppercase tracking-widest">Calls</span>
+          <p>
+            {estimate.calls} image {estimate.calls === 1 ? "call" : "calls"}
+            {estimate.critiqueCalls > 0 && ` + ${estimate.critiqueCalls} critique`}
+          </p>
+          <p>{images.length > 0 ? images.join(', ') : "No images"}</p>
+          <p>{formatTokens(estimate.promptTokens)} input / {formatTokens(estimate.outputTokens)} output tokens</p>
+        </div>
+
+        <div className="space-y-2">
+          <span className="text-[10px] font-medium text-zinc-400 uppercase tracking-widest">Session budget (USD)</span>
+          <input
+            type="number"
+            min={0.01}
+            step={0.5}
+            value={budget ?? ''}
+            onChange={e => onBudgetChange(Number(e.target.value) > 0 ? Number(e.target.value) : undefined)}
+            placeholder="No cap"
+            className={cn(
+              "w-28 px-2 py-1 text-xs rounded-lg border bg-white focus:outline-none focus:border-zinc-900",
+              overBudget ? "border-amber-400" : "border-zinc-200"
+            )}
+          />
+          <p className={cn("text-[10px]", overBudget ? "text-amber-600" : "text-zinc-400")}>
+            {overBudget
+              ? "The estimate is over budget, so the session will pause before it finishes."
+              : "The queue pauses once the session has spent this much."}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
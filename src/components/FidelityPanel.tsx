@@ -0,0 +1,94 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Pipette } from 'lucide-react';
+import { DEFAULT_FIDELITY, MAX_AUTO_REQUEUES } from '../core/fidelity.ts';
+import type { FidelitySettings } from '../core/types.ts';
+import { cn } from '../lib/utils.ts';
+
+interface FidelityPanelProps {
+  settings: FidelitySettings;
+  onChange: (settings: FidelitySettings) => void;
+}
+
+const inputClass = "px-2 py-1 text-xs rounded-lg border border-zinc-200 bg-white focus:outline-none focus:border-zinc-900";
+
+export default function FidelityPanel({ settings, onChange }: FidelityPanelProps) {
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Pipette className="w-4 h-4 text-zinc-400" />
+          <h2 className="font-medium text-[10px] text-zinc-500 uppercase tracking-widest">7. Garment Fidelity</h2>
+        </div>
+        <button onClick={() => onChange(DEFAULT_FIDELITY)} className="text-[10px] text-zinc-500 font-medium hover:text-zinc-900">
+          Reset
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 text-xs">
+        <div className="space-y-2">
+          <span className="text-[10px] font-medium text-zinc-400 uppercase tracking-widest">Threshold</span>
+          <label className="flex items-center gap-2">
+            <input
+              type="range"
+              min={0}
+              max={100}
+              value={settings.threshold}
+              onChange={e => onChange({ ...settings, threshold: Number(e.target.value) })}
+              className="flex-1 accent-zinc-900"
+            />
+            <span className="w-6 text-right text-zinc-500">{settings.threshold}</span>
+          </label>
+          <p className="text-[10px] text-zinc-400">Shots scoring below this are flagged.</p>
+        </div>
+
+        <div className="space-y-2">
+          <span className="text-[10px] font-medium text-zinc-400 uppercase tracking-widest">Low scores</span>
+          <div className="flex items-center gap-2">
+            <select
+              value={settings.action}
+              onChange={e => onChange({ ...settings, action: e.target.value as FidelitySettings['action'] })}
+              className={inputClass}
+            >
+              <option value="flag">Flag only</option>
+              <option value="requeue">Flag and re-queue</option>
+            </select>
+            <select
+              value={settings.maxRequeues}
+              disabled={settings.action !== 'requeue'}
+              onChange={e => onChange({ ...settings, maxRequeues: Number(e.target.value) })}
+              className={cn(inputClass, "w-12")}
+            >
+              {Array.from({ length: MAX_AUTO_REQUEUES + 1 }, (_, n) => <option key={n} value={n}>{n}</option>)}
+            </select>
+            <span className="text-zinc-400">times at most</span>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <span className="text-[10px] font-medium text-zinc-400 uppercase tracking-widest">Model critique</span>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={settings.critique}
+              onChange={e => onChange({ ...settings, critique: e.target.checked })}
+              className="accent-zinc-900"
+            />
+            <span className="text-zinc-700">Also ask a vision model to compare the garment</span>
+          </label>
+          <p className="text-[10px] text-zinc-400">One extra model call per shot; the lower score counts.</p>
+        </div>
+      </div>
+
+      <p className="text-[10px] text-zinc-400">
+        Each shot is scored 0-100 on how closely the cardigan's colours (ΔE2000 against the product photos) match.
+        The colours are read from the centre of the frame, where the torso sits in a standard catalogue shot, so the
+        score is approximate for seated, cropped or off-centre poses; the vision critique checks the garment itself.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { AlertCircle, ScanSearch, ShieldAlert, X } from 'lucide-react';
+import { METADATA_FIELDS, readImageMetadata } from '../core/metadata.ts';
+import type { InspectedImage, MetadataField } from '../core/types.ts';
+import { cn } from '../lib/utils.ts';
+
+interface ImageInspectorProps {
+  onClose: () => void;
+}
+
+interface Inspection {
+  fileName: string;
+  preview: string;
+  result: InspectedImage;
+}
+
+function rawTable(title: string, values: Record<string, string>) {
+  const entries = Object.entries(values);
+  if (entries.length === 0) return null;
+  return (
+    <div className="space-y-1">
+      <span className="text-[10px] font-medium text-zinc-400 uppercase tracking-widest">{title}</span>
+      <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5 text-[11px]">
+        {entries.map(([key, value]) => (
+          <React.Fragment key={key}>
+            <dt className="text-zinc-400 font-mono">{key}</dt>
+            <dd className="text-zinc-700 break-all">{value}</dd>
+          </React.Fragment>
+        ))}
+      </dl>
+    </div>
+  );
+}
+
+/** Reads the provenance embedded in any image file, in the browser; nothing is uploaded. */
+export default function ImageInspector({ onClose }: ImageInspectorProps) {
+  const [inspection, setInspection] = useState<Inspection | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const inspect = async (file?: File) => {
+    if (!file) return;
+    setError(null);
+    setInspection(null);
+    try {
+      const result = readImageMetadata(new Uint8Array(await file.arrayBuffer()));
+      if (!result) return setError("Only PNG, JPEG and WebP files can be inspected.");
+      setInspection({ fileName: file.name, preview: URL.createObjectURL(file), result });
+    } catch {
+      setError("The file looks damaged; its metadata could not be read.");
+    }
+  };
+
+  const fields = inspection
+    ? (Object.keys(METADATA_FIELDS) as MetadataField[]).filter(field => inspection.result.metadata[field] !== undefined)
+    : [];
+  const hasRaw = inspection && [inspection.result.xmp, inspection.result.exif, inspection.result.text]
+    .some(values => Object.keys(values).length > 0);
+
+  return (
+    <div className="p-6 rounded-3xl border border-zinc-100 bg-white card-shadow space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="font-medium text-[10px] text-zinc-500 uppercase tracking-widest">Inspect image</h2>
+        <button onClick={onClose} className="p-1 text-zinc-400 hover:text-zinc-900">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <label
+        onDragOver={e => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={e => { e.preventDefault(); setIsDragging(false); inspect(e.dataTransfer.files[0]); }}
+        className={cn(
+          "flex items-center justify-center gap-2 h-20 rounded-2xl border-2 border-dashed cursor-pointer text-xs text-zinc-400 font-medium transition-colors",
+          isDragging ? "border-zinc-900 text-zinc-900" : "border-zinc-100 hover:border-zinc-200"
+        )}
+      >
+        <input type="file" accept="image/png,image/jpeg,image/webp" className="hidden" onChange={e => inspect(e.target.files?.[0])} />
+        <ScanSearch className="w-4 h-4" />
+        Drop an image here or click to choose one
+      </label>
+
+      {error && (
+        <p className="flex items-center gap-2 text-xs text-red-600 font-medium">
+          <AlertCircle className="w-3 h-3" />
+          {error}
+        </p>
+      )}
+
+      {inspection && (
+        <div className="flex gap-6">
+          <img src={inspection.preview} className="w-32 h-32 rounded-xl object-contain bg-zinc-50 border border-zinc-100" />
+          <div className="flex-1 min-w-0 space-y-3">
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-medium truncate">{inspection.fileName}</span>
+              <span className="text-[10px] text-zinc-400 uppercase tracking-widest">{inspection.result.format}</span>
+              {inspection.result.metadata.aiGenerated ? (
+                <span className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-amber-50 border border-amber-200 text-[10px] font-bold text-amber-700">
+                  <ShieldAlert className="w-3 h-3" />
+                  Declared AI-generated
+                </span>
+              ) : (
+                <span className="px-2 py-0.5 rounded-full bg-zinc-50 border border-zinc-200 text-[10px] font-bold text-zinc-500">
+                  No AI declaration
+                </span>
+              )}
+            </div>
+            {fields.length > 0 && (
+              <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-xs">
+                {fields.map(field => (
+                  <React.Fragment key={field}>
+                    <dt className="text-zinc-400">{METADATA_FIELDS[field]}</dt>
+                    <dd className="text-zinc-900 font-medium break-all">{String(inspection.result.metadata[field])}</dd>
+                  </React.Fragment>
+                ))}
+              </dl>
+            )}
+            {hasRaw ? (
+              <details className="space-y-2">
+                <summary className="text-[10px] text-zinc-500 font-medium cursor-pointer">Everything embedded</summary>
+                {rawTable("XMP", inspection.result.xmp)}
+                {rawTable("EXIF", inspection.result.exif)}
+                {rawTable("PNG text", inspection.result.text)}
+              </details>
+            ) : (
+              <p className="text-xs text-zinc-400">No embedded metadata found.</p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { AlertCircle, CheckCircle2, FileSpreadsheet, FolderOpen, Loader2, X } from 'lucide-react';
+import { unzipSync } from 'fflate';
+import { imageMimeType } from '../core/images.ts';
+import { type ManifestRow, matchManifest, parseManifest, type ParsedManifest } from '../core/manifest.ts';
+
+export interface ManifestProduct {
+  row: ManifestRow;
+  files: File[];
+}
+
+interface ManifestImportProps {
+  onImport: (products: ManifestProduct[]) => Promise<void>;
+  onClose: () => void;
+}
+
+interface UploadedImage {
+  path: string;
+  file: File;
+}
+
+const LIST_LIMIT = 8;
+
+/** Image files from a folder pick or loose files; zips are unpacked in the browser. */
+async function readImages(files: File[]): Promise<UploadedImage[]> {
+  const images: UploadedImage[] = [];
+  for (const file of files) {
+    if (file.name.toLowerCase().endsWith('.zip')) {
+      const entries = unzipSync(new Uint8Array(await file.arrayBuffer()), {
+        filter: entry => !entry.name.startsWith('__MACOSX/') && !!imageMimeType(entry.name)
+      });
+      for (const [path, data] of Object.entries(entries)) {
+        const name = path.split('/').pop()!;
+        images.push({ path, file: new File([data], name, { type: imageMimeType(name) }) });
+      }
+    } else if (file.type.startsWith('image/') || imageMimeType(file.name)) {
+      images.push({ path: file.webkitRelativePath || file.name, file });
+    }
+  }
+  return images;
+}
+
+const Overflow = ({ items }: { items: string[] }) => (
+  <>
+    {items.slice(0, LIST_LIMIT).map(item => <li key={item} className="truncate">{item}</li>)}
+    {items.length > LIST_LIMIT && <li>…and {items.length - LIST_LIMIT} more</li>}
+  </>
+);
+
+export default function ManifestImport({ onImport, onClose }: ManifestImportProps) {
+  const [manifest, setManifest] = useState<(ParsedManifest & { fileName: string }) | null>(null);
+  const [images, setImages] = useState<UploadedImage[]>([]);
+  const [isBusy, setIsBusy] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const report = manifest && matchManifest(manifest.rows, images.map(image => image.path));
+  const ready = report?.matches.filter(match => match.missing.length === 0) ?? [];
+  const incomplete = report?.matches.filter(match => match.missing.length > 0) ?? [];
+
+  const pickManifest = async (file: File | undefined) => {
+    if (!file) return;
+    const text = await file.text();
+    setManifest({ ...parseManifest(text, file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv'), fileName: file.name });
+  };
+
+  const pickImages = async (files: FileList | null) => {
+    if (!files?.length) return;
+    setIsBusy(true);
+    setImportError(null);
+    try {
+      const added = await readImages(Array.from(files));
+      setImages(prev => [...prev.filter(image => !added.some(a => a.path === image.path)), ...added]);
+    } catch (error: any) {
+      setImportError(`Could not read the images: ${error.message}`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const queue = async () => {
+    setIsBusy(true);
+    setImportError(null);
+    try {
+      await onImport(ready.map(match => ({
+        row: match.row,
+        files: match.files.map(path => images.find(image => image.path === path)!.file)
+      })));
+      onClose();
+    } catch (error: any) {
+      setImportError(`Could not add the products: ${error.message}`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="rounded-2xl border border-zinc-200 bg-white p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs font-bold text-zinc-700">Import catalog manifest</h3>
+        <button onClick={onClose} className="p-1 text-zinc-400 hover:text-zinc-900" title="Close">
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+      <p className="text-[10px] text-zinc-400">
+        CSV or JSON with columns sku, name, colorway, images (separate several with ;), shots and notes.
+      </p>
+
+      <div className="flex flex-wrap gap-2">
+        <label className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-full border border-zinc-200 text-zinc-600 hover:bg-zinc-50 cursor-pointer">
+          <FileSpreadsheet className="w-3 h-3" />
+          {manifest ? manifest.fileName : "Manifest (.csv, .json)"}
+          <input type="file" accept=".csv,.json,text/csv,application/json" className="hidden" onChange={e => pickManifest(e.target.files?.[0])} />
+        </label>
+        <label className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-full border border-zinc-200 text-zinc-600 hover:bg-zinc-50 cursor-pointer">
+          <FolderOpen className="w-3 h-3" />
+          Image folder
+          <input type="file" multiple className="hidden" {...{ webkitdirectory: '' }} onChange={e => pickImages(e.target.files)} />
+        </label>
+        <label className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-full border border-zinc-200 text-zinc-600 hover:bg-zinc-50 cursor-pointer">
+          Images or .zip
+          <input type="file" multiple accept="image/*,.zip" className="hidden" onChange={e => pickImages(e.target.files)} />
+        </label>
+        {images.length > 0 && <span className="self-center text-[10px] text-zinc-400">{images.length} images</span>}
+      </div>
+
+      {importError && <p className="text-xs text-red-600">{importError}</p>}
+
+      {manifest && manifest.errors.length > 0 && (
+        <div className="text-xs text-red-600 space-y-0.5">
+          <p className="flex items-center gap-1.5 font-medium"><AlertCircle className="w-3 h-3" /> Manifest problems</p>
+          <ul className="pl-5 list-disc"><Overflow items={manifest.errors} /></ul>
+        </div>
+      )}
+
+      {report && (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 text-xs">
+          <div>
+            <p className="flex items-center gap-1.5 font-medium text-emerald-600"><CheckCircle2 className="w-3 h-3" /> {ready.length} rows ready</p>
+            <ul className="pl-5 list-disc text-zinc-500"><Overflow items={ready.map(match => `${match.row.sku}: ${match.files.length} images`)} /></ul>
+          </div>
+          <div>
+            <p className="font-medium text-amber-600">{incomplete.length} rows missing images</p>
+            <ul className="pl-5 list-disc text-zinc-500">
+              <Overflow items={incomplete.flatMap(match => match.missing.map(image => `${match.row.sku}: ${image}`))} />
+            </ul>
+          </div>
+          <div>
+            <p className="font-medium text-zinc-600">{report.extra.length} extra images</p>
+            <ul className="pl-5 list-disc text-zinc-500"><Overflow items={report.extra} /></ul>
+          </div>
+        </div>
+      )}
+
+      <button
+        onClick={queue}
+        disabled={isBusy || ready.length === 0}
+        className="flex items-center gap-1.5 px-4 py-2 text-xs font-medium rounded-full bg-zinc-900 text-white hover:bg-zinc-800 disabled:bg-zinc-100 disabled:text-zinc-400 transition-colors"
+      >
+        {isBusy && <Loader2 className="w-3 h-3 animate-spin" />}
+        Add {ready.length} products{incomplete.length > 0 ? ` (skip ${incomplete.length} incomplete)` : ''}
+      </button>
+    </div>
+  );
+}
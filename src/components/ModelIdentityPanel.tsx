@@ -0,0 +1,204 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Check, ImagePlus, Plus, Trash2, User, X } from 'lucide-react';
+import { useDropzone } from 'react-dropzone';
+import type { IdentityMode, IdentitySelection, ModelIdentity } from '../core/types.ts';
+import { imageUrl } from '../lib/api.ts';
+import { cn } from '../lib/utils.ts';
+
+interface ModelIdentityPanelProps {
+  identities: ModelIdentity[];
+  selection: IdentitySelection;
+  onSelectionChange: (selection: IdentitySelection) => void;
+  onCreate: (name: string, description: string, files: File[]) => Promise<void>;
+  onAddImages: (id: string, files: File[]) => void;
+  onDelete: (id: string) => void;
+}
+
+const MODES: { mode: IdentityMode; label: string }[] = [
+  { mode: 'diverse', label: 'Diverse' },
+  { mode: 'single', label: 'Single model' },
+  { mode: 'rotate', label: 'Rotate roster' },
+];
+
+export default function ModelIdentityPanel({
+  identities,
+  selection,
+  onSelectionChange,
+  onCreate,
+  onAddImages,
+  onDelete
+}: ModelIdentityPanelProps) {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [files, setFiles] = useState<File[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const previews = useMemo(() => files.map(file => URL.createObjectURL(file)), [files]);
+  useEffect(() => () => previews.forEach(url => URL.revokeObjectURL(url)), [previews]);
+
+  const onDrop = useCallback((accepted: File[]) => setFiles(prev => [...prev, ...accepted]), []);
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    accept: { 'image/*': [] },
+    multiple: true
+  } as any);
+
+  const setMode = (mode: IdentityMode) => {
+    const ids = mode === 'diverse' ? [] : mode === 'single' ? selection.identityIds.slice(0, 1) : selection.identityIds;
+    onSelectionChange({ mode, identityIds: ids });
+  };
+
+  const toggle = (id: string) => {
+    if (selection.mode === 'single') {
+      onSelectionChange({ mode: 'single', identityIds: [id] });
+    } else if (selection.mode === 'rotate') {
+      const ids = selection.identityIds.includes(id)
+        ? selection.identityIds.filter(existing => existing !== id)
+        : [...selection.identityIds, id];
+      onSelectionChange({ mode: 'rotate', identityIds: ids });
+    }
+  };
+
+  const create = async () => {
+    if (!name.trim() || files.length === 0) return;
+    setIsSaving(true);
+    try {
+      await onCreate(name.trim(), description.trim(), files);
+      setName('');
+      setDescription('');
+      setFiles([]);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <User className="w-4 h-4 text-zinc-400" />
+          <h2 className="font-medium text-[10px] text-zinc-500 uppercase tracking-widest">4. Model Identity</h2>
+        </div>
+        <div className="flex items-center p-0.5 rounded-full border border-zinc-200 bg-white">
+          {MODES.map(({ mode, label }) => (
+            <button
+              key={mode}
+              onClick={() => setMode(mode)}
+              className={cn("px-3 py-1 rounded-full text-xs font-medium transition-colors", selection.mode === mode ? "bg-zinc-900 text-white" : "text-zinc-500 hover:text-zinc-900")}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <p className="text-xs text-zinc-400">
+        {selection.mode === 'diverse' && "Every shot gets a different face."}
+        {selection.mode === 'single' && "Pick one model to wear every product in the batch."}
+        {selection.mode === 'rotate' && "Pick a roster. Products take turns through it in the order you pick."}
+      </p>
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-3">
+        {identities.map(identity => {
+          const rosterIndex = selection.identityIds.indexOf(identity.id);
+          const selectable = selection.mode !== 'diverse';
+          return (
+            <div
+              key={identity.id}
+              className={cn("relative rounded-2xl border p-2 space-y-2 bg-white transition-colors", rosterIndex >= 0 ? "border-zinc-900" : "border-zinc-100")}
+            >
+              <button onClick={() => toggle(identity.id)} disabled={!selectable} className="block w-full text-left disabled:cursor-default">
+                <div className="grid grid-cols-3 gap-1">
+                  {identity.imageIds.slice(0, 3).map(imageId => (
+                    <img key={imageId} src={imageUrl(imageId)} className="aspect-square w-full rounded-lg object-cover" />
+                  ))}
+                </div>
+                <p className="mt-2 text-sm font-medium truncate">{identity.name}</p>
+                {identity.description && <p className="text-[10px] text-zinc-400 truncate">{identity.description}</p>}
+              </button>
+              {rosterIndex >= 0 && (
+                <span className="absolute top-3 left-3 w-5 h-5 rounded-full bg-zinc-900 text-white text-[10px] font-bold flex items-center justify-center">
+                  {selection.mode === 'rotate' ? rosterIndex + 1 : <Check className="w-3 h-3" />}
+                </span>
+              )}
+              <div className="flex items-center justify-between text-zinc-400">
+                <span className="text-[10px]">{identity.imageIds.length} refs</span>
+                <div className="flex items-center gap-1">
+                  <label className="p-1 hover:text-zinc-900 cursor-pointer" title="Add reference images">
+                    <ImagePlus className="w-3.5 h-3.5" />
+                    <input
+                      type="file"
+                      accept="image/*"
+                      multiple
+                      className="hidden"
+                      onChange={e => {
+                        if (e.target.files?.length) onAddImages(identity.id, Array.from(e.target.files));
+                        e.target.value = '';
+                      }}
+                    />
+                  </label>
+                  <button onClick={() => onDelete(identity.id)} className="p-1 hover:text-red-600" title="Delete model">
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+
+        <div className="rounded-2xl border border-dashed border-zinc-200 p-2 space-y-2">
+          <div {...getRootProps()} className={cn("rounded-lg p-3 text-center cursor-pointer transition-colors", isDragActive ? "bg-zinc-50" : "hover:bg-zinc-50")}>
+            <input {...getInputProps()} />
+            {files.length === 0 ? (
+              <>
+                <Plus className="w-4 h-4 text-zinc-300 mx-auto mb-1" />
+                <p className="text-[10px] text-zinc-400">Drop face/body references</p>
+              </>
+            ) : (
+              <div className="grid grid-cols-3 gap-1">
+                {previews.map((preview, i) => (
+                  <div key={preview} className="relative group">
+                    <img src={preview} className="aspect-square w-full rounded-lg object-cover" />
+                    <button
+                      onClick={e => {
+                        e.stopPropagation();
+                        setFiles(prev => prev.filter((_, idx) => idx !== i));
+                      }}
+                      className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 flex items-center justify-center text-white rounded-lg"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+          <input
+            value={name}
+            onChange={e => setName(e.target.value)}
+            placeholder="Model name"
+            className="w-full px-2 py-1.5 text-xs rounded-lg border border-zinc-200 focus:outline-none focus:border-zinc-900"
+          />
+          <input
+            value={description}
+            onChange={e => setDescription(e.target.value)}
+            placeholder="Notes (optional)"
+            className="w-full px-2 py-1.5 text-xs rounded-lg border border-zinc-200 focus:outline-none focus:border-zinc-900"
+          />
+          <button
+            onClick={create}
+            disabled={isSaving || !name.trim() || files.length === 0}
+            className="w-full py-1.5 rounded-lg bg-zinc-900 text-white text-xs font-medium hover:bg-zinc-800 disabled:bg-zinc-100 disabled:text-zinc-400 transition-colors"
+          >
+            Add model
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
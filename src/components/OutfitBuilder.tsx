@@ -0,0 +1,108 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Copy, Plus, X } from 'lucide-react';
+import { MAX_OUTFIT_NOTE_LENGTH, OUTFIT_MATCHES, OUTFIT_ROLES, sortOutfit } from '../core/products.ts';
+import type { OutfitMatch, OutfitRole } from '../core/types.ts';
+import { cn, fileToBase64 } from '../lib/utils.ts';
+import type { ViewImage } from './ProductPanel.tsx';
+
+export interface OutfitPieceFile extends ViewImage {
+  role: OutfitRole;
+  match: OutfitMatch;
+  note: string;
+}
+
+interface OutfitBuilderProps {
+  outfit: OutfitPieceFile[];
+  onChange: (outfit: OutfitPieceFile[]) => void;
+  onCopyToAll?: () => void;
+}
+
+/** One slot per styling role; each piece is either held to an exact match or only suggests the style. */
+export default function OutfitBuilder({ outfit, onChange, onCopyToAll }: OutfitBuilderProps) {
+  const update = (role: OutfitRole, patch: Partial<OutfitPieceFile>) =>
+    onChange(outfit.map(piece => piece.role === role ? { ...piece, ...patch } : piece));
+
+  const upload = async (role: OutfitRole, file?: File) => {
+    if (!file) return;
+    const image: ViewImage = { preview: URL.createObjectURL(file), base64: await fileToBase64(file), mimeType: file.type };
+    const existing = outfit.find(piece => piece.role === role);
+    onChange(sortOutfit([
+      ...outfit.filter(piece => piece.role !== role),
+      { role, match: existing?.match ?? 'exact', note: existing?.note ?? '', ...image },
+    ]));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] font-medium text-zinc-400 uppercase tracking-widest">Outfit</span>
+        {onCopyToAll && outfit.length > 0 && (
+          <button onClick={onCopyToAll} className="flex items-center gap-1 text-[10px] text-zinc-500 font-medium hover:text-zinc-900">
+            <Copy className="w-3 h-3" />
+            Use this outfit for every product
+          </button>
+        )}
+      </div>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        {(Object.keys(OUTFIT_ROLES) as OutfitRole[]).map(role => {
+          const piece = outfit.find(candidate => candidate.role === role);
+          return (
+            <div key={role} className="space-y-1">
+              <label
+                className={cn(
+                  "relative flex items-center justify-center h-16 rounded-lg overflow-hidden cursor-pointer group",
+                  piece ? "border border-zinc-100" : "border-2 border-dashed border-zinc-100 hover:border-zinc-200"
+                )}
+                title={piece ? `Replace the ${OUTFIT_ROLES[role].toLowerCase()}` : `Add a ${OUTFIT_ROLES[role].toLowerCase()}`}
+              >
+                <input type="file" accept="image/*" className="hidden" onChange={e => upload(role, e.target.files?.[0])} />
+                {piece ? (
+                  <>
+                    <img src={piece.preview} className="w-full h-full object-cover" />
+                    <button
+                      onClick={e => { e.preventDefault(); onChange(outfit.filter(other => other !== piece)); }}
+                      className="absolute top-0.5 right-0.5 p-0.5 rounded bg-black/50 text-white opacity-0 group-hover:opacity-100 transition-opacity"
+                      title="Remove"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </>
+                ) : (
+                  <span className="flex items-center gap-1 text-[10px] text-zinc-400 font-medium">
+                    <Plus className="w-3 h-3" />
+                    {OUTFIT_ROLES[role]}
+                  </span>
+                )}
+              </label>
+              {piece && (
+                <>
+                  <select
+                    value={piece.match}
+                    onChange={e => update(role, { match: e.target.value as OutfitMatch })}
+                    className="w-full text-[10px] rounded border border-zinc-200 bg-white focus:outline-none"
+                  >
+                    {(Object.keys(OUTFIT_MATCHES) as OutfitMatch[]).map(match => (
+                      <option key={match} value={match}>{OUTFIT_MATCHES[match]}</option>
+                    ))}
+                  </select>
+                  <input
+                    value={piece.note}
+                    onChange={e => update(role, { note: e.target.value })}
+                    maxLength={MAX_OUTFIT_NOTE_LENGTH}
+                    placeholder={`${OUTFIT_ROLES[role]} note`}
+                    className="w-full px-1.5 py-0.5 text-[10px] rounded border border-zinc-200 bg-white focus:outline-none focus:border-zinc-900"
+                  />
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
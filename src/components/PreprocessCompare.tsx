@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { X } from 'lucide-react';
+import { PREPROCESS_STEPS } from '../core/preprocess.ts';
+import { cn } from '../lib/utils.ts';
+import type { ProductViewFile } from './ProductPanel.tsx';
+
+interface PreprocessCompareProps {
+  view: ProductViewFile;
+  onUse: (version: 'original' | 'cleaned') => void;
+  onClose: () => void;
+}
+
+/** Before and after of one cleaned-up product photo; the picked side is what the model gets. */
+export default function PreprocessCompare({ view, onUse, onClose }: PreprocessCompareProps) {
+  const usingCleaned = view.base64 === view.cleaned?.base64;
+  const sides = [
+    { version: 'original' as const, title: "Original", image: view.original },
+    ...(view.cleaned ? [{ version: 'cleaned' as const, title: "Cleaned", image: view.cleaned }] : []),
+  ];
+
+  return (
+    <div className="p-3 rounded-xl border border-zinc-200 bg-white space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-medium truncate">{view.file.name}</span>
+        <button onClick={onClose} className="p-1 text-zinc-400 hover:text-zinc-900">
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        {sides.map(({ version, title, image }) => {
+          const active = (version === 'cleaned') === usingCleaned;
+          return (
+            <button
+              key={version}
+              onClick={() => onUse(version)}
+              className={cn("space-y-1.5 p-1.5 rounded-lg border-2 text-left", active ? "border-zinc-900" : "border-transparent hover:border-zinc-200")}
+            >
+              <div className="aspect-square rounded-md bg-zinc-100 overflow-hidden">
+                <img src={image.preview} className="w-full h-full object-contain" />
+              </div>
+              <span className="block text-[10px] font-bold uppercase tracking-widest text-zinc-500">
+                {title}{active && " · sent to the model"}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+      <p className="text-[10px] text-zinc-400">
+        {view.applied.map(step => PREPROCESS_STEPS[step]).join(', ')}. The original is kept with the session either way.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,306 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useCallback, useState } from 'react';
+import { Columns2, FileSpreadsheet, Layers, Loader2, Merge, Plus, Shirt, Split, Trash2, Wand2, X } from 'lucide-react';
+import { useDropzone } from 'react-dropzone';
+import { DEFAULT_PREPROCESS, MAX_UPLOAD_DIMENSION, PREPROCESS_STEPS } from '../core/preprocess.ts';
+import { MAX_VIEWS_PER_PRODUCT, parseViewFileName } from '../core/products.ts';
+import type { PreprocessOptions, PreprocessStep } from '../core/types.ts';
+import { preprocessImage } from '../lib/api.ts';
+import { cn, fileToBase64 } from '../lib/utils.ts';
+import ManifestImport, { type ManifestProduct } from './ManifestImport.tsx';
+import OutfitBuilder, { type OutfitPieceFile } from './OutfitBuilder.tsx';
+import PreprocessCompare from './PreprocessCompare.tsx';
+
+export interface ViewImage {
+  preview: string;
+  base64: string;
+  mimeType: string;
+}
+
+/** A product photo. Its own preview/base64/mimeType are the version sent to the model. */
+export interface ProductViewFile extends ViewImage {
+  id: string;
+  file: File;
+  label?: string;
+  original: ViewImage;
+  cleaned?: ViewImage; // when preprocessing changed anything
+  applied: PreprocessStep[];
+}
+
+/** One target product: several photos of the same cardigan plus its catalog details. */
+export interface ProductGroup {
+  id: string;
+  sku: string;
+  name: string;
+  colorway: string;
+  notes: string;
+  views: ProductViewFile[];
+  outfit: OutfitPieceFile[]; // styling pieces worn with the cardigan
+}
+
+interface ProductPanelProps {
+  products: ProductGroup[];
+  /** Takes an updater for changes that land after an await, so they apply to the latest products. */
+  onChange: (update: React.SetStateAction<ProductGroup[]>) => void;
+  /** Adds manifest products; `shotCounts` holds the rows that asked for a specific number of shots. */
+  onImport: (products: ProductGroup[], shotCounts: Record<string, number>) => void;
+}
+
+const newId = () => Math.random().toString(36).substring(7);
+
+// A photo that cannot be cleaned up is still usable as uploaded.
+async function toViewFile(file: File, options: PreprocessOptions): Promise<ProductViewFile> {
+  const original: ViewImage = { preview: URL.createObjectURL(file), base64: await fileToBase64(file), mimeType: file.type };
+  const view: ProductViewFile = { id: newId(), file, ...original, original, applied: [] };
+  if (!Object.values(options).some(Boolean)) return view;
+  try {
+    const result = await preprocessImage({ image: { data: original.base64, mimeType: original.mimeType }, options });
+    if (result.applied.length === 0) return view;
+    const { data, mimeType } = result.image;
+    const cleaned: ViewImage = { preview: `data:${mimeType};base64,${data}`, base64: data, mimeType };
+    return { ...view, ...cleaned, cleaned, applied: result.applied };
+  } catch (error) {
+    console.error(`Could not clean up ${file.name}:`, error);
+    return view;
+  }
+}
+
+const toProduct = (view: ProductViewFile, sku: string): ProductGroup =>
+  ({ id: newId(), sku, name: '', colorway: '', notes: '', views: [view], outfit: [] });
+
+/**
+ * Adds dropped files as products. With `bySku`, files named `SKU_view.ext`
+ * join the existing product with that SKU while it has room for more views.
+ */
+function addFiles(products: ProductGroup[], files: ProductViewFile[], bySku: boolean): ProductGroup[] {
+  const next = products.map(product => ({ ...product, views: [...product.views] }));
+  for (const file of files) {
+    const { sku, view } = parseViewFileName(file.file.name);
+    const entry = { ...file, label: view };
+    const match = bySku && view
+      ? next.find(product => product.sku.toLowerCase() === sku.toLowerCase() && product.views.length < MAX_VIEWS_PER_PRODUCT)
+      : undefined;
+    if (match) match.views.push(entry);
+    else next.push(toProduct(entry, sku));
+  }
+  return next;
+}
+
+const inputClass = "min-w-0 flex-1 px-2 py-1 text-xs rounded-lg border border-zinc-200 bg-white focus:outline-none focus:border-zinc-900";
+
+export default function ProductPanel({ products, onChange, onImport }: ProductPanelProps) {
+  const [groupBySku, setGroupBySku] = useState(true);
+  const [isImporting, setIsImporting] = useState(false);
+  const [pickedIds, setPickedIds] = useState<string[]>([]);
+  const [preprocess, setPreprocess] = useState<PreprocessOptions>(DEFAULT_PREPROCESS);
+  const [cleaning, setCleaning] = useState(0);
+  const [comparingId, setComparingId] = useState<string | null>(null);
+  const [outfitOpenId, setOutfitOpenId] = useState<string | null>(null);
+  const selected = pickedIds.filter(id => products.some(product => product.id === id));
+  const comparing = products.flatMap(product => product.views).find(view => view.id === comparingId);
+
+  const toViewFiles = async (files: File[]) => {
+    setCleaning(count => count + files.length);
+    try {
+      return await Promise.all(files.map(file => toViewFile(file, preprocess)));
+    } finally {
+      setCleaning(count => count - files.length);
+    }
+  };
+
+  const onDrop = useCallback(async (acceptedFiles: File[]) => {
+    const files = await toViewFiles(acceptedFiles);
+    onChange(current => addFiles(current, files, groupBySku));
+  }, [onChange, groupBySku, preprocess]);
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    accept: { 'image/*': [] },
+    multiple: true
+  } as any);
+
+  const importManifest = async (rows: ManifestProduct[]) => {
+    const shotCounts: Record<string, number> = {};
+    const imported = await Promise.all(rows.map(async ({ row, files }) => {
+      const views = (await toViewFiles(files)).map(view => ({ ...view, label: parseViewFileName(view.file.name).view }));
+      const product: ProductGroup = {
+        id: newId(),
+        sku: row.sku ?? '',
+        name: row.name ?? '',
+        colorway: row.colorway ?? '',
+        notes: row.notes ?? '',
+        views,
+        outfit: []
+      };
+      if (row.shotCount) shotCounts[product.id] = row.shotCount;
+      return product;
+    }));
+    onImport(imported, shotCounts);
+  };
+
+  const update = (id: string, patch: Partial<ProductGroup>) =>
+    onChange(current => current.map(product => product.id === id ? { ...product, ...patch } : product));
+
+  const toggleSelected = (id: string) =>
+    setPickedIds(prev => prev.includes(id) ? prev.filter(existing => existing !== id) : [...prev, id]);
+
+  // The first product picked keeps its details; the others' views are appended to it.
+  const mergeSelected = () => {
+    const [keep, ...rest] = selected.map(id => products.find(product => product.id === id)!);
+    if (!keep || rest.length === 0) return;
+    const views = [keep, ...rest].flatMap(product => product.views).slice(0, MAX_VIEWS_PER_PRODUCT);
+    onChange(products
+      .filter(product => !rest.includes(product))
+      .map(product => product === keep ? { ...keep, views } : product));
+    setPickedIds([]);
+  };
+
+  const split = (product: ProductGroup) => {
+    const [first, ...others] = product.views;
+    onChange(products.flatMap(p => p === product
+      ? [{ ...product, views: [first] }, ...others.map(view => ({ ...toProduct(view, product.sku), outfit: product.outfit }))]
+      : [p]));
+  };
+
+  const pickVersion = (viewId: string, version: 'original' | 'cleaned') => onChange(products.map(product => ({
+    ...product,
+    views: product.views.map(view => view.id === viewId ? { ...view, ...(version === 'cleaned' ? view.cleaned : view.original) } : view),
+  })));
+
+  const removeView = (product: ProductGroup, viewId: string) => {
+    const views = product.views.filter(view => view.id !== viewId);
+    onChange(views.length ? products.map(p => p === product ? { ...p, views } : p) : products.filter(p => p !== product));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Layers className="w-4 h-4 text-zinc-400" />
+          <h2 className="font-medium text-[10px] text-zinc-500 uppercase tracking-widest">2. Target Cardigans</h2>
+        </div>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-1.5 text-[10px] text-zinc-500 font-medium cursor-pointer">
+            <input type="checkbox" checked={groupBySku} onChange={e => setGroupBySku(e.target.checked)} className="accent-zinc-900" />
+            Group by SKU_view file names
+          </label>
+          <button onClick={() => setIsImporting(true)} className="flex items-center gap-1 text-[10px] text-zinc-500 font-medium hover:text-zinc-900" title="Import a CSV or JSON manifest">
+            <FileSpreadsheet className="w-3 h-3" />
+            Manifest
+          </button>
+          <span className="text-[10px] font-bold text-zinc-400">{products.length}</span>
+        </div>
+      </div>
+      {isImporting && <ManifestImport onImport={importManifest} onClose={() => setIsImporting(false)} />}
+      <div {...getRootProps()} className={cn("border-2 border-dashed rounded-2xl p-10 text-center cursor-pointer transition-colors", isDragActive ? "bg-zinc-50 border-zinc-900" : "border-zinc-100 hover:border-zinc-200")}>
+        <input {...getInputProps()} />
+        <Plus className="w-6 h-6 text-zinc-300 mx-auto mb-3" />
+        <p className="text-sm font-medium">Drop product photos</p>
+        <p className="text-xs text-zinc-400 mt-1">Name files like SKU123_front.jpg to group angles of one cardigan</p>
+      </div>
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-[10px] text-zinc-500 font-medium">
+        <span className="uppercase tracking-widest text-zinc-400">Clean up new photos</span>
+        {(Object.keys(PREPROCESS_STEPS) as PreprocessStep[]).map(step => (
+          <label key={step} className="flex items-center gap-1.5 cursor-pointer" title={step === 'downscale' ? `Long side down to ${MAX_UPLOAD_DIMENSION}px` : undefined}>
+            <input
+              type="checkbox"
+              checked={preprocess[step]}
+              onChange={e => setPreprocess(prev => ({ ...prev, [step]: e.target.checked }))}
+              className="accent-zinc-900"
+            />
+            {PREPROCESS_STEPS[step]}
+          </label>
+        ))}
+        {cleaning > 0 && (
+          <span className="flex items-center gap-1 text-zinc-400">
+            <Loader2 className="w-3 h-3 animate-spin" />
+            Cleaning {cleaning}
+          </span>
+        )}
+      </div>
+
+      {selected.length > 1 && (
+        <button onClick={mergeSelected} className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-full bg-zinc-900 text-white hover:bg-zinc-800 transition-colors">
+          <Merge className="w-3 h-3" />
+          Group {selected.length} products as one
+        </button>
+      )}
+
+      {comparing && (
+        <PreprocessCompare view={comparing} onUse={version => pickVersion(comparing.id, version)} onClose={() => setComparingId(null)} />
+      )}
+
+      <div className="space-y-2">
+        {products.map(product => (
+          <div key={product.id} className={cn("p-2 rounded-xl border bg-white space-y-2", selected.includes(product.id) ? "border-zinc-900" : "border-zinc-100")}>
+            <div className="flex items-start gap-3">
+              <input type="checkbox" checked={selected.includes(product.id)} onChange={() => toggleSelected(product.id)} className="mt-4 accent-zinc-900" title="Select to group" />
+              <div className="flex gap-1.5 shrink-0">
+                {product.views.map(view => (
+                  <div key={view.id} className="relative w-12 h-12 rounded-lg overflow-hidden group border border-zinc-100" title={view.label}>
+                    <img src={view.preview} className="w-full h-full object-cover" />
+                    {view.label && <span className="absolute bottom-0 inset-x-0 bg-zinc-900/70 text-[8px] text-white text-center truncate">{view.label}</span>}
+                    {view.base64 === view.cleaned?.base64 && (
+                      <Wand2 className="absolute top-0.5 right-0.5 w-2.5 h-2.5 text-white drop-shadow" />
+                    )}
+                    <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 flex items-center justify-center gap-1 text-white transition-opacity">
+                      {view.cleaned && (
+                        <button onClick={() => setComparingId(view.id)} title="Compare with the original">
+                          <Columns2 className="w-3 h-3" />
+                        </button>
+                      )}
+                      <button onClick={() => removeView(product, view.id)} title="Remove photo">
+                        <X className="w-3 h-3" />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <div className="flex-1 min-w-0 space-y-1.5">
+                <div className="flex gap-1.5">
+                  <input value={product.sku} onChange={e => update(product.id, { sku: e.target.value })} placeholder="SKU" className={inputClass} />
+                  <input value={product.colorway} onChange={e => update(product.id, { colorway: e.target.value })} placeholder="Colorway" className={inputClass} />
+                </div>
+                <div className="flex gap-1.5">
+                  <input value={product.name} onChange={e => update(product.id, { name: e.target.value })} placeholder="Product name" className={inputClass} />
+                  <input value={product.notes} onChange={e => update(product.id, { notes: e.target.value })} placeholder="Notes" className={inputClass} />
+                </div>
+              </div>
+              <div className="flex flex-col text-zinc-400">
+                <button
+                  onClick={() => setOutfitOpenId(outfitOpenId === product.id ? null : product.id)}
+                  className={cn("relative p-1 hover:text-zinc-900", (outfitOpenId === product.id || product.outfit.length > 0) && "text-zinc-900")}
+                  title="Outfit: pieces worn with the cardigan"
+                >
+                  <Shirt className="w-3.5 h-3.5" />
+                  {product.outfit.length > 0 && (
+                    <span className="absolute -top-0.5 -right-0.5 text-[8px] font-bold">{product.outfit.length}</span>
+                  )}
+                </button>
+                {product.views.length > 1 && (
+                  <button onClick={() => split(product)} className="p-1 hover:text-zinc-900" title="Split into one product per photo">
+                    <Split className="w-3.5 h-3.5" />
+                  </button>
+                )}
+                <button onClick={() => onChange(products.filter(p => p !== product))} className="p-1 hover:text-red-600" title="Remove product">
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            </div>
+            {outfitOpenId === product.id && (
+              <OutfitBuilder
+                outfit={product.outfit}
+                onChange={outfit => update(product.id, { outfit })}
+                onCopyToAll={products.length > 1 ? () => onChange(products.map(p => ({ ...p, outfit: product.outfit }))) : undefined}
+              />
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { FileText, Save, Trash2, Undo2 } from 'lucide-react';
+import {
+  buildShotParts,
+  DEFAULT_TEMPLATE,
+  type ShotInput,
+  TEMPLATE_FIELDS,
+  TEMPLATE_VARIABLES,
+  validateTemplateBody
+} from '../core/prompt.ts';
+import type { PromptTemplate, PromptTemplateBody, PromptVariables, SavePromptTemplateRequest, TemplateRef } from '../core/types.ts';
+import { cn } from '../lib/utils.ts';
+
+interface PromptTemplatePanelProps {
+  templates: PromptTemplate[];
+  selection: TemplateRef;
+  onSelectionChange: (selection: TemplateRef) => void;
+  variables: PromptVariables;
+  onVariablesChange: (variables: PromptVariables) => void;
+  /** First shot of the first product, with object URLs for images. Null until inputs exist. */
+  preview: ShotInput<string> | null;
+  onSave: (request: SavePromptTemplateRequest, id?: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const inputClass = "w-full px-2 py-1.5 text-xs rounded-lg border border-zinc-200 bg-white focus:outline-none focus:border-zinc-900";
+
+export default function PromptTemplatePanel({
+  templates,
+  selection,
+  onSelectionChange,
+  variables,
+  onVariablesChange,
+  preview,
+  onSave,
+  onDelete
+}: PromptTemplatePanelProps) {
+  const selected = templates.find(t => t.id === selection.id && t.version === selection.version) ?? DEFAULT_TEMPLATE;
+  const versions = templates.filter(t => t.id === selected.id).sort((a, b) => b.version - a.version);
+  // One entry per template, named after its newest version.
+  const families = templates.filter(t => !templates.some(other => other.id === t.id && other.version > t.version));
+
+  const [draft, setDraft] = useState<PromptTemplateBody>(selected.body);
+  const [copyName, setCopyName] = useState('');
+
+  useEffect(() => setDraft(selected.body), [selected.id, selected.version]);
+
+  const isDirty = TEMPLATE_FIELDS.some(({ key }) => draft[key] !== selected.body[key]);
+  const draftError = validateTemplateBody(draft);
+  const parts = preview && !draftError ? buildShotParts(draft, preview) : [];
+
+  const selectTemplate = (id: string) => {
+    const latest = families.find(t => t.id === id);
+    if (latest) onSelectionChange({ id, version: latest.version });
+  };
+
+  const saveCopy = () => {
+    if (!copyName.trim()) return;
+    onSave({ name: copyName.trim(), body: draft });
+    setCopyName('');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <FileText className="w-4 h-4 text-zinc-400" />
+          <h2 className="font-medium text-[10px] text-zinc-500 uppercase tracking-widest">5. Prompt Template</h2>
+        </div>
+        <div className="flex items-center gap-2">
+          <select value={selected.id} onChange={e => selectTemplate(e.target.value)} className={inputClass}>
+            {families.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+          </select>
+          <select
+            value={selected.version}
+            onChange={e => onSelectionChange({ id: selected.id, version: Number(e.target.value) })}
+            className={cn(inputClass, "w-20")}
+          >
+            {versions.map(t => <option key={t.version} value={t.version}>v{t.version}</option>)}
+          </select>
+          {!selected.builtIn && (
+            <button onClick={() => onDelete(selected.id)} className="p-1.5 text-zinc-400 hover:text-red-600 transition-colors" title="Delete template and all versions">
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="space-y-3">
+          {TEMPLATE_FIELDS.map(({ key, label }) => (
+            <label key={key} className="block space-y-1">
+              <span className="text-[10px] font-medium text-zinc-400 uppercase tracking-widest">{label}</span>
+              <textarea
+                value={draft[key]}
+                onChange={e => setDraft(prev => ({ ...prev, [key]: e.target.value }))}
+                rows={key === 'system' ? 8 : 2}
+                className={cn(inputClass, "font-mono resize-y")}
+              />
+            </label>
+          ))}
+          <p className="text-[10px] text-zinc-400">
+            Variables: {TEMPLATE_VARIABLES.map(name => `{{${name}}}`).join(' ')}. Wrap optional text in {'{{#season}}…{{/season}}'} to drop it when the value is empty.
+          </p>
+          {draftError && <p className="text-xs text-red-600">{draftError}</p>}
+
+          {isDirty && (
+            <div className="flex flex-wrap items-center gap-2">
+              {!selected.builtIn && (
+                <button
+                  onClick={() => onSave({ name: selected.name, body: draft }, selected.id)}
+                  disabled={!!draftError}
+                  className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-full bg-zinc-900 text-white hover:bg-zinc-800 disabled:opacity-40 transition-colors"
+                >
+                  <Save className="w-3 h-3" />
+                  Save as v{versions[0].version + 1}
+                </button>
+              )}
+              <input value={copyName} onChange={e => setCopyName(e.target.value)} placeholder="New template name" className={cn(inputClass, "w-40")} />
+              <button
+                onClick={saveCopy}
+                disabled={!!draftError || !copyName.trim()}
+                className="px-3 py-1.5 text-xs font-medium rounded-full border border-zinc-200 text-zinc-600 hover:bg-zinc-50 disabled:opacity-40 transition-colors"
+              >
+                Save as new
+              </button>
+              <button onClick={() => setDraft(selected.body)} className="p-1.5 text-zinc-400 hover:text-zinc-900 transition-colors" title="Discard edits">
+                <Undo2 className="w-3.5 h-3.5" />
+              </button>
+              <span className="text-[10px] text-zinc-400">Sessions use the saved version, not unsaved edits.</span>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-2 pt-2">
+            <input
+              value={variables.season ?? ''}
+              onChange={e => onVariablesChange({ ...variables, season: e.target.value || undefined })}
+              placeholder="Season, e.g. Autumn/Winter"
+              className={inputClass}
+            />
+            <input
+              value={variables.backgroundNote ?? ''}
+              onChange={e => onVariablesChange({ ...variables, backgroundNote: e.target.value || undefined })}
+              placeholder="Background note"
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <span className="text-[10px] font-medium text-zinc-400 uppercase tracking-widest">Preview · first shot of the first product</span>
+          {!preview ? (
+            <p className="text-xs text-zinc-400">Add a scene and a product to preview the prompt.</p>
+          ) : (
+            <ol className="space-y-2 max-h-[32rem] overflow-y-auto">
+              {parts.map((part, i) => (
+                <li key={i} className="rounded-xl border border-zinc-100 bg-white p-2">
+                  {'text' in part
+                    ? <p className="text-xs text-zinc-700 whitespace-pre-wrap">{part.text}</p>
+                    : <img src={part.inlineData} className="h-16 rounded-lg object-cover" />}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
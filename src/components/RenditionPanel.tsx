@@ -0,0 +1,140 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { Plus, Scaling, X } from 'lucide-react';
+import {
+  DEFAULT_RENDITIONS,
+  MAX_RENDITION_WIDTH,
+  MAX_RENDITION_WIDTHS,
+  MIN_RENDITION_WIDTH,
+  RENDITION_FORMATS,
+  renditionSpecs
+} from '../core/renditions.ts';
+import type { RenditionFormat, RenditionSettings } from '../core/types.ts';
+import { cn } from '../lib/utils.ts';
+
+interface RenditionPanelProps {
+  settings: RenditionSettings;
+  onChange: (settings: RenditionSettings) => void;
+}
+
+const FORMATS = Object.keys(RENDITION_FORMATS) as RenditionFormat[];
+const THUMBNAIL_SIZES = [200, 300, 400, 600, 800];
+
+const inputClass = "px-2 py-1 text-xs rounded-lg border border-zinc-200 bg-white focus:outline-none focus:border-zinc-900";
+
+const isWidth = (n: number) => Number.isInteger(n) && n >= MIN_RENDITION_WIDTH && n <= MAX_RENDITION_WIDTH;
+
+export default function RenditionPanel({ settings, onChange }: RenditionPanelProps) {
+  const [newWidth, setNewWidth] = useState('');
+  const specs = renditionSpecs(settings);
+
+  const addWidth = () => {
+    const width = Number(newWidth);
+    if (!isWidth(width) || settings.widths.includes(width)) return;
+    onChange({ ...settings, widths: [...settings.widths, width].sort((a, b) => b - a) });
+    setNewWidth('');
+  };
+
+  const toggleFormat = (format: RenditionFormat) => onChange({
+    ...settings,
+    formats: settings.formats.includes(format)
+      ? settings.formats.filter(f => f !== format)
+      : FORMATS.filter(f => f === format || settings.formats.includes(f))
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Scaling className="w-4 h-4 text-zinc-400" />
+          <h2 className="font-medium text-[10px] text-zinc-500 uppercase tracking-widest">6. Output Renditions</h2>
+        </div>
+        <button onClick={() => onChange(DEFAULT_RENDITIONS)} className="text-[10px] text-zinc-500 font-medium hover:text-zinc-900">
+          Reset
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 text-xs">
+        <div className="space-y-2">
+          <span className="text-[10px] font-medium text-zinc-400 uppercase tracking-widest">Widths (px)</span>
+          <div className="flex flex-wrap items-center gap-1.5">
+            {settings.widths.map(width => (
+              <span key={width} className="flex items-center gap-1 pl-2.5 pr-1 py-1 rounded-full bg-zinc-100 text-zinc-700 font-medium">
+                {width}
+                <button onClick={() => onChange({ ...settings, widths: settings.widths.filter(w => w !== width) })} className="p-0.5 text-zinc-400 hover:text-zinc-900" title="Remove width">
+                  <X className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
+            {settings.widths.length < MAX_RENDITION_WIDTHS && (
+              <span className="flex items-center gap-1">
+                <input
+                  value={newWidth}
+                  onChange={e => setNewWidth(e.target.value.replace(/\D/g, ''))}
+                  onKeyDown={e => e.key === 'Enter' && addWidth()}
+                  placeholder="Width"
+                  className={cn(inputClass, "w-16")}
+                />
+                <button onClick={addWidth} disabled={!isWidth(Number(newWidth))} className="p-1 text-zinc-400 hover:text-zinc-900 disabled:opacity-40" title="Add width">
+                  <Plus className="w-3.5 h-3.5" />
+                </button>
+              </span>
+            )}
+          </div>
+          <p className="text-[10px] text-zinc-400">Images are never upscaled; wider sizes come out once, at the generated width.</p>
+        </div>
+
+        <div className="space-y-2">
+          <span className="text-[10px] font-medium text-zinc-400 uppercase tracking-widest">Formats & quality</span>
+          {FORMATS.map(format => (
+            <label key={format} className="flex items-center gap-2">
+              <input type="checkbox" checked={settings.formats.includes(format)} onChange={() => toggleFormat(format)} className="accent-zinc-900" />
+              <span className="w-10 font-medium text-zinc-700">{RENDITION_FORMATS[format].label}</span>
+              <input
+                type="range"
+                min={1}
+                max={100}
+                value={settings.quality[format]}
+                disabled={!settings.formats.includes(format)}
+                onChange={e => onChange({ ...settings, quality: { ...settings.quality, [format]: Number(e.target.value) } })}
+                className="flex-1 accent-zinc-900"
+              />
+              <span className="w-6 text-right text-zinc-500">{settings.quality[format]}</span>
+            </label>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <span className="text-[10px] font-medium text-zinc-400 uppercase tracking-widest">Square thumbnail</span>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={settings.thumbnailSize !== undefined}
+              onChange={e => onChange({ ...settings, thumbnailSize: e.target.checked ? DEFAULT_RENDITIONS.thumbnailSize : undefined })}
+              className="accent-zinc-900"
+            />
+            <select
+              value={settings.thumbnailSize ?? DEFAULT_RENDITIONS.thumbnailSize}
+              disabled={settings.thumbnailSize === undefined}
+              onChange={e => onChange({ ...settings, thumbnailSize: Number(e.target.value) })}
+              className={cn(inputClass, "w-20")}
+            >
+              {THUMBNAIL_SIZES.map(size => <option key={size} value={size}>{size}</option>)}
+            </select>
+            <span className="text-zinc-400">px, cropped around the subject</span>
+          </label>
+        </div>
+      </div>
+
+      <p className="text-[10px] text-zinc-400">
+        {specs.length === 0
+          ? "Only the original image is kept."
+          : `${specs.length} files per image besides the original: ${specs.map(spec => spec.name).join(', ')}.`}
+      </p>
+    </div>
+  );
+}
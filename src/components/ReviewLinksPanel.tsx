@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { Check, Copy, ExternalLink, Link2, Trash2 } from 'lucide-react';
+import type { ReviewLink } from '../core/types.ts';
+import { reviewPageUrl } from '../lib/api.ts';
+
+interface ReviewLinksPanelProps {
+  links: ReviewLink[];
+  canShare: boolean; // only finished sessions can be shared
+  onCreate: () => Promise<void>;
+  onRevoke: (token: string) => Promise<void>;
+}
+
+const iconButton = "p-1.5 rounded-full border border-zinc-200 text-zinc-500 hover:text-zinc-900 hover:bg-zinc-50 transition-colors";
+
+/** The session's review links: each opens a read-only page where a client approves, rejects and comments. */
+export default function ReviewLinksPanel({ links, canShare, onCreate, onRevoke }: ReviewLinksPanelProps) {
+  const [copied, setCopied] = useState<string | null>(null);
+
+  const copy = async (token: string) => {
+    await navigator.clipboard.writeText(reviewPageUrl(token));
+    setCopied(token);
+  };
+
+  return (
+    <div className="p-4 rounded-2xl border border-zinc-100 bg-zinc-50/50 space-y-3">
+      <div className="flex items-center justify-between">
+        <h2 className="font-medium text-[10px] text-zinc-500 uppercase tracking-widest">Review links</h2>
+        <button
+          onClick={onCreate}
+          disabled={!canShare}
+          className="flex items-center gap-1.5 px-3 py-1.5 text-[10px] font-bold rounded-full bg-zinc-900 text-white hover:bg-zinc-800 disabled:opacity-40 transition-colors"
+          title={canShare ? undefined : "Only finished sessions can be shared for review"}
+        >
+          <Link2 className="w-3 h-3" />
+          New link
+        </button>
+      </div>
+      <p className="text-[10px] text-zinc-400">
+        Anyone holding a link sees this session's images and can approve, reject and comment on them; their decisions show up here.
+        Revoking a link closes the page. The rest of the studio has no login, so only share links when it runs behind your own authentication.
+      </p>
+      {links.length > 0 && (
+        <ul className="space-y-1.5">
+          {links.map(link => (
+            <li key={link.token} className="flex items-center gap-1.5">
+              <input
+                readOnly
+                value={reviewPageUrl(link.token)}
+                onFocus={e => e.target.select()}
+                className="flex-1 min-w-0 px-2 py-1 text-xs font-mono rounded-lg border border-zinc-200 bg-white text-zinc-600 focus:outline-none"
+              />
+              <span className="text-[10px] text-zinc-400 whitespace-nowrap">{new Date(link.createdAt).toLocaleDateString()}</span>
+              <button onClick={() => copy(link.token)} className={iconButton} title="Copy link">
+                {copied === link.token ? <Check className="w-3 h-3 text-emerald-600" /> : <Copy className="w-3 h-3" />}
+              </button>
+              <a href={reviewPageUrl(link.token)} target="_blank" rel="noreferrer" className={iconButton} title="Open the review page">
+                <ExternalLink className="w-3 h-3" />
+              </a>
+              <button onClick={() => onRevoke(link.token)} className="p-1.5 rounded-full border border-zinc-200 text-red-600 hover:bg-red-50 transition-colors" title="Revoke link">
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { AlertCircle, Camera, Check, Loader2, Send, X } from 'lucide-react';
+import { productLabel } from '../core/products.ts';
+import { MAX_REVIEWER_NAME_LENGTH, REVIEW_STATUSES } from '../core/settings.ts';
+import type { ReviewStatus, SharedReview, SharedShot } from '../core/types.ts';
+import { commentOnSharedShot, getSharedReview, imageUrl, previewUrl, reviewSharedShot } from '../lib/api.ts';
+import { cn, cssAspect } from '../lib/utils.ts';
+
+interface ReviewPortalProps {
+  token: string;
+}
+
+// Remembered per browser so a reviewer types their name once.
+const REVIEWER_KEY = 'cardigan.reviewer';
+
+const REVIEW_BUTTONS: { review: ReviewStatus; icon: typeof Check; active: string }[] = [
+  { review: 'approved', icon: Check, active: "bg-emerald-600 border-emerald-600 text-white" },
+  { review: 'rejected', icon: X, active: "bg-red-600 border-red-600 text-white" },
+];
+
+const inputClass = "w-full px-2 py-1 text-xs rounded-lg border border-zinc-200 bg-white focus:outline-none focus:border-zinc-900";
+const iconButton = "p-1.5 rounded-full border border-zinc-200 text-zinc-500 hover:text-zinc-900 hover:bg-zinc-50 disabled:opacity-40 transition-colors";
+
+interface SharedShotCardProps {
+  shot: SharedShot;
+  canAct: boolean; // false until the reviewer has given their name
+  onReview: (review: ReviewStatus | null) => Promise<void>;
+  onComment: (body: string) => Promise<void>;
+}
+
+function SharedShotCard({ shot, canAct, onReview, onComment }: SharedShotCardProps) {
+  const [comment, setComment] = useState('');
+
+  const submitComment = async () => {
+    if (!comment.trim() || !canAct) return;
+    await onComment(comment.trim());
+    setComment('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <a
+        href={imageUrl(shot.imageId)}
+        target="_blank"
+        rel="noreferrer"
+        style={{ aspectRatio: cssAspect(shot.aspectRatio) }}
+        className="relative block rounded-3xl overflow-hidden bg-zinc-100 card-shadow border border-zinc-100"
+        title="Open full size"
+      >
+        <img src={previewUrl(shot.imageId, shot.renditions)} className="w-full h-full object-cover" />
+        {shot.review && (
+          <span className={cn(
+            "absolute top-3 left-3 px-2 py-0.5 rounded-full text-[10px] font-bold text-white",
+            shot.review === 'approved' ? "bg-emerald-600" : shot.review === 'rejected' ? "bg-red-600" : "bg-amber-500"
+          )}>
+            {REVIEW_STATUSES[shot.review]}{shot.reviewedBy && ` · ${shot.reviewedBy}`}
+          </span>
+        )}
+      </a>
+      <div className="flex items-center gap-1">
+        {REVIEW_BUTTONS.map(({ review, icon: Icon, active }) => (
+          <button
+            key={review}
+            onClick={() => onReview(shot.review === review ? null : review)}
+            disabled={!canAct}
+            className={cn(iconButton, shot.review === review && active)}
+            title={REVIEW_STATUSES[review]}
+          >
+            <Icon className="w-3 h-3" />
+          </button>
+        ))}
+      </div>
+      {shot.comments.length > 0 && (
+        <ul className="space-y-1">
+          {shot.comments.map((c, i) => (
+            <li key={i} className="text-xs text-zinc-700">
+              {c.author && <span className="font-medium">{c.author}: </span>}
+              {c.body}
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="flex items-center gap-1.5">
+        <input
+          value={comment}
+          onChange={e => setComment(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && submitComment()}
+          disabled={!canAct}
+          placeholder="Add a comment"
+          className={inputClass}
+        />
+        <button onClick={submitComment} disabled={!canAct || !comment.trim()} className={iconButton} title="Post comment">
+          <Send className="w-3 h-3" />
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * The page a review link opens. It needs no API key or account, and decisions
+ * land straight in the session. The token only gates the `/api/review` routes;
+ * the rest of the API is open to anyone who can reach the server.
+ */
+export default function ReviewPortal({ token }: ReviewPortalProps) {
+  const [review, setReview] = useState<SharedReview | null>(null);
+  const [reviewer, setReviewer] = useState(() => localStorage.getItem(REVIEWER_KEY) ?? '');
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getSharedReview(token).then(setReview, (error: Error) => setLoadError(error.message));
+  }, [token]);
+
+  const updateReviewer = (name: string) => {
+    setReviewer(name);
+    localStorage.setItem(REVIEWER_KEY, name.trim());
+  };
+
+  // Every action answers with the whole review, so the page follows other reviewers too.
+  const act = async (action: () => Promise<SharedReview>) => {
+    try {
+      setActionError(null);
+      setReview(await action());
+    } catch (error: any) {
+      setActionError(error.message);
+    }
+  };
+
+  if (!review) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-6">
+        {loadError ? (
+          <p className="flex items-center gap-2 text-sm text-zinc-500">
+            <AlertCircle className="w-4 h-4 text-red-600" />
+            {loadError}
+          </p>
+        ) : (
+          <Loader2 className="w-6 h-6 animate-spin text-zinc-300" />
+        )}
+      </div>
+    );
+  }
+
+  const shots = review.products.flatMap(product => product.shots);
+  const approved = shots.filter(shot => shot.review === 'approved').length;
+  const name = reviewer.trim();
+
+  return (
+    <div className="min-h-screen pb-20">
+      <header className="sticky top-0 z-50 glass border-b border-zinc-100 px-6 py-4">
+        <div className="max-w-7xl mx-auto flex items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-zinc-900 rounded-xl flex items-center justify-center">
+              <Camera className="text-white w-5 h-5" />
+            </div>
+            <div>
+              <h1 className="font-serif font-bold text-lg leading-tight">{review.name}</h1>
+              <p className="text-[10px] text-zinc-500 uppercase tracking-widest font-medium">
+                Review · {approved} of {shots.length} approved
+              </p>
+            </div>
+          </div>
+          <input
+            value={reviewer}
+            onChange={e => updateReviewer(e.target.value)}
+            maxLength={MAX_REVIEWER_NAME_LENGTH}
+            placeholder="Your name"
+            className={cn(inputClass, "max-w-48 py-1.5", !name && "border-amber-400")}
+          />
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-6 py-8 space-y-12">
+        {!name && <p className="text-xs text-amber-600 font-medium">Add your name to approve, reject or comment.</p>}
+        {actionError && (
+          <p className="flex items-center gap-2 text-xs text-red-600 font-medium">
+            <AlertCircle className="w-3 h-3" />
+            {actionError}
+          </p>
+        )}
+
+        {review.products.map((product, idx) => product.shots.length > 0 && (
+          <section key={product.jobId} className="space-y-6">
+            <div>
+              <h2 className="font-serif font-bold text-lg">{productLabel(product, idx)}</h2>
+              {(product.sku || product.colorway) && (
+                <p className="text-[10px] text-zinc-400 uppercase tracking-widest font-medium">
+                  {[product.sku, product.colorway].filter(Boolean).join(' · ')}
+                </p>
+              )}
+            </div>
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-6">
+              {product.shots.map(shot => (
+                <React.Fragment key={shot.index}>
+                  <SharedShotCard
+                    shot={shot}
+                    canAct={!!name}
+                    onReview={status => act(() => reviewSharedShot(token, product.jobId, shot.index, status, name))}
+                    onComment={body => act(() => commentOnSharedShot(token, product.jobId, shot.index, body, name))}
+                  />
+                </React.Fragment>
+              ))}
+            </div>
+          </section>
+        ))}
+      </main>
+    </div>
+  );
+}
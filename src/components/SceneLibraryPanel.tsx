@@ -0,0 +1,175 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { Camera, Image as ImageIcon, Tag, Trash2 } from 'lucide-react';
+import { useDropzone } from 'react-dropzone';
+import { matchesSceneFilter, SCENE_TAG_KINDS, SCENE_TAGS, sceneTagValues } from '../core/scenes.ts';
+import type { LibraryScene, SceneTags } from '../core/types.ts';
+import { imageUrl } from '../lib/api.ts';
+import { cn } from '../lib/utils.ts';
+
+interface SceneLibraryPanelProps {
+  scenes: LibraryScene[];
+  /** Library scene ids used by the next session, in the order shots cycle through them. */
+  selection: string[];
+  onSelectionChange: (selection: string[]) => void;
+  onUpload: (files: File[]) => void;
+  onSave: (id: string, name: string, tags: SceneTags) => Promise<void>;
+  onDelete: (id: string) => void;
+}
+
+const inputClass = "px-2 py-1 text-xs rounded-lg border border-zinc-200 bg-white focus:outline-none focus:border-zinc-900";
+
+export default function SceneLibraryPanel({
+  scenes,
+  selection,
+  onSelectionChange,
+  onUpload,
+  onSave,
+  onDelete
+}: SceneLibraryPanelProps) {
+  const [filter, setFilter] = useState<SceneTags>({});
+  const [editing, setEditing] = useState<{ id: string; name: string; tags: SceneTags } | null>(null);
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop: (files: File[]) => onUpload(files),
+    accept: { 'image/*': [] },
+    multiple: true
+  } as any);
+
+  const isFiltered = SCENE_TAG_KINDS.some(kind => filter[kind]);
+  const visible = scenes.filter(scene => matchesSceneFilter(scene, filter));
+
+  const toggle = (id: string) => onSelectionChange(
+    selection.includes(id) ? selection.filter(existing => existing !== id) : [...selection, id]
+  );
+
+  const save = async () => {
+    if (!editing || !editing.name.trim()) return;
+    await onSave(editing.id, editing.name.trim(), editing.tags);
+    setEditing(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <ImageIcon className="w-4 h-4 text-zinc-400" />
+          <h2 className="font-medium text-[10px] text-zinc-500 uppercase tracking-widest">1. Studio Scenes (Location & Pose)</h2>
+        </div>
+        <span className="text-[10px] font-bold text-zinc-400">{selection.length} of {scenes.length} in use</span>
+      </div>
+
+      <div {...getRootProps()} className={cn("border-2 border-dashed rounded-2xl p-6 text-center cursor-pointer transition-colors", isDragActive ? "bg-zinc-50 border-zinc-900" : "border-zinc-100 hover:border-zinc-200")}>
+        <input {...getInputProps()} />
+        <Camera className="w-6 h-6 text-zinc-300 mx-auto mb-2" />
+        <p className="text-sm font-medium">Drop pose/background references</p>
+        <p className="text-xs text-zinc-400 mt-1">They are saved to the scene library and used in this session</p>
+      </div>
+
+      {scenes.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1.5">
+          {SCENE_TAG_KINDS.map(kind => (
+            <select
+              key={kind}
+              value={filter[kind] ?? ''}
+              onChange={e => setFilter(prev => ({ ...prev, [kind]: e.target.value || undefined }))}
+              className={inputClass}
+            >
+              <option value="">Any {SCENE_TAGS[kind].label.toLowerCase()}</option>
+              {sceneTagValues(scenes, kind).map(value => <option key={value} value={value}>{value}</option>)}
+            </select>
+          ))}
+          <button
+            onClick={() => onSelectionChange(visible.map(scene => scene.id))}
+            disabled={visible.length === 0}
+            className="px-2.5 py-1 text-[10px] font-bold rounded-full bg-zinc-900 text-white hover:bg-zinc-800 disabled:opacity-40 transition-colors"
+          >
+            Use {isFiltered ? `${visible.length} matching` : "all"}
+          </button>
+          {selection.length > 0 && (
+            <button onClick={() => onSelectionChange([])} className="text-[10px] text-zinc-500 font-medium hover:text-zinc-900">
+              Clear
+            </button>
+          )}
+        </div>
+      )}
+
+      <div className="grid grid-cols-4 sm:grid-cols-6 gap-3">
+        {visible.map(scene => {
+          const order = selection.indexOf(scene.id);
+          const tags = SCENE_TAG_KINDS.flatMap(kind => scene.tags[kind] ? [scene.tags[kind]] : []);
+          return (
+            <div key={scene.id} className="space-y-1">
+              <div className={cn("relative aspect-square rounded-xl overflow-hidden group border-2 transition-colors", order >= 0 ? "border-zinc-900" : "border-transparent")}>
+                <button onClick={() => toggle(scene.id)} className="block w-full h-full" title={order >= 0 ? "Remove from this session" : "Use in this session"}>
+                  <img src={imageUrl(scene.imageId)} className={cn("w-full h-full object-cover", order < 0 && "opacity-60")} />
+                </button>
+                {order >= 0 && (
+                  <span className="absolute top-1 left-1 w-5 h-5 rounded-full bg-zinc-900 text-white text-[10px] font-bold flex items-center justify-center">
+                    {order + 1}
+                  </span>
+                )}
+                <div className="absolute top-1 right-1 flex gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button onClick={() => setEditing({ id: scene.id, name: scene.name, tags: scene.tags })} className="p-1 rounded-md bg-white/90 text-zinc-600 hover:text-zinc-900" title="Edit name and tags">
+                    <Tag className="w-3 h-3" />
+                  </button>
+                  <button onClick={() => onDelete(scene.id)} className="p-1 rounded-md bg-white/90 text-zinc-600 hover:text-red-600" title="Delete from library">
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </div>
+              </div>
+              <p className="text-[10px] font-medium text-zinc-700 truncate" title={scene.name}>{scene.name}</p>
+              {tags.length > 0 && <p className="text-[9px] text-zinc-400 truncate" title={tags.join(' · ')}>{tags.join(' · ')}</p>}
+            </div>
+          );
+        })}
+      </div>
+      {scenes.length > 0 && visible.length === 0 && <p className="text-xs text-zinc-400">No scene has all of these tags.</p>}
+
+      {editing && (
+        <div className="p-3 rounded-2xl border border-zinc-100 bg-white space-y-2">
+          <input
+            value={editing.name}
+            onChange={e => setEditing({ ...editing, name: e.target.value })}
+            placeholder="Scene name"
+            className={cn(inputClass, "w-full")}
+          />
+          <div className="grid grid-cols-2 gap-2">
+            {SCENE_TAG_KINDS.map(kind => (
+              <label key={kind} className="space-y-0.5">
+                <span className="text-[10px] font-medium text-zinc-400 uppercase tracking-widest">{SCENE_TAGS[kind].label}</span>
+                <input
+                  list={`scene-tag-${kind}`}
+                  value={editing.tags[kind] ?? ''}
+                  onChange={e => setEditing({ ...editing, tags: { ...editing.tags, [kind]: e.target.value || undefined } })}
+                  className={cn(inputClass, "w-full")}
+                />
+                <datalist id={`scene-tag-${kind}`}>
+                  {[...new Set([...SCENE_TAGS[kind].suggestions, ...sceneTagValues(scenes, kind)])].map(value => (
+                    <option key={value} value={value} />
+                  ))}
+                </datalist>
+              </label>
+            ))}
+          </div>
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setEditing(null)} className="px-3 py-1 text-xs font-medium text-zinc-500 hover:text-zinc-900">
+              Cancel
+            </button>
+            <button
+              onClick={save}
+              disabled={!editing.name.trim()}
+              className="px-3 py-1 rounded-lg bg-zinc-900 text-white text-xs font-medium hover:bg-zinc-800 disabled:opacity-40 transition-colors"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { alignSceneOrder, resolveSceneIndex } from '../core/shotPlan.ts';
+import type { SceneOrder, ShotPlan } from '../core/types.ts';
+import { cn } from '../lib/utils.ts';
+
+interface MatrixItem {
+  id: string;
+  preview: string;
+  name?: string;
+}
+
+interface SceneMatrixProps {
+  batchPlan: ShotPlan;
+  overrides: Record<string, ShotPlan>;
+  targets: MatrixItem[];
+  scenes: MatrixItem[];
+  sceneOrder: SceneOrder;
+  onSceneOrderChange: (order: SceneOrder) => void;
+  onBatchPlanChange: (plan: ShotPlan) => void;
+  onOverrideChange: (targetId: string, plan: ShotPlan) => void;
+}
+
+const pinScene = (plan: ShotPlan, slot: number, sceneIndex?: number): ShotPlan => ({
+  shots: plan.shots.map((shot, i) => i === slot ? { ...shot, sceneIndex } : shot),
+});
+
+/**
+ * Products down, shot slots across; each cell shows the scene that shot will
+ * use. With one shared scene order only the batch row can be edited.
+ */
+export default function SceneMatrix({
+  batchPlan,
+  overrides,
+  targets,
+  scenes,
+  sceneOrder,
+  onSceneOrderChange,
+  onBatchPlanChange,
+  onOverrideChange
+}: SceneMatrixProps) {
+  const slotCount = Math.max(batchPlan.shots.length, ...Object.values(overrides).map(plan => plan.shots.length));
+
+  const cell = (plan: ShotPlan, slot: number, offset: number, editable: boolean, onPin: (sceneIndex?: number) => void) => {
+    const shot = plan.shots[slot];
+    if (!shot) return <td key={slot} />;
+    // Pins to scenes since taken out of the session fall back to auto, as they will when it starts.
+    const pinned = shot.sceneIndex !== undefined && shot.sceneIndex < scenes.length ? shot.sceneIndex : undefined;
+    const sceneIndex = resolveSceneIndex({ ...shot, sceneIndex: pinned }, slot, scenes.length, offset);
+    return (
+      <td key={slot} className="p-1">
+        <div className={cn("w-14 space-y-1", pinned === undefined && "opacity-60")}>
+          <img src={scenes[sceneIndex].preview} className={cn("w-14 h-14 rounded-lg object-cover border-2", pinned !== undefined ? "border-zinc-900" : "border-transparent")} />
+          <select
+            value={pinned ?? ''}
+            disabled={!editable}
+            onChange={e => onPin(e.target.value === '' ? undefined : Number(e.target.value))}
+            className="w-full text-[10px] rounded border border-zinc-200 bg-white focus:outline-none disabled:bg-zinc-50"
+          >
+            <option value="">Auto</option>
+            {scenes.map((scene, i) => <option key={scene.id} value={i}>{i + 1}{scene.name ? ` · ${scene.name}` : ''}</option>)}
+          </select>
+        </div>
+      </td>
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span className="text-[10px] font-medium text-zinc-400 uppercase tracking-widest">Scene matrix</span>
+        <label className="flex items-center gap-2 text-xs text-zinc-600">
+          <input
+            type="checkbox"
+            checked={sceneOrder === 'same'}
+            onChange={e => onSceneOrderChange(e.target.checked ? 'same' : 'rotate')}
+            className="accent-zinc-900"
+          />
+          Same scenes in the same order for every product
+        </label>
+      </div>
+      <p className="text-[10px] text-zinc-400">
+        {sceneOrder === 'same'
+          ? "Every product follows the All products row, so the catalogue grid lines up."
+          : "Each product starts one scene further on; pin a cell to choose its scene."}
+      </p>
+
+      <div className="overflow-x-auto">
+        <table className="text-xs">
+          <thead>
+            <tr>
+              <th />
+              {Array.from({ length: slotCount }, (_, slot) => (
+                <th key={slot} className="p-1 text-[10px] font-bold text-zinc-400 text-left">#{slot + 1}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            <tr>
+              <td className="pr-2 text-[10px] font-bold text-zinc-500 whitespace-nowrap">All products</td>
+              {Array.from({ length: slotCount }, (_, slot) =>
+                cell(batchPlan, slot, 0, true, sceneIndex => onBatchPlanChange(pinScene(batchPlan, slot, sceneIndex))))}
+            </tr>
+            {targets.map((target, position) => {
+              const own = overrides[target.id] ?? batchPlan;
+              const plan = sceneOrder === 'same' ? alignSceneOrder(own, batchPlan) : own;
+              return (
+                <tr key={target.id}>
+                  <td className="pr-2">
+                    <img src={target.preview} title={target.name ?? `Product ${position + 1}`} className="w-9 h-9 rounded-lg object-cover" />
+                  </td>
+                  {Array.from({ length: slotCount }, (_, slot) =>
+                    cell(plan, slot, sceneOrder === 'rotate' ? position : 0, sceneOrder === 'rotate',
+                      sceneIndex => onOverrideChange(target.id, pinScene(own, slot, sceneIndex))))}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
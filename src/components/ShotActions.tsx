@@ -0,0 +1,127 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { Brush, Check, Copy, Loader2, MessageSquare, RefreshCw, Send, X } from 'lucide-react';
+import { MAX_VARIATIONS, REVIEW_STATUSES } from '../core/settings.ts';
+import type { ReviewStatus, ShotComment } from '../core/types.ts';
+import { cn } from '../lib/utils.ts';
+
+interface ShotActionsProps {
+  review?: ReviewStatus;
+  comments: ShotComment[];
+  note?: string;
+  /** The shot is queued or generating again; its current image stays until the new one lands. */
+  isBusy: boolean;
+  onRegenerate: (note?: string) => Promise<void>;
+  onVariations: (count: number) => Promise<void>;
+  onReview: (review: ReviewStatus | null) => Promise<void>;
+  onComment: (body: string) => Promise<void>;
+}
+
+const REVIEW_BUTTONS: { review: ReviewStatus; icon: typeof Check; active: string }[] = [
+  { review: 'approved', icon: Check, active: "bg-emerald-600 border-emerald-600 text-white" },
+  { review: 'rejected', icon: X, active: "bg-red-600 border-red-600 text-white" },
+  { review: 'retouch', icon: Brush, active: "bg-amber-500 border-amber-500 text-white" },
+];
+
+const inputClass = "w-full px-2 py-1 text-xs rounded-lg border border-zinc-200 bg-white focus:outline-none focus:border-zinc-900";
+const iconButton = "p-1.5 rounded-full border border-zinc-200 text-zinc-500 hover:text-zinc-900 hover:bg-zinc-50 disabled:opacity-40 transition-colors";
+
+/** Review status, comments and regenerate controls under one generated image. */
+export default function ShotActions({
+  review,
+  comments,
+  note,
+  isBusy,
+  onRegenerate,
+  onVariations,
+  onReview,
+  onComment
+}: ShotActionsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draftNote, setDraftNote] = useState(note ?? '');
+  const [variationCount, setVariationCount] = useState(2);
+  const [comment, setComment] = useState('');
+
+  const submitComment = async () => {
+    if (!comment.trim()) return;
+    await onComment(comment.trim());
+    setComment('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-1">
+        {REVIEW_BUTTONS.map(({ review: status, icon: Icon, active }) => (
+          <button
+            key={status}
+            onClick={() => onReview(review === status ? null : status)}
+            disabled={isBusy}
+            className={cn(iconButton, review === status && active)}
+            title={REVIEW_STATUSES[status]}
+          >
+            <Icon className="w-3 h-3" />
+          </button>
+        ))}
+        <div className="flex-1" />
+        {isBusy && <Loader2 className="w-3 h-3 animate-spin text-zinc-400" />}
+        <button onClick={() => onRegenerate()} disabled={isBusy} className={iconButton} title="Regenerate with the same inputs">
+          <RefreshCw className="w-3 h-3" />
+        </button>
+        <button onClick={() => setIsOpen(open => !open)} className={cn(iconButton, "flex items-center gap-1", isOpen && "border-zinc-900 text-zinc-900")} title="Notes, variations and comments">
+          <MessageSquare className="w-3 h-3" />
+          {comments.length > 0 && <span className="text-[10px] font-bold">{comments.length}</span>}
+        </button>
+      </div>
+
+      {isOpen && (
+        <div className="space-y-2 p-2 rounded-xl border border-zinc-100 bg-white">
+          <div className="space-y-1">
+            <textarea value={draftNote} onChange={e => setDraftNote(e.target.value)} rows={2} placeholder="Note for the next take, e.g. fix sleeve length" className={cn(inputClass, "resize-y")} />
+            <div className="flex items-center gap-1.5">
+              <button
+                onClick={() => onRegenerate(draftNote.trim() || undefined)}
+                disabled={isBusy || !draftNote.trim()}
+                className="flex items-center gap-1 px-2.5 py-1 text-[10px] font-bold rounded-full bg-zinc-900 text-white hover:bg-zinc-800 disabled:opacity-40 transition-colors"
+              >
+                <RefreshCw className="w-3 h-3" />
+                Regenerate with note
+              </button>
+              <select value={variationCount} onChange={e => setVariationCount(Number(e.target.value))} className={cn(inputClass, "w-12")}>
+                {Array.from({ length: MAX_VARIATIONS }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+              <button
+                onClick={() => onVariations(variationCount)}
+                className="flex items-center gap-1 px-2.5 py-1 text-[10px] font-bold rounded-full border border-zinc-200 text-zinc-600 hover:bg-zinc-50 transition-colors"
+              >
+                <Copy className="w-3 h-3" />
+                Variations
+              </button>
+            </div>
+          </div>
+
+          {comments.length > 0 && (
+            <ul className="space-y-1 max-h-32 overflow-y-auto">
+              {comments.map((c, i) => (
+                <li key={i} className="text-xs text-zinc-700">
+                  {c.author && <span className="font-medium">{c.author}: </span>}
+                  {c.body}
+                  <span className="ml-1.5 text-[10px] text-zinc-400">{new Date(c.createdAt).toLocaleString()}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="flex items-center gap-1.5">
+            <input value={comment} onChange={e => setComment(e.target.value)} onKeyDown={e => e.key === 'Enter' && submitComment()} placeholder="Add a comment" className={inputClass} />
+            <button onClick={submitComment} disabled={!comment.trim()} className={iconButton} title="Post comment">
+              <Send className="w-3 h-3" />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
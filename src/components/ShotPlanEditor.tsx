@@ -0,0 +1,211 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { LayoutGrid, Plus, Save, Trash2, X } from 'lucide-react';
+import { ASPECT_RATIOS, IMAGE_SIZES, MAX_SHOTS_PER_TARGET } from '../core/shotPlan.ts';
+import type { AspectRatio, ImageSize, SceneOrder, ShotPlan, ShotPlanPreset, ShotSpec } from '../core/types.ts';
+import { cn } from '../lib/utils.ts';
+import SceneMatrix from './SceneMatrix.tsx';
+
+interface PlanTarget {
+  id: string;
+  preview: string;
+  name?: string;
+}
+
+interface ShotPlanEditorProps {
+  batchPlan: ShotPlan;
+  overrides: Record<string, ShotPlan>;
+  targets: PlanTarget[];
+  scenes: PlanTarget[];
+  presets: ShotPlanPreset[];
+  sceneOrder: SceneOrder;
+  onSceneOrderChange: (order: SceneOrder) => void;
+  onBatchPlanChange: (plan: ShotPlan) => void;
+  onOverrideChange: (targetId: string, plan: ShotPlan | null) => void;
+  onSavePreset: (name: string, plan: ShotPlan) => void;
+  onDeletePreset: (id: string) => void;
+}
+
+const selectClass = "px-2 py-1.5 text-xs rounded-lg border border-zinc-200 bg-white focus:outline-none focus:border-zinc-900";
+
+export default function ShotPlanEditor({
+  batchPlan,
+  overrides,
+  targets,
+  scenes,
+  presets,
+  sceneOrder,
+  onSceneOrderChange,
+  onBatchPlanChange,
+  onOverrideChange,
+  onSavePreset,
+  onDeletePreset
+}: ShotPlanEditorProps) {
+  // null edits the batch-wide plan; a target id edits that product's override.
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [presetName, setPresetName] = useState('');
+
+  const editingTarget = editingId && targets.some(t => t.id === editingId) ? editingId : null;
+  const plan = (editingTarget && overrides[editingTarget]) || batchPlan;
+
+  const setPlan = (next: ShotPlan) => {
+    if (editingTarget) onOverrideChange(editingTarget, next);
+    else onBatchPlanChange(next);
+  };
+
+  const updateShot = (index: number, patch: Partial<ShotSpec>) => {
+    setPlan({ shots: plan.shots.map((shot, i) => i === index ? { ...shot, ...patch } : shot) });
+  };
+
+  const addShot = () => {
+    const last = plan.shots[plan.shots.length - 1];
+    setPlan({ shots: [...plan.shots, { aspectRatio: last?.aspectRatio ?? '3:4', imageSize: last?.imageSize ?? '1K' }] });
+  };
+
+  const removeShot = (index: number) => setPlan({ shots: plan.shots.filter((_, i) => i !== index) });
+
+  const applyPreset = (id: string) => {
+    const preset = presets.find(p => p.id === id);
+    if (preset) setPlan(structuredClone(preset.plan));
+  };
+
+  const savePreset = () => {
+    if (!presetName.trim()) return;
+    onSavePreset(presetName.trim(), plan);
+    setPresetName('');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <LayoutGrid className="w-4 h-4 text-zinc-400" />
+          <h2 className="font-medium text-[10px] text-zinc-500 uppercase tracking-widest">3. Shot Plan</h2>
+        </div>
+        <div className="flex items-center gap-2">
+          <select value="" onChange={e => applyPreset(e.target.value)} className={selectClass}>
+            <option value="" disabled>Apply preset…</option>
+            {presets.map(preset => (
+              <option key={preset.id} value={preset.id}>{preset.name}</option>
+            ))}
+          </select>
+          <input
+            value={presetName}
+            onChange={e => setPresetName(e.target.value)}
+            placeholder="Preset name"
+            className="w-32 px-2 py-1.5 text-xs rounded-lg border border-zinc-200 bg-white focus:outline-none focus:border-zinc-900"
+          />
+          <button onClick={savePreset} disabled={!presetName.trim()} className="p-1.5 rounded-lg border border-zinc-200 text-zinc-600 hover:bg-zinc-50 disabled:opacity-40 transition-colors" title="Save as preset">
+            <Save className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2 overflow-x-auto pb-1">
+        <button
+          onClick={() => setEditingId(null)}
+          className={cn("px-3 py-1.5 rounded-full text-xs font-medium border transition-colors whitespace-nowrap", !editingTarget ? "bg-zinc-900 text-white border-zinc-900" : "border-zinc-200 text-zinc-600 hover:bg-zinc-50")}
+        >
+          All products · {batchPlan.shots.length} shots
+        </button>
+        {targets.map((target, idx) => (
+          <button
+            key={target.id}
+            onClick={() => setEditingId(target.id)}
+            title={`Product ${idx + 1}`}
+            className={cn("relative w-9 h-9 shrink-0 rounded-lg overflow-hidden border-2 transition-colors", editingTarget === target.id ? "border-zinc-900" : "border-transparent")}
+          >
+            <img src={target.preview} className="w-full h-full object-cover" />
+            {overrides[target.id] && (
+              <span className="absolute bottom-0 inset-x-0 bg-zinc-900/80 text-[9px] font-bold text-white">{overrides[target.id].shots.length}</span>
+            )}
+          </button>
+        ))}
+      </div>
+
+      {editingTarget && (
+        <div className="flex items-center justify-between text-xs text-zinc-500">
+          <span>{overrides[editingTarget] ? "Custom plan for this product" : "This product uses the batch plan. Edits create a custom plan."}</span>
+          {overrides[editingTarget] && (
+            <button onClick={() => onOverrideChange(editingTarget, null)} className="font-medium text-zinc-900 underline">
+              Use batch plan
+            </button>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {plan.shots.map((shot, i) => (
+          <div key={i} className="flex flex-wrap items-center gap-2 p-2 rounded-xl border border-zinc-100 bg-white">
+            <span className="w-8 text-center text-[10px] font-bold text-zinc-400">#{i + 1}</span>
+            <select
+              value={shot.sceneIndex !== undefined && shot.sceneIndex < scenes.length ? shot.sceneIndex : ''}
+              onChange={e => updateShot(i, { sceneIndex: e.target.value === '' ? undefined : Number(e.target.value) })}
+              disabled={!!editingTarget && sceneOrder === 'same'}
+              title={editingTarget && sceneOrder === 'same' ? "Every product uses the batch plan's scenes" : undefined}
+              className={selectClass}
+            >
+              <option value="">Scene: auto</option>
+              {scenes.map((scene, sceneIdx) => (
+                <option key={scene.id} value={sceneIdx}>Scene {sceneIdx + 1}{scene.name ? ` · ${scene.name}` : ''}</option>
+              ))}
+            </select>
+            <select value={shot.aspectRatio} onChange={e => updateShot(i, { aspectRatio: e.target.value as AspectRatio })} className={selectClass}>
+              {ASPECT_RATIOS.map(ratio => <option key={ratio} value={ratio}>{ratio}</option>)}
+            </select>
+            <select value={shot.imageSize} onChange={e => updateShot(i, { imageSize: e.target.value as ImageSize })} className={selectClass}>
+              {IMAGE_SIZES.map(size => <option key={size} value={size}>{size}</option>)}
+            </select>
+            <input
+              value={shot.extraPrompt ?? ''}
+              onChange={e => updateShot(i, { extraPrompt: e.target.value || undefined })}
+              placeholder="Extra prompt for this shot"
+              className="flex-1 min-w-40 px-2 py-1.5 text-xs rounded-lg border border-zinc-200 focus:outline-none focus:border-zinc-900"
+            />
+            <button onClick={() => removeShot(i)} disabled={plan.shots.length === 1} className="p-1.5 text-zinc-400 hover:text-red-600 disabled:opacity-30 transition-colors">
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <button
+          onClick={addShot}
+          disabled={plan.shots.length >= MAX_SHOTS_PER_TARGET}
+          className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-full border border-zinc-200 text-zinc-600 hover:bg-zinc-50 disabled:opacity-40 transition-colors"
+        >
+          <Plus className="w-3 h-3" />
+          Add shot
+        </button>
+        <div className="flex flex-wrap justify-end gap-2">
+          {presets.filter(preset => !preset.builtIn).map(preset => (
+            <span key={preset.id} className="flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-full bg-zinc-50 border border-zinc-100 text-[10px] text-zinc-500">
+              {preset.name}
+              <button onClick={() => onDeletePreset(preset.id)} className="p-0.5 hover:text-red-600" title="Delete preset">
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {scenes.length > 0 && (
+        <SceneMatrix
+          batchPlan={batchPlan}
+          overrides={overrides}
+          targets={targets}
+          scenes={scenes}
+          sceneOrder={sceneOrder}
+          onSceneOrderChange={onSceneOrderChange}
+          onBatchPlanChange={onBatchPlanChange}
+          onOverrideChange={onOverrideChange}
+        />
+      )}
+    </div>
+  );
+}
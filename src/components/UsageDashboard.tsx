@@ -0,0 +1,89 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { BarChart3 } from 'lucide-react';
+import { formatCost, formatTokens } from '../core/usage.ts';
+import type { UsageReport, UsageTotals } from '../core/types.ts';
+
+interface UsageDashboardProps {
+  report: UsageReport;
+  onOpenBatch: (id: string) => void;
+}
+
+const cellClass = "px-3 py-2 text-right tabular-nums";
+
+const usageRow = (key: string, label: React.ReactNode, totals: UsageTotals, max: number) => (
+  <tr key={key} className="border-t border-zinc-100">
+    <td className="px-3 py-2">{label}</td>
+    <td className={cellClass}>{totals.calls}</td>
+    <td className={cellClass}>{totals.images}</td>
+    <td className={cellClass}>{formatTokens(totals.promptTokens + totals.outputTokens)}</td>
+    <td className={cellClass}>
+      <span className="inline-flex items-center gap-2">
+        <span className="w-16 h-1.5 rounded-full bg-zinc-100 overflow-hidden">
+          <span className="block h-full bg-zinc-900" style={{ width: `${max > 0 ? (totals.cost / max) * 100 : 0}%` }} />
+        </span>
+        {formatCost(totals.cost)}
+      </span>
+    </td>
+  </tr>
+);
+
+function UsageTable({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="space-y-2">
+      <span className="text-[10px] font-medium text-zinc-400 uppercase tracking-widest">{title}</span>
+      <div className="border border-zinc-100 rounded-2xl overflow-hidden bg-white">
+        <table className="w-full text-xs">
+          <thead className="text-[10px] text-zinc-400 uppercase tracking-widest">
+            <tr>
+              <th className="px-3 py-2 text-left font-medium" />
+              <th className="px-3 py-2 text-right font-medium">Calls</th>
+              <th className="px-3 py-2 text-right font-medium">Images</th>
+              <th className="px-3 py-2 text-right font-medium">Tokens</th>
+              <th className="px-3 py-2 text-right font-medium">Cost</th>
+            </tr>
+          </thead>
+          <tbody>{children}</tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+/** Model spend by day and by session, from the usage each call reported. */
+export default function UsageDashboard({ report, onOpenBatch }: UsageDashboardProps) {
+  const maxDay = Math.max(0, ...report.byDay.map(day => day.cost));
+  const maxBatch = Math.max(0, ...report.byBatch.map(batch => batch.cost));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <BarChart3 className="w-4 h-4 text-zinc-400" />
+        <h2 className="font-medium text-[10px] text-zinc-500 uppercase tracking-widest">Usage</h2>
+        <span className="ml-auto text-xs text-zinc-500">
+          All time: <span className="font-bold text-zinc-900">{formatCost(report.total.cost)}</span>
+          {` · ${report.total.calls} calls · ${report.total.images} images`}
+        </span>
+      </div>
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <UsageTable title="Last 30 days">
+          {report.byDay.map(day => usageRow(day.day, day.day, day, maxDay))}
+        </UsageTable>
+        <UsageTable title="By session">
+          {report.byBatch.map(batch => usageRow(
+            batch.batchId ?? 'other',
+            batch.batchId
+              ? <button onClick={() => onOpenBatch(batch.batchId!)} className="font-medium hover:underline text-left">{batch.name}</button>
+              : <span className="text-zinc-400">Deleted sessions and single jobs</span>,
+            batch,
+            maxBatch
+          ))}
+        </UsageTable>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { FidelitySettings } from './types.ts';
+
+// Colour maths for the garment-fidelity check. Pixels come in as packed RGB
+// bytes (3 per pixel) from an image already shrunk to a small square.
+
+export type Lab = [number, number, number];
+
+export interface PaletteColor {
+  lab: Lab;
+  hex: string;
+  weight: number; // share of the region, 0-1
+}
+
+export const DEFAULT_FIDELITY: FidelitySettings = {
+  threshold: 70,
+  action: 'flag',
+  maxRequeues: 1,
+  critique: false,
+};
+
+export const MAX_AUTO_REQUEUES = 3;
+
+// A garment colour counts as reproduced only by an output colour covering at least this share.
+const MIN_OUTPUT_WEIGHT = 0.03;
+// Average ΔE2000 at which the score reaches zero. 2 is barely visible; 10 is clearly another shade.
+// The score falls linearly, so 30 puts the default threshold of 70 at ΔE 9, just short of another
+// shade, while the 3-5 that scene lighting alone tends to shift a colour still scores 83-90.
+const ZERO_SCORE_DELTA_E = 30;
+
+function srgbToLinear(channel: number) {
+  const c = channel / 255;
+  return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+}
+
+/** sRGB (0-255) to CIELAB under D65. */
+export function rgbToLab(r: number, g: number, b: number): Lab {
+  const [lr, lg, lb] = [srgbToLinear(r), srgbToLinear(g), srgbToLinear(b)];
+  const x = (lr * 0.4124 + lg * 0.3576 + lb * 0.1805) / 0.95047;
+  const y = lr * 0.2126 + lg * 0.7152 + lb * 0.0722;
+  const z = (lr * 0.0193 + lg * 0.1192 + lb * 0.9505) / 1.08883;
+  const f = (t: number) => (t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116);
+  return [116 * f(y) - 16, 500 * (f(x) - f(y)), 200 * (f(y) - f(z))];
+}
+
+/** CIEDE2000 colour difference. */
+export function deltaE2000([l1, a1, b1]: Lab, [l2, a2, b2]: Lab): number {
+  const rad = Math.PI / 180;
+  const c1 = Math.hypot(a1, b1);
+  const c2 = Math.hypot(a2, b2);
+  const cMean7 = ((c1 + c2) / 2) ** 7;
+  const g = 0.5 * (1 - Math.sqrt(cMean7 / (cMean7 + 25 ** 7)));
+  const a1p = a1 * (1 + g);
+  const a2p = a2 * (1 + g);
+  const c1p = Math.hypot(a1p, b1);
+  const c2p = Math.hypot(a2p, b2);
+  const hue = (b: number, a: number) => (a === 0 && b === 0 ? 0 : (Math.atan2(b, a) / rad + 360) % 360);
+  const h1p = hue(b1, a1p);
+  const h2p = hue(b2, a2p);
+
+  const dL = l2 - l1;
+  const dC = c2p - c1p;
+  let dh = 0;
+  if (c1p * c2p !== 0) {
+    dh = h2p - h1p;
+    if (dh > 180) dh -= 360;
+    else if (dh < -180) dh += 360;
+  }
+  const dH = 2 * Math.sqrt(c1p * c2p) * Math.sin((dh / 2) * rad);
+
+  const lMean = (l1 + l2) / 2;
+  const cMeanP = (c1p + c2p) / 2;
+  let hMean = h1p + h2p;
+  if (c1p * c2p !== 0) {
+    hMean = Math.abs(h1p - h2p) > 180 ? (h1p + h2p + (h1p + h2p < 360 ? 360 : -360)) / 2 : (h1p + h2p) / 2;
+  }
+  const t = 1
+    - 0.17 * Math.cos((hMean - 30) * rad)
+    + 0.24 * Math.cos(2 * hMean * rad)
+    + 0.32 * Math.cos((3 * hMean + 6) * rad)
+    - 0.20 * Math.cos((4 * hMean - 63) * rad);
+  const sl = 1 + (0.015 * (lMean - 50) ** 2) / Math.sqrt(20 + (lMean - 50) ** 2);
+  const sc = 1 + 0.045 * cMeanP;
+  const sh = 1 + 0.015 * cMeanP * t;
+  const cMeanP7 = cMeanP ** 7;
+  const rt = -2 * Math.sqrt(cMeanP7 / (cMeanP7 + 25 ** 7))
+    * Math.sin(60 * Math.exp(-(((hMean - 275) / 25) ** 2)) * rad);
+
+  return Math.sqrt((dL / sl) ** 2 + (dC / sc) ** 2 + (dH / sh) ** 2 + rt * (dC / sc) * (dH / sh));
+}
+
+export const pixelAt = (rgb: Uint8Array, i: number): [number, number, number] => [rgb[i * 3], rgb[i * 3 + 1], rgb[i * 3 + 2]];
+
+/** The background colour of a photo, taken as the median of its border pixels. */
+export function borderColor(rgb: Uint8Array, width: number, height: number): Lab {
+  const border: Lab[] = [];
+  for (let x = 0; x < width; x++) border.push(rgbToLab(...pixelAt(rgb, x)), rgbToLab(...pixelAt(rgb, (height - 1) * width + x)));
+  for (let y = 0; y < height; y++) border.push(rgbToLab(...pixelAt(rgb, y * width)), rgbToLab(...pixelAt(rgb, y * width + width - 1)));
+  const median = (k: number) => border.map(lab => lab[k]).sort((a, b) => a - b)[Math.floor(border.length / 2)];
+  return [median(0), median(1), median(2)];
+}
+
+/**
+ * Pixels of a product photo that are not background: everything clearly
+ * different from the border colour. Falls back to all pixels on busy backgrounds.
+ */
+export function productPixels(rgb: Uint8Array, size: number): Uint8Array {
+  const background = borderColor(rgb, size, size);
+
+  const kept: number[] = [];
+  for (let i = 0; i < size * size; i++) {
+    const pixel = pixelAt(rgb, i);
+    if (deltaE2000(rgbToLab(...pixel), background) > 12) kept.push(...pixel);
+  }
+  return kept.length >= size * size * 0.05 * 3 ? Uint8Array.from(kept) : rgb;
+}
+
+/**
+ * The torso area of a generated shot, where the cardigan sits in a standard
+ * catalogue framing. The box is fixed, so seated, cropped or off-centre poses
+ * pull in background and the score is only approximate for them.
+ */
+export function torsoPixels(rgb: Uint8Array, size: number): Uint8Array {
+  const kept: number[] = [];
+  for (let y = Math.floor(size * 0.2); y < Math.ceil(size * 0.75); y++) {
+    for (let x = Math.floor(size * 0.2); x < Math.ceil(size * 0.8); x++) kept.push(...pixelAt(rgb, y * size + x));
+  }
+  return Uint8Array.from(kept);
+}
+
+/**
+ * The most common colours, found by bucketing pixels on a 16-level RGB grid
+ * and merging buckets less than 8 ΔE apart.
+ */
+export function dominantColors(rgb: Uint8Array, count = 6): PaletteColor[] {
+  const buckets = new Map<number, { r: number; g: number; b: number; n: number }>();
+  const total = rgb.length / 3;
+  for (let i = 0; i < total; i++) {
+    const [r, g, b] = pixelAt(rgb, i);
+    const key = ((r >> 4) << 8) | ((g >> 4) << 4) | (b >> 4);
+    const bucket = buckets.get(key) ?? { r: 0, g: 0, b: 0, n: 0 };
+    bucket.r += r;
+    bucket.g += g;
+    bucket.b += b;
+    bucket.n++;
+    buckets.set(key, bucket);
+  }
+
+  const clusters: { r: number; g: number; b: number; n: number; lab: Lab }[] = [];
+  for (const bucket of [...buckets.values()].sort((a, b) => b.n - a.n)) {
+    const lab = rgbToLab(bucket.r / bucket.n, bucket.g / bucket.n, bucket.b / bucket.n);
+    const near = clusters.find(cluster => deltaE2000(cluster.lab, lab) < 8);
+    if (near) {
+      near.r += bucket.r;
+      near.g += bucket.g;
+      near.b += bucket.b;
+      near.n += bucket.n;
+    } else {
+      clusters.push({ ...bucket, lab });
+    }
+  }
+
+  const hex = (v: number) => Math.round(v).toString(16).padStart(2, '0');
+  return clusters
+    .sort((a, b) => b.n - a.n)
+    .slice(0, count)
+    .map(c => ({
+      lab: rgbToLab(c.r / c.n, c.g / c.n, c.b / c.n),
+      hex: `#${hex(c.r / c.n)}${hex(c.g / c.n)}${hex(c.b / c.n)}`,
+      weight: c.n / total,
+    }));
+}
+
+/**
+ * How well the output reproduces the garment's colours: each garment colour is
+ * matched to the closest substantial output colour, and the weighted ΔE2000 is
+ * mapped onto 0-100. Extra output colours (skin, background) cost nothing.
+ */
+export function compareColors(garment: PaletteColor[], output: PaletteColor[]): { score: number; deltaE: number } {
+  const candidates = output.filter(color => color.weight >= MIN_OUTPUT_WEIGHT);
+  const totalWeight = garment.reduce((sum, color) => sum + color.weight, 0);
+  if (candidates.length === 0 || totalWeight === 0) return { score: 0, deltaE: ZERO_SCORE_DELTA_E };
+
+  const deltaE = garment.reduce((sum, color) =>
+    sum + color.weight * Math.min(...candidates.map(candidate => deltaE2000(color.lab, candidate.lab))), 0) / totalWeight;
+  const score = Math.round(100 * Math.max(0, 1 - deltaE / ZERO_SCORE_DELTA_E));
+  return { score, deltaE: Math.round(deltaE * 10) / 10 };
+}
+
+/** The score the threshold is checked against: the lower of the colour check and the optional critique. */
+export const fidelityScore = (fidelity: { score: number; critique?: { score: number } }) =>
+  Math.min(fidelity.score, fidelity.critique?.score ?? 100);
+
+/** Returns an error message, or undefined when the settings are usable. */
+export function validateFidelitySettings(value: any): string | undefined {
+  if (!value || typeof value !== 'object') return "Fidelity settings must be an object.";
+  if (!Number.isInteger(value.threshold) || value.threshold < 0 || value.threshold > 100) {
+    return "Fidelity threshold must be a whole number from 0 to 100.";
+  }
+  if (value.action !== 'flag' && value.action !== 'requeue') return "Fidelity action must be flag or requeue.";
+  if (!Number.isInteger(value.maxRequeues) || value.maxRequeues < 0 || value.maxRequeues > MAX_AUTO_REQUEUES) {
+    return `Automatic re-queues must be from 0 to ${MAX_AUTO_REQUEUES}.`;
+  }
+  if (typeof value.critique !== 'boolean') return "Fidelity critique must be true or false.";
+  return undefined;
+}
@@ -0,0 +1,22 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  gif: 'image/gif',
+  heic: 'image/heic',
+  avif: 'image/avif',
+};
+
+/** Image MIME type from a file name, or undefined if it is not an image we accept. */
+export const imageMimeType = (fileName: string): string | undefined =>
+  IMAGE_MIME_TYPES[fileName.split('.').pop()?.toLowerCase() ?? ''];
+
+/** File extension for a MIME type, e.g. `image/jpeg` → `jpg`. Unknown types fall back to `bin`. */
+export const imageExtension = (mimeType: string) =>
+  Object.entries(IMAGE_MIME_TYPES).find(([, type]) => type === mimeType)?.[0] ?? 'bin';
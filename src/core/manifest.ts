@@ -0,0 +1,176 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { MAX_VIEWS_PER_PRODUCT } from './products.ts';
+import { MAX_SHOTS_PER_TARGET } from './shotPlan.ts';
+import type { ProductInfo } from './types.ts';
+
+/** One catalog row: a product and the image files that show it. */
+export interface ManifestRow extends ProductInfo {
+  line: number; // 1-based CSV line or JSON array index, for messages
+  images: string[];
+  shotCount?: number;
+}
+
+export interface ParsedManifest {
+  rows: ManifestRow[];
+  errors: string[];
+}
+
+export interface ManifestMatch {
+  row: ManifestRow;
+  files: string[]; // matched file paths, in manifest order
+  missing: string[];
+}
+
+export interface ManifestReport {
+  matches: ManifestMatch[];
+  extra: string[]; // uploaded images no row mentions
+}
+
+// Header spellings accepted for each field, compared lower-cased with spaces,
+// dashes and underscores removed.
+const COLUMNS: Record<keyof Omit<ManifestRow, 'line'>, string[]> = {
+  sku: ['sku', 'style', 'stylenumber'],
+  name: ['name', 'productname', 'title'],
+  colorway: ['colorway', 'colourway', 'color', 'colour'],
+  images: ['images', 'image', 'files', 'file', 'imagefiles', 'paths'],
+  shotCount: ['shots', 'shotcount', 'count'],
+  notes: ['notes', 'note', 'comments'],
+};
+
+const normalizeKey = (key: string) => key.toLowerCase().replace(/[\s_-]+/g, '');
+const normalizePath = (path: string) => path.trim().replace(/\\/g, '/').replace(/^\.?\//, '').toLowerCase();
+
+/** RFC 4180 CSV: quoted fields may hold commas, newlines and doubled quotes. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') field += text[i++];
+      else if (char === '"') quoted = false;
+      else field += char;
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      rows.push([...row, field]);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) rows.push([...row, field]);
+  return rows;
+}
+
+/** Writes rows as CSV, quoting only the fields that need it. */
+export const formatCsv = (rows: (string | number | boolean | undefined)[][]) =>
+  rows.map(row => row.map(value => {
+    const text = value === undefined ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }).join(',')).join('\r\n') + '\r\n';
+
+function toRow(record: Record<string, unknown>, line: number, errors: string[]): ManifestRow | undefined {
+  const fields: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(record)) {
+    const field = Object.entries(COLUMNS).find(([, names]) => names.includes(normalizeKey(key)))?.[0];
+    if (field) fields[field] = value;
+  }
+  const text = (value: unknown) => typeof value === 'string' || typeof value === 'number' ? String(value).trim() || undefined : undefined;
+
+  const sku = text(fields.sku);
+  const images = (Array.isArray(fields.images) ? fields.images : String(fields.images ?? '').split(/[;|]/))
+    .map(image => String(image).trim())
+    .filter(Boolean);
+  if (!sku && images.length === 0) return undefined; // blank line
+
+  if (!sku) errors.push(`Row ${line}: SKU is missing.`);
+  if (images.length === 0) errors.push(`Row ${line}: no image files listed.`);
+  if (images.length > MAX_VIEWS_PER_PRODUCT) errors.push(`Row ${line}: a product can have at most ${MAX_VIEWS_PER_PRODUCT} images.`);
+  let shotCount: number | undefined;
+  if (text(fields.shotCount) !== undefined) {
+    shotCount = Number(text(fields.shotCount));
+    if (!Number.isInteger(shotCount) || shotCount < 1 || shotCount > MAX_SHOTS_PER_TARGET) {
+      errors.push(`Row ${line}: shot count must be a whole number from 1 to ${MAX_SHOTS_PER_TARGET}.`);
+      shotCount = undefined;
+    }
+  }
+  if (!sku || images.length === 0 || images.length > MAX_VIEWS_PER_PRODUCT) return undefined;
+  return { line, sku, name: text(fields.name), colorway: text(fields.colorway), images, shotCount, notes: text(fields.notes) };
+}
+
+/** Reads a CSV (header row first) or JSON manifest (array, or `{ products: [...] }`). */
+export function parseManifest(text: string, format: 'csv' | 'json'): ParsedManifest {
+  const errors: string[] = [];
+  let records: Record<string, unknown>[];
+  let firstLine = 1;
+
+  if (format === 'json') {
+    let data: any;
+    try {
+      data = JSON.parse(text);
+    } catch (error: any) {
+      return { rows: [], errors: [`Manifest is not valid JSON: ${error.message}`] };
+    }
+    records = Array.isArray(data) ? data : data?.products;
+    if (!Array.isArray(records)) return { rows: [], errors: ["JSON manifest must be an array of products or { \"products\": [...] }."] };
+  } else {
+    const [header, ...lines] = parseCsv(text.replace(/^\uFEFF/, ''));
+    if (!header?.some(column => COLUMNS.sku.includes(normalizeKey(column)))) {
+      return { rows: [], errors: ["CSV manifest needs a header row with a SKU column."] };
+    }
+    records = lines.map(cells => Object.fromEntries(header.map((column, i) => [column, cells[i] ?? ''])));
+    firstLine = 2;
+  }
+
+  const rows = records.flatMap((record, i) => {
+    if (!record || typeof record !== 'object') {
+      errors.push(`Row ${i + firstLine}: expected an object.`);
+      return [];
+    }
+    return toRow(record, i + firstLine, errors) ?? [];
+  });
+  const seen = new Set<string>();
+  for (const row of rows) {
+    if (seen.has(row.sku!.toLowerCase())) errors.push(`Row ${row.line}: SKU ${row.sku} appears more than once.`);
+    seen.add(row.sku!.toLowerCase());
+  }
+  return { rows, errors };
+}
+
+/**
+ * Pairs each row's image names with uploaded file paths. A name matches a path
+ * that equals it or ends with `/name`, so manifests can list bare file names
+ * for a nested folder or zip.
+ */
+export function matchManifest(rows: ManifestRow[], filePaths: string[]): ManifestReport {
+  const available = filePaths.map(path => ({ path, key: normalizePath(path) }));
+  const used = new Set<string>();
+  const matches = rows.map(row => {
+    const files: string[] = [];
+    const missing: string[] = [];
+    for (const image of row.images) {
+      const key = normalizePath(image);
+      const found = available.find(file => file.key === key) ?? available.find(file => file.key.endsWith(`/${key}`));
+      if (found) {
+        files.push(found.path);
+        used.add(found.path);
+      } else {
+        missing.push(image);
+      }
+    }
+    return { row, files, missing };
+  });
+  return { matches, extra: filePaths.filter(path => !used.has(path)) };
+}
@@ -0,0 +1,174 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import sharp from 'sharp';
+import { crc32, deflateSync } from 'zlib';
+import { describe, expect, it } from 'vitest';
+import { embedImageMetadata, readImageMetadata } from './metadata.ts';
+import type { ImageMetadata } from './types.ts';
+
+const METADATA: ImageMetadata = {
+  sku: 'CR-001',
+  productName: 'Grey Cardigan',
+  sceneId: 'scene-1',
+  model: 'gemini-3-pro-image-preview',
+  templateId: 'builtin:studio',
+  templateVersion: 2,
+  generatedAt: '2026-03-01T09:30:00.000Z',
+  aiGenerated: true,
+};
+const UPDATED: ImageMetadata = { ...METADATA, sku: 'CR-002', productName: 'Café cardigan', templateVersion: 3 };
+
+const latin1 = (bytes: Uint8Array) => Buffer.from(bytes).toString('latin1');
+
+const solid = (channels: 3 | 4 = 3) =>
+  sharp({ create: { width: 40, height: 30, channels, background: { r: 120, g: 130, b: 140, alpha: 0.5 } } });
+
+const FORMATS = {
+  png: () => solid().png().toBuffer(),
+  jpeg: () => solid().jpeg().toBuffer(),
+  'webp (lossy)': () => solid().webp().toBuffer(),
+  'webp (lossless)': () => solid().webp({ lossless: true }).toBuffer(),
+  'webp (alpha)': () => solid(4).webp().toBuffer(),
+};
+
+/** Type and data of every PNG chunk, failing on a bad checksum. */
+function pngChunks(png: Uint8Array) {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const chunks: { type: string; data: Uint8Array }[] = [];
+  for (let at = 8; at < png.length;) {
+    const length = view.getUint32(at);
+    const typed = png.subarray(at + 4, at + 8 + length);
+    expect(view.getUint32(at + 8 + length), `${latin1(typed.subarray(0, 4))} checksum`).toBe(crc32(typed));
+    chunks.push({ type: latin1(typed.subarray(0, 4)), data: typed.subarray(4) });
+    at += 12 + length;
+  }
+  return chunks;
+}
+
+/** FourCC of every WebP chunk, failing when the RIFF or chunk sizes don't add up. */
+function webpChunks(webp: Uint8Array) {
+  const view = new DataView(webp.buffer, webp.byteOffset, webp.byteLength);
+  expect(view.getUint32(4, true)).toBe(webp.length - 8);
+  const types: string[] = [];
+  let at = 12;
+  while (at < webp.length) {
+    const length = view.getUint32(at + 4, true);
+    types.push(latin1(webp.subarray(at, at + 4)));
+    at += 8 + length + (length % 2);
+  }
+  expect(at).toBe(webp.length);
+  return types;
+}
+
+/** Marker and first bytes of every JPEG segment before the scan. */
+function jpegSegments(jpeg: Uint8Array) {
+  const view = new DataView(jpeg.buffer, jpeg.byteOffset, jpeg.byteLength);
+  const segments: string[] = [];
+  for (let at = 2; jpeg[at + 1] !== 0xda; at += 2 + view.getUint16(at + 2)) {
+    expect(jpeg[at]).toBe(0xff);
+    segments.push(`${jpeg[at + 1].toString(16)} ${latin1(jpeg.subarray(at + 4, at + 8))}`);
+  }
+  return segments;
+}
+
+const count = (items: string[], item: string) => items.filter(other => other === item).length;
+
+describe('image metadata', () => {
+  for (const [format, create] of Object.entries(FORMATS)) {
+    it(`round-trips through ${format} without touching the pixels`, async () => {
+      const original = await create();
+      const embedded = embedImageMetadata(original, METADATA);
+
+      const read = readImageMetadata(embedded)!;
+      expect(read.format).toBe(format.split(' ')[0]);
+      expect(read.metadata).toEqual(METADATA);
+      expect(read.xmp['Iptc4xmpExt:DigitalSourceType']).toContain('trainedAlgorithmicMedia');
+      expect(read.exif.Software).toBe('Cardigan Studio');
+      expect(await sharp(embedded).raw().toBuffer()).toEqual(await sharp(original).raw().toBuffer());
+    });
+
+    it(`replaces the metadata already in a ${format} file`, async () => {
+      const once = embedImageMetadata(await create(), METADATA);
+      const twice = embedImageMetadata(once, UPDATED);
+
+      expect(readImageMetadata(twice)!.metadata).toEqual(UPDATED);
+      expect(embedImageMetadata(twice, METADATA)).toEqual(once);
+    });
+  }
+
+  it('writes one XMP and EXIF chunk and one text chunk per field into PNG, with valid checksums', async () => {
+    const png = embedImageMetadata(embedImageMetadata(await FORMATS.png(), METADATA), UPDATED);
+    const chunks = pngChunks(png);
+    const keywords = chunks.filter(chunk => chunk.type === 'iTXt').map(chunk => latin1(chunk.data.subarray(0, chunk.data.indexOf(0))));
+
+    expect(chunks[0].type).toBe('IHDR');
+    expect(chunks.at(-1)!.type).toBe('IEND');
+    expect(count(chunks.map(chunk => chunk.type), 'eXIf')).toBe(1);
+    expect(new Set(keywords).size).toBe(keywords.length);
+    expect(keywords).toContain('XML:com.adobe.xmp');
+    expect(readImageMetadata(png)!.text).toMatchObject({ SKU: 'CR-002', 'Product name': 'Café cardigan', 'AI generated': 'Yes' });
+  });
+
+  it('writes one EXIF and one XMP segment into JPEG, after JFIF', async () => {
+    // sharp writes its own EXIF but no JFIF header, so one is added in front.
+    const withExif = await solid().jpeg().withMetadata().toBuffer();
+    const app0 = Buffer.from('ffe000104a46494600010100000100010000', 'hex');
+    const jfif = Buffer.concat([withExif.subarray(0, 2), app0, withExif.subarray(2)]);
+    expect(jpegSegments(jfif)).toContain('e1 Exif');
+
+    const segments = jpegSegments(embedImageMetadata(embedImageMetadata(jfif, METADATA), UPDATED));
+
+    expect(segments[0]).toBe('e0 JFIF');
+    expect(count(segments, 'e1 Exif')).toBe(1);
+    expect(count(segments, 'e1 http')).toBe(1);
+  });
+
+  it('keeps WebP RIFF and chunk sizes valid and sets the VP8X flags', async () => {
+    for (const create of [FORMATS['webp (lossy)'], FORMATS['webp (lossless)'], FORMATS['webp (alpha)']]) {
+      const webp = embedImageMetadata(embedImageMetadata(await create(), METADATA), UPDATED);
+      const types = webpChunks(webp);
+
+      expect(types[0]).toBe('VP8X');
+      expect(count(types, 'VP8X')).toBe(1);
+      expect(count(types, 'EXIF')).toBe(1);
+      expect(count(types, 'XMP ')).toBe(1);
+      expect(webp[20] & 0x0c).toBe(0x0c);
+      expect((await sharp(webp).metadata()).width).toBe(40);
+    }
+  });
+
+  it('reads what it can from truncated files', async () => {
+    for (const create of Object.values(FORMATS)) {
+      const embedded = embedImageMetadata(await create(), METADATA);
+      for (let length = 0; length < embedded.length; length += 7) {
+        expect(() => readImageMetadata(embedded.subarray(0, length))).not.toThrow();
+      }
+    }
+  });
+
+  it('skips corrupt compressed PNG text', async () => {
+    const png = await FORMATS.png();
+    const chunk = (type: string, data: Buffer) => {
+      const typed = Buffer.concat([Buffer.from(type, 'latin1'), data]);
+      const out = Buffer.alloc(12 + data.length);
+      out.writeUInt32BE(data.length);
+      typed.copy(out, 4);
+      out.writeUInt32BE(crc32(typed), 8 + data.length);
+      return out;
+    };
+    const compressed = deflateSync('Moss cardigan');
+    const text = [
+      chunk('zTXt', Buffer.concat([Buffer.from('Product name\0\0', 'latin1'), compressed])),
+      chunk('zTXt', Buffer.concat([Buffer.from('Broken\0\0', 'latin1'), Buffer.from('not zlib either')])),
+      chunk('iTXt', Buffer.concat([Buffer.from('Garbled\0\x01\0\0\0', 'latin1'), Buffer.from('not zlib')])),
+    ];
+    // After IHDR, which is the first 33 bytes.
+    const read = readImageMetadata(Buffer.concat([png.subarray(0, 33), ...text, png.subarray(33)]))!;
+
+    expect(read.text).toEqual({ 'Product name': 'Moss cardigan' });
+    expect(read.metadata.productName).toBe('Moss cardigan');
+  });
+});
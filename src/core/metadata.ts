@@ -0,0 +1,456 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { unzlibSync } from 'fflate';
+import type { ImageMetadata, InspectedImage, MetadataField, MetadataFormat } from './types.ts';
+
+// Provenance for exported images, written into and read back from the file
+// bytes without re-encoding the image. Every format carries the same XMP packet
+// and EXIF block: PNG as iTXt and eXIf chunks (plus one text chunk per field),
+// JPEG as APP1 segments and WebP as XMP and EXIF chunks.
+
+export const METADATA_SOFTWARE = 'Cardigan Studio';
+
+export const METADATA_FIELDS: Record<MetadataField, string> = {
+  sku: 'SKU',
+  productName: 'Product name',
+  sceneId: 'Scene ID',
+  model: 'Model',
+  templateId: 'Prompt template',
+  templateVersion: 'Template version',
+  generatedAt: 'Generated',
+};
+
+// IPTC digital source types; marketplaces read these as the AI-generated disclosure.
+const AI_SOURCE_TYPE = 'http://cv.iptc.org/newscodes/digitalsourcetype/trainedAlgorithmicMedia';
+const AI_SOURCE_TYPES = [AI_SOURCE_TYPE, 'http://cv.iptc.org/newscodes/digitalsourcetype/compositeWithTrainedAlgorithmicMedia'];
+
+const XMP_NAMESPACE = 'urn:cardigan-studio:xmp:1.0/';
+const XMP_PROPERTIES: Record<MetadataField, string> = {
+  sku: 'SKU',
+  productName: 'ProductName',
+  sceneId: 'SceneId',
+  model: 'Model',
+  templateId: 'TemplateId',
+  templateVersion: 'TemplateVersion',
+  generatedAt: 'GeneratedAt',
+};
+const AI_TEXT_KEYWORD = 'AI generated';
+const XMP_TEXT_KEYWORD = 'XML:com.adobe.xmp';
+const JPEG_XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const JPEG_EXIF_HEADER = 'Exif\0\0';
+
+// The text tags of IFD0 the inspector shows; others are skipped.
+const EXIF_TAGS: Record<number, string> = {
+  0x010e: 'ImageDescription',
+  0x010f: 'Make',
+  0x0110: 'Model',
+  0x0131: 'Software',
+  0x0132: 'DateTime',
+  0x013b: 'Artist',
+  0x8298: 'Copyright',
+};
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+const ascii = (text: string) => Uint8Array.from(text, c => c.charCodeAt(0) & 0xff);
+const latin1 = (bytes: Uint8Array) => Array.from(bytes, b => String.fromCharCode(b)).join('');
+const hasPrefix = (bytes: Uint8Array, at: number, prefix: string) => latin1(bytes.subarray(at, at + prefix.length)) === prefix;
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let at = 0;
+  for (const part of parts) {
+    out.set(part, at);
+    at += part.length;
+  }
+  return out;
+}
+
+const metadataEntries = (metadata: ImageMetadata) =>
+  (Object.keys(METADATA_FIELDS) as MetadataField[]).flatMap(field =>
+    metadata[field] === undefined ? [] : [[field, String(metadata[field])] as const]);
+
+/** One line for description fields, e.g. `AI-generated image · Grey Cardigan · SKU CR-001`. */
+const describe = (metadata: ImageMetadata) => [
+  metadata.aiGenerated ? 'AI-generated image' : 'Image',
+  metadata.productName,
+  metadata.sku && `SKU ${metadata.sku}`,
+  metadata.sceneId && `scene ${metadata.sceneId}`,
+  metadata.model && `model ${metadata.model}`,
+  metadata.templateId && `template ${metadata.templateId} v${metadata.templateVersion ?? '?'}`,
+].filter(Boolean).join(' · ');
+
+export function imageFormat(data: Uint8Array): MetadataFormat | undefined {
+  if (hasPrefix(data, 0, '\x89PNG\r\n\x1a\n')) return 'png';
+  if (data[0] === 0xff && data[1] === 0xd8) return 'jpeg';
+  if (hasPrefix(data, 0, 'RIFF') && hasPrefix(data, 8, 'WEBP')) return 'webp';
+  return undefined;
+}
+
+// --- XMP ---
+
+const escapeXml = (value: string) =>
+  value.replace(/[<>&"]/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;' })[c]!);
+
+const unescapeXml = (value: string) => value
+  .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, '&');
+
+export function buildXmp(metadata: ImageMetadata): string {
+  const properties = [
+    `<xmp:CreatorTool>${METADATA_SOFTWARE}</xmp:CreatorTool>`,
+    ...(metadata.generatedAt ? [`<xmp:CreateDate>${metadata.generatedAt}</xmp:CreateDate>`] : []),
+    `<dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(describe(metadata))}</rdf:li></rdf:Alt></dc:description>`,
+    ...(metadata.aiGenerated ? [`<Iptc4xmpExt:DigitalSourceType>${AI_SOURCE_TYPE}</Iptc4xmpExt:DigitalSourceType>`] : []),
+    ...metadataEntries(metadata).map(([field, value]) =>
+      `<cardigan:${XMP_PROPERTIES[field]}>${escapeXml(value)}</cardigan:${XMP_PROPERTIES[field]}>`),
+    `<cardigan:AIGenerated>${metadata.aiGenerated ? 'True' : 'False'}</cardigan:AIGenerated>`,
+  ];
+  return [
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    ' <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    '  <rdf:Description rdf:about=""',
+    '    xmlns:xmp="http://ns.adobe.com/xap/1.0/"',
+    '    xmlns:dc="http://purl.org/dc/elements/1.1/"',
+    '    xmlns:Iptc4xmpExt="http://iptc.org/std/Iptc4xmpExt/2008-02-29/"',
+    `    xmlns:cardigan="${XMP_NAMESPACE}">`,
+    ...properties.map(property => `   ${property}`),
+    '  </rdf:Description>',
+    ' </rdf:RDF>',
+    '</x:xmpmeta>',
+    '<?xpacket end="w"?>',
+  ].join('\n');
+}
+
+/** Simple XMP properties, whether written as elements or as attributes of rdf:Description. */
+export function parseXmp(xmp: string): Record<string, string> {
+  const properties: Record<string, string> = {};
+  for (const [, name, value] of xmp.matchAll(/<([\w-]+:[\w-]+)(?:\s[^>]*)?>([^<]*)<\/\1>/g)) {
+    // The only rdf:li written is the description's default language.
+    properties[name === 'rdf:li' ? 'dc:description' : name] = unescapeXml(value.trim());
+  }
+  for (const [, attributes] of xmp.matchAll(/<rdf:Description\s([^>]*)>/g)) {
+    for (const [, name, value] of attributes.matchAll(/([\w-]+:[\w-]+)="([^"]*)"/g)) {
+      if (!name.startsWith('xmlns:') && name !== 'rdf:about') properties[name] = unescapeXml(value);
+    }
+  }
+  return properties;
+}
+
+// --- EXIF ---
+
+// `2026-03-01T09:30:00.000Z` → `2026:03:01 09:30:00` (UTC; EXIF has no time zone).
+const exifDate = (iso: string) => iso.slice(0, 19).replace('T', ' ').replace(/-/g, ':');
+
+/** A little-endian TIFF block with a single IFD of text tags. */
+export function buildExif(metadata: ImageMetadata): Uint8Array {
+  const entries: [number, string][] = [
+    [0x010e, describe(metadata)],
+    [0x0131, METADATA_SOFTWARE],
+    ...(metadata.generatedAt ? [[0x0132, exifDate(metadata.generatedAt)] as [number, string]] : []),
+  ];
+  const values = entries.map(([, value]) => encoder.encode(`${value}\0`));
+  let offset = 8 + 2 + entries.length * 12 + 4;
+  const out = new Uint8Array(offset + values.reduce((sum, value) => sum + (value.length > 4 ? value.length : 0), 0));
+  const view = new DataView(out.buffer);
+  out.set(ascii('II*\0'));
+  view.setUint32(4, 8, true);
+  view.setUint16(8, entries.length, true);
+  entries.forEach(([tag], i) => {
+    const at = 10 + i * 12;
+    view.setUint16(at, tag, true);
+    view.setUint16(at + 2, 2, true); // ASCII
+    view.setUint32(at + 4, values[i].length, true);
+    // Values of up to four bytes sit in the entry itself.
+    if (values[i].length <= 4) {
+      out.set(values[i], at + 8);
+    } else {
+      view.setUint32(at + 8, offset, true);
+      out.set(values[i], offset);
+      offset += values[i].length;
+    }
+  });
+  return out;
+}
+
+export function parseExif(tiff: Uint8Array): Record<string, string> {
+  const tags: Record<string, string> = {};
+  const little = tiff[0] === 0x49;
+  if (!little && tiff[0] !== 0x4d) return tags;
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  try {
+    const ifd = view.getUint32(4, little);
+    const count = view.getUint16(ifd, little);
+    for (let i = 0; i < count; i++) {
+      const at = ifd + 2 + i * 12;
+      const name = EXIF_TAGS[view.getUint16(at, little)];
+      if (!name || view.getUint16(at + 2, little) !== 2) continue;
+      const length = view.getUint32(at + 4, little);
+      const start = length <= 4 ? at + 8 : view.getUint32(at + 8, little);
+      tags[name] = decoder.decode(tiff.subarray(start, start + length)).replace(/\0+$/, '');
+    }
+  } catch {
+    // A truncated block keeps whatever tags came before the damage.
+  }
+  return tags;
+}
+
+// --- PNG ---
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(bytes: Uint8Array): number {
+  let c = 0xffffffff;
+  for (const b of bytes) c = CRC_TABLE[(c ^ b) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+interface Chunk {
+  type: string;
+  data: Uint8Array;
+  raw: Uint8Array; // the whole chunk, header and checksum included
+}
+
+function pngChunks(png: Uint8Array): Chunk[] {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const chunks: Chunk[] = [];
+  for (let at = 8; at + 12 <= png.length;) {
+    const length = view.getUint32(at);
+    const end = at + 12 + length;
+    chunks.push({ type: latin1(png.subarray(at + 4, at + 8)), data: png.subarray(at + 8, at + 8 + length), raw: png.subarray(at, end) });
+    at = end;
+  }
+  return chunks;
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  out.set(ascii(type), 4);
+  out.set(data, 8);
+  view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+  return out;
+}
+
+// Uncompressed iTXt, which unlike tEXt holds UTF-8.
+const itxtChunk = (keyword: string, text: string) =>
+  pngChunk('iTXt', concat([ascii(keyword), new Uint8Array([0, 0, 0, 0, 0]), encoder.encode(text)]));
+
+/** Keyword and text of a tEXt, zTXt or iTXt chunk; undefined when the chunk is malformed. */
+function readTextChunk(chunk: Chunk): [string, string] | undefined {
+  const split = chunk.data.indexOf(0);
+  if (split < 0) return undefined;
+  const keyword = latin1(chunk.data.subarray(0, split));
+  const rest = chunk.data.subarray(split + 1);
+  if (chunk.type === 'tEXt') return [keyword, latin1(rest)];
+  try {
+    if (chunk.type === 'zTXt') return [keyword, latin1(unzlibSync(rest.subarray(1)))];
+    // iTXt: compression flag and method, then language tag and translated keyword, each NUL-terminated.
+    const language = rest.indexOf(0, 2);
+    const translated = rest.indexOf(0, language + 1);
+    if (language < 0 || translated < 0) return undefined;
+    const text = rest.subarray(translated + 1);
+    return [keyword, decoder.decode(rest[0] ? unzlibSync(text) : text)];
+  } catch {
+    return undefined; // compressed text that is cut short or corrupt
+  }
+}
+
+const isTextChunk = (chunk: Chunk) => ['tEXt', 'zTXt', 'iTXt'].includes(chunk.type);
+
+function embedPng(png: Uint8Array, metadata: ImageMetadata): Uint8Array {
+  const text: [string, string][] = [
+    ['Software', METADATA_SOFTWARE],
+    ['Description', describe(metadata)],
+    ...metadataEntries(metadata).map(([field, value]) => [METADATA_FIELDS[field], value] as [string, string]),
+    [AI_TEXT_KEYWORD, metadata.aiGenerated ? 'Yes' : 'No'],
+  ];
+  const replaced = new Set([XMP_TEXT_KEYWORD, ...text.map(([keyword]) => keyword)]);
+  const [header, ...rest] = pngChunks(png);
+  const kept = rest.filter(chunk => chunk.type !== 'eXIf' && !(isTextChunk(chunk) && replaced.has(readTextChunk(chunk)?.[0] ?? '')));
+  return concat([
+    png.subarray(0, 8),
+    header.raw,
+    itxtChunk(XMP_TEXT_KEYWORD, buildXmp(metadata)),
+    pngChunk('eXIf', buildExif(metadata)),
+    ...text.map(([keyword, value]) => itxtChunk(keyword, value)),
+    ...kept.map(chunk => chunk.raw),
+  ]);
+}
+
+// --- JPEG ---
+
+interface Segment {
+  marker: number;
+  data: Uint8Array; // after the length field
+  raw: Uint8Array;
+}
+
+/** The marker segments before the scan; the scan and everything after it is returned as `rest`. */
+function jpegSegments(jpeg: Uint8Array): { segments: Segment[]; rest: Uint8Array } {
+  const view = new DataView(jpeg.buffer, jpeg.byteOffset, jpeg.byteLength);
+  const segments: Segment[] = [];
+  let at = 2;
+  while (at + 4 <= jpeg.length && jpeg[at] === 0xff) {
+    const marker = jpeg[at + 1];
+    if (marker === 0xda || marker === 0xd9) break;
+    const end = at + 2 + view.getUint16(at + 2);
+    segments.push({ marker, data: jpeg.subarray(at + 4, end), raw: jpeg.subarray(at, end) });
+    at = end;
+  }
+  return { segments, rest: jpeg.subarray(at) };
+}
+
+function jpegSegment(marker: number, data: Uint8Array): Uint8Array {
+  const out = new Uint8Array(4 + data.length);
+  out[0] = 0xff;
+  out[1] = marker;
+  new DataView(out.buffer).setUint16(2, data.length + 2);
+  out.set(data, 4);
+  return out;
+}
+
+const isApp1 = (segment: Segment, header: string) => segment.marker === 0xe1 && hasPrefix(segment.data, 0, header);
+
+function embedJpeg(jpeg: Uint8Array, metadata: ImageMetadata): Uint8Array {
+  const { segments, rest } = jpegSegments(jpeg);
+  const kept = segments.filter(segment => !isApp1(segment, JPEG_EXIF_HEADER) && !isApp1(segment, JPEG_XMP_HEADER));
+  // JFIF's APP0 has to stay first.
+  const leading = kept.findIndex(segment => segment.marker !== 0xe0);
+  const split = leading < 0 ? kept.length : leading;
+  return concat([
+    jpeg.subarray(0, 2),
+    ...kept.slice(0, split).map(segment => segment.raw),
+    jpegSegment(0xe1, concat([ascii(JPEG_EXIF_HEADER), buildExif(metadata)])),
+    jpegSegment(0xe1, concat([ascii(JPEG_XMP_HEADER), encoder.encode(buildXmp(metadata))])),
+    ...kept.slice(split).map(segment => segment.raw),
+    rest,
+  ]);
+}
+
+// --- WebP ---
+
+function webpChunks(webp: Uint8Array): Chunk[] {
+  const view = new DataView(webp.buffer, webp.byteOffset, webp.byteLength);
+  const chunks: Chunk[] = [];
+  for (let at = 12; at + 8 <= webp.length;) {
+    const length = view.getUint32(at + 4, true);
+    const end = Math.min(webp.length, at + 8 + length + (length % 2));
+    chunks.push({ type: latin1(webp.subarray(at, at + 4)), data: webp.subarray(at + 8, at + 8 + length), raw: webp.subarray(at, end) });
+    at = end;
+  }
+  return chunks;
+}
+
+function webpChunk(type: string, data: Uint8Array): Uint8Array {
+  const out = new Uint8Array(8 + data.length + (data.length % 2));
+  out.set(ascii(type));
+  new DataView(out.buffer).setUint32(4, data.length, true);
+  out.set(data, 8);
+  return out;
+}
+
+// VP8X flag bits.
+const WEBP_ALPHA = 0x10;
+const WEBP_EXIF = 0x08;
+const WEBP_XMP = 0x04;
+
+/** The extended-format header a simple (VP8 or VP8L only) WebP needs before it can carry metadata. */
+function vp8xFor(image: Chunk): Uint8Array {
+  const view = new DataView(image.data.buffer, image.data.byteOffset, image.data.byteLength);
+  let width: number, height: number, flags = 0;
+  if (image.type === 'VP8L') {
+    const bits = view.getUint32(1, true);
+    width = (bits & 0x3fff) + 1;
+    height = ((bits >>> 14) & 0x3fff) + 1;
+    if ((bits >>> 28) & 1) flags |= WEBP_ALPHA;
+  } else {
+    width = view.getUint16(6, true) & 0x3fff;
+    height = view.getUint16(8, true) & 0x3fff;
+  }
+  const data = new Uint8Array(10);
+  data[0] = flags;
+  [width - 1, height - 1].forEach((value, i) => data.set([value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff], 4 + i * 3));
+  return data;
+}
+
+function embedWebp(webp: Uint8Array, metadata: ImageMetadata): Uint8Array {
+  const chunks = webpChunks(webp).filter(chunk => chunk.type !== 'EXIF' && chunk.type !== 'XMP ');
+  const header = chunks[0].type === 'VP8X' ? chunks[0].data.slice() : vp8xFor(chunks[0]);
+  header[0] |= WEBP_EXIF | WEBP_XMP;
+  const body = concat([
+    ascii('WEBP'),
+    webpChunk('VP8X', header),
+    ...chunks.filter(chunk => chunk.type !== 'VP8X').map(chunk => chunk.raw),
+    webpChunk('EXIF', buildExif(metadata)),
+    webpChunk('XMP ', encoder.encode(buildXmp(metadata))),
+  ]);
+  const out = concat([ascii('RIFF'), new Uint8Array(4), body]);
+  new DataView(out.buffer).setUint32(4, body.length, true);
+  return out;
+}
+
+// --- Both directions ---
+
+/**
+ * The file with the metadata written in, replacing any XMP and EXIF it had.
+ * Formats other than PNG, JPEG and WebP come back unchanged.
+ */
+export function embedImageMetadata(data: Uint8Array, metadata: ImageMetadata): Uint8Array {
+  const format = imageFormat(data);
+  if (format === 'png') return embedPng(data, metadata);
+  if (format === 'jpeg') return embedJpeg(data, metadata);
+  if (format === 'webp') return embedWebp(data, metadata);
+  return data;
+}
+
+/** Reads XMP, EXIF and PNG text from any PNG, JPEG or WebP; undefined for other formats. */
+export function readImageMetadata(data: Uint8Array): InspectedImage | undefined {
+  const format = imageFormat(data);
+  if (!format) return undefined;
+  let xmp: Record<string, string> = {};
+  let exif: Record<string, string> = {};
+  const text: Record<string, string> = {};
+
+  if (format === 'png') {
+    for (const chunk of pngChunks(data)) {
+      if (chunk.type === 'eXIf') exif = parseExif(chunk.data);
+      if (!isTextChunk(chunk)) continue;
+      const entry = readTextChunk(chunk);
+      if (entry?.[0] === XMP_TEXT_KEYWORD) xmp = parseXmp(entry[1]);
+      else if (entry) text[entry[0]] = entry[1];
+    }
+  } else if (format === 'jpeg') {
+    for (const segment of jpegSegments(data).segments) {
+      if (isApp1(segment, JPEG_EXIF_HEADER)) exif = parseExif(segment.data.subarray(JPEG_EXIF_HEADER.length));
+      if (isApp1(segment, JPEG_XMP_HEADER)) xmp = parseXmp(decoder.decode(segment.data.subarray(JPEG_XMP_HEADER.length)));
+    }
+  } else {
+    for (const chunk of webpChunks(data)) {
+      // Some writers keep JPEG's `Exif\0\0` prefix.
+      if (chunk.type === 'EXIF') exif = parseExif(chunk.data.subarray(hasPrefix(chunk.data, 0, JPEG_EXIF_HEADER) ? 6 : 0));
+      if (chunk.type === 'XMP ') xmp = parseXmp(decoder.decode(chunk.data));
+    }
+  }
+
+  const metadata: ImageMetadata = {
+    aiGenerated: xmp['cardigan:AIGenerated'] === 'True'
+      || AI_SOURCE_TYPES.includes(xmp['Iptc4xmpExt:DigitalSourceType'])
+      || text[AI_TEXT_KEYWORD] === 'Yes',
+  };
+  for (const field of Object.keys(METADATA_FIELDS) as MetadataField[]) {
+    const value = xmp[`cardigan:${XMP_PROPERTIES[field]}`] ?? text[METADATA_FIELDS[field]];
+    if (value === undefined) continue;
+    if (field === 'templateVersion') metadata.templateVersion = Number(value);
+    else metadata[field] = value;
+  }
+  return { format, metadata, xmp, exif, text };
+}
@@ -0,0 +1,105 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { borderColor, deltaE2000, pixelAt, rgbToLab } from './fidelity.ts';
+import type { PreprocessOptions, PreprocessStep } from './types.ts';
+
+// Clean-up for product photos before they become garment references. The mask
+// maths works on packed RGB bytes (3 per pixel) of a shrunk copy of the photo.
+
+export const PREPROCESS_STEPS: Record<PreprocessStep, string> = {
+  orientation: 'Fix orientation',
+  downscale: 'Downscale',
+  background: 'Clean background',
+  crop: 'Crop to garment',
+};
+
+export const DEFAULT_PREPROCESS: PreprocessOptions = { orientation: true, downscale: true, background: true, crop: true };
+
+// Uploads larger than this on their long side are scaled down; the model gains nothing from more.
+export const MAX_UPLOAD_DIMENSION = 2048;
+
+// Long side of the copy the background mask is worked out on.
+export const MASK_SIZE = 256;
+
+// ΔE2000 from the border colour within which a pixel still counts as background.
+const BACKGROUND_TOLERANCE = 14;
+
+// A mask covering less than this share of the photo finds no real background, and one
+// covering more has swallowed the garment; either way the photo is left alone.
+const MIN_BACKGROUND_SHARE = 0.1;
+const MAX_BACKGROUND_SHARE = 0.95;
+
+// Space left around the garment when cropping, as a share of the garment's long side.
+const CROP_PADDING = 0.06;
+
+export function validatePreprocessOptions(value: unknown): string | undefined {
+  const options = value as PreprocessOptions;
+  if (!options || typeof options !== 'object') return "Preprocessing options are required.";
+  if (!Object.keys(PREPROCESS_STEPS).every(step => typeof options[step as PreprocessStep] === 'boolean')) {
+    return "Each preprocessing step must be on or off.";
+  }
+  return undefined;
+}
+
+/**
+ * Marks the background (1) by flooding in from the border over pixels close
+ * to the border colour, so garment areas of the same colour inside it survive.
+ * Returns undefined when the photo has no clear background.
+ */
+export function backgroundMask(rgb: Uint8Array, width: number, height: number): Uint8Array | undefined {
+  const background = borderColor(rgb, width, height);
+  const mask = new Uint8Array(width * height);
+  const isBackground = (i: number) => deltaE2000(rgbToLab(...pixelAt(rgb, i)), background) <= BACKGROUND_TOLERANCE;
+
+  const queue: number[] = [];
+  const visit = (i: number) => {
+    if (mask[i] || !isBackground(i)) return;
+    mask[i] = 1;
+    queue.push(i);
+  };
+  for (let x = 0; x < width; x++) { visit(x); visit((height - 1) * width + x); }
+  for (let y = 0; y < height; y++) { visit(y * width); visit(y * width + width - 1); }
+  for (let head = 0; head < queue.length; head++) {
+    const i = queue[head];
+    const x = i % width;
+    if (x > 0) visit(i - 1);
+    if (x < width - 1) visit(i + 1);
+    if (i >= width) visit(i - width);
+    if (i < width * (height - 1)) visit(i + width);
+  }
+
+  const share = queue.length / mask.length;
+  return share >= MIN_BACKGROUND_SHARE && share <= MAX_BACKGROUND_SHARE ? mask : undefined;
+}
+
+export interface Bounds {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/** The padded box around everything the mask does not mark as background, within the frame. */
+export function garmentBounds(mask: Uint8Array, width: number, height: number): Bounds {
+  let [left, top, right, bottom] = [width, height, -1, -1];
+  for (let i = 0; i < mask.length; i++) {
+    if (mask[i]) continue;
+    const x = i % width;
+    const y = Math.floor(i / width);
+    left = Math.min(left, x);
+    right = Math.max(right, x);
+    top = Math.min(top, y);
+    bottom = Math.max(bottom, y);
+  }
+  if (right < 0) return { left: 0, top: 0, width, height };
+
+  const pad = Math.ceil(Math.max(right - left, bottom - top) * CROP_PADDING);
+  left = Math.max(0, left - pad);
+  top = Math.max(0, top - pad);
+  right = Math.min(width - 1, right + pad);
+  bottom = Math.min(height - 1, bottom + pad);
+  return { left, top, width: right - left + 1, height: bottom - top + 1 };
+}
@@ -0,0 +1,60 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { OutfitMatch, OutfitRole, ProductInfo } from './types.ts';
+
+export const MAX_VIEWS_PER_PRODUCT = 6;
+
+export const OUTFIT_ROLES: Record<OutfitRole, string> = {
+  top: 'Inner top',
+  bottom: 'Bottom',
+  shoes: 'Shoes',
+  bag: 'Bag',
+};
+
+export const OUTFIT_MATCHES: Record<OutfitMatch, string> = {
+  exact: 'Must match exactly',
+  suggestion: 'Style suggestion',
+};
+
+export const MAX_OUTFIT_NOTE_LENGTH = 200;
+
+/** Checks everything but the images. At most one piece per role. */
+export function validateOutfit(outfit: unknown): string | undefined {
+  if (!Array.isArray(outfit)) return "The outfit must be a list of pieces.";
+  const roles = new Set<string>();
+  for (const piece of outfit) {
+    if (!Object.keys(OUTFIT_ROLES).includes(piece?.role)) return "Outfit pieces must be an inner top, bottom, shoes or bag.";
+    if (roles.has(piece.role)) return `The outfit has more than one ${OUTFIT_ROLES[piece.role as OutfitRole].toLowerCase()}.`;
+    roles.add(piece.role);
+    if (!Object.keys(OUTFIT_MATCHES).includes(piece.match)) return "Each outfit piece must match exactly or be a style suggestion.";
+    if (piece.note !== undefined && typeof piece.note !== 'string') return "Outfit notes must be text.";
+    if (piece.note?.length > MAX_OUTFIT_NOTE_LENGTH) return `Outfit notes can be at most ${MAX_OUTFIT_NOTE_LENGTH} characters.`;
+  }
+  return undefined;
+}
+
+/** Orders pieces as OUTFIT_ROLES lists them, so prompts read top to bottom. */
+export const sortOutfit = <Piece extends { role: OutfitRole }>(outfit: Piece[]) =>
+  [...outfit].sort((a, b) => Object.keys(OUTFIT_ROLES).indexOf(a.role) - Object.keys(OUTFIT_ROLES).indexOf(b.role));
+
+/**
+ * `SKU123_front.jpg` → `{ sku: 'SKU123', view: 'front' }`. The SKU is everything
+ * before the last underscore; a name without one is a SKU with no view label.
+ */
+export function parseViewFileName(fileName: string): { sku: string; view?: string } {
+  const stem = fileName.replace(/^.*[\\/]/, '').replace(/\.[^.]+$/, '');
+  const split = stem.lastIndexOf('_');
+  if (split <= 0 || split === stem.length - 1) return { sku: stem };
+  return { sku: stem.slice(0, split), view: stem.slice(split + 1) };
+}
+
+/** What the UI and prompts call a product: its name, else its SKU, else its position. */
+export const productLabel = (product: ProductInfo, index: number) =>
+  product.name || product.sku || `Product ${index + 1}`;
+
+/** File-name-safe prefix for downloads and exports, e.g. `SKU123` or `product-2`. */
+export const productFileStem = (product: ProductInfo, index: number) =>
+  (product.sku || product.name || `product-${index + 1}`).replace(/[^\w.-]+/g, '-');
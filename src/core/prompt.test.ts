@@ -0,0 +1,32 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { buildShotParts, DEFAULT_TEMPLATE, describeParts, type ShotInput } from './prompt.ts';
+
+const shot: ShotInput<string> = {
+  shotIndex: 0,
+  productName: 'Moss cardigan',
+  scene: 'scene.png',
+  views: [{ image: 'front.png' }],
+};
+
+describe('buildShotParts', () => {
+  it('renders the product colorway and notes into the default shot direction', () => {
+    const parts = buildShotParts(DEFAULT_TEMPLATE.body, { ...shot, colorway: 'Forest green', notes: 'Keep the horn buttons visible.' });
+
+    expect(parts[1]).toEqual({
+      text: 'SHOT #1: Moss cardigan. Colorway: Forest green. Notes: Keep the horn buttons visible.',
+    });
+  });
+
+  it('drops the labels of empty fields', () => {
+    const prompt = describeParts(buildShotParts(DEFAULT_TEMPLATE.body, { ...shot, notes: '  ' }));
+
+    expect(prompt).toContain('SHOT #1: Moss cardigan.\n');
+    expect(prompt).not.toContain('Colorway:');
+    expect(prompt).not.toContain('Notes:');
+  });
+});
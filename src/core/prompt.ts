@@ -0,0 +1,194 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { OUTFIT_ROLES } from './products.ts';
+import type {
+  InlineImage,
+  OutfitMatch,
+  OutfitRole,
+  PromptPart,
+  PromptTemplate,
+  PromptTemplateBody,
+  PromptVariables
+} from './types.ts';
+
+export const TEMPLATE_VARIABLES = [
+  'shotNumber',
+  'productName',
+  'sku',
+  'colorway',
+  'notes',
+  'season',
+  'modelDescriptor',
+  'modelName',
+  'backgroundNote',
+] as const;
+
+export type TemplateVariable = typeof TEMPLATE_VARIABLES[number];
+
+export const TEMPLATE_FIELDS: { key: keyof PromptTemplateBody; label: string }[] = [
+  { key: 'system', label: 'System instructions' },
+  { key: 'shot', label: 'Shot direction' },
+  { key: 'diverseModel', label: 'Model descriptor: diverse faces' },
+  { key: 'identityModel', label: 'Model descriptor: model identity' },
+  { key: 'closing', label: 'Closing instruction' },
+];
+
+export const DEFAULT_TEMPLATE: PromptTemplate = {
+  id: 'builtin:studio',
+  version: 2,
+  name: 'Studio default',
+  builtIn: true,
+  createdAt: 0,
+  body: {
+    system: `You are a world-class commercial fashion photographer.
+TASK: Generate a professional 4K fashion photograph.
+
+STRICT REQUIREMENTS:
+1. BACKGROUND & SETTING: You MUST use the exact same background, environment, and lighting as shown in the provided "SCENE REFERENCE" image. The setting must remain perfectly consistent across all generations.
+2. POSE: You MUST replicate the pose and camera angle from the "SCENE REFERENCE" image.
+3. TARGET PRODUCT: The model MUST be wearing the "TARGET CARDIGAN". Replicate its color, knit pattern, texture, and silhouette with 100% accuracy.
+4. MODEL: The model is {{modelDescriptor}}
+5. QUALITY: Output must be 4K, sharp, professional editorial quality.`,
+    shot: `SHOT #{{shotNumber}}: {{productName}}.{{#colorway}} Colorway: {{colorway}}.{{/colorway}}{{#notes}} Notes: {{notes}}{{/notes}}{{#season}} Style the shot for {{season}}.{{/season}}{{#backgroundNote}} Background note: {{backgroundNote}}{{/backgroundNote}}`,
+    diverseModel: `a DIFFERENT, unique, and realistic woman for this shot. Ensure the faces are diverse and professional. The face should look natural and seamlessly integrated into the scene.`,
+    identityModel: `{{modelName}}, the exact person shown in the "MODEL IDENTITY REFERENCE" images. Keep her face, features, hair, skin tone and body type identical so she is recognisable across every shot. Take only her identity from those images, never their clothing, background or pose.`,
+    closing: `Generate the 4K photo now.`,
+  },
+};
+
+// Version 1 stays resolvable so sessions started on it resume with the same prompt.
+const STUDIO_V1: PromptTemplate = {
+  ...DEFAULT_TEMPLATE,
+  version: 1,
+  body: {
+    ...DEFAULT_TEMPLATE.body,
+    shot: `SHOT #{{shotNumber}}: {{productName}}.{{#season}} Style the shot for {{season}}.{{/season}}{{#backgroundNote}} Background note: {{backgroundNote}}{{/backgroundNote}}`,
+  },
+};
+
+export const BUILT_IN_TEMPLATES: PromptTemplate[] = [DEFAULT_TEMPLATE, STUDIO_V1];
+
+const SECTION = /\{\{\s*#(\w+)\s*\}\}([\s\S]*?)\{\{\s*\/\1\s*\}\}/g;
+const TOKEN = /\{\{\s*([#/]?)(\w+)\s*\}\}/g;
+
+/**
+ * Fills `{{name}}` tokens. `{{#name}}…{{/name}}` keeps its contents only when
+ * `name` has a value, so optional variables don't leave dangling labels.
+ */
+export function renderTemplate(text: string, values: Partial<Record<TemplateVariable, string>>): string {
+  const lookup = (name: string) => values[name as TemplateVariable]?.trim() ?? '';
+  return text
+    .replace(SECTION, (_, name, inner) => lookup(name) ? inner : '')
+    .replace(TOKEN, (_, __, name) => lookup(name));
+}
+
+/** Returns a message describing what's wrong with the template, or undefined. */
+export function validateTemplateBody(body: unknown): string | undefined {
+  if (!body || typeof body !== 'object') return "Template body is required.";
+  for (const { key, label } of TEMPLATE_FIELDS) {
+    const text = (body as Record<string, unknown>)[key];
+    if (typeof text !== 'string') return `${label} must be text.`;
+    if ((key === 'system' || key === 'closing') && !text.trim()) return `${label} cannot be empty.`;
+
+    const open: string[] = [];
+    for (const [, marker, name] of text.matchAll(TOKEN)) {
+      if (!(TEMPLATE_VARIABLES as readonly string[]).includes(name)) return `${label}: unknown variable {{${name}}}.`;
+      if (marker === '#') open.push(name);
+      if (marker === '/' && open.pop() !== name) return `${label}: {{/${name}}} has no matching {{#${name}}}.`;
+    }
+    if (open.length) return `${label}: {{#${open[open.length - 1]}}} is never closed.`;
+  }
+  return undefined;
+}
+
+export interface ShotIdentity<Image = InlineImage> {
+  name: string;
+  images: Image[];
+}
+
+export interface ShotView<Image = InlineImage> {
+  image: Image;
+  label?: string;
+}
+
+export interface ShotOutfitPiece<Image = InlineImage> {
+  role: OutfitRole;
+  match: OutfitMatch;
+  image: Image;
+  note?: string;
+}
+
+/** Generic over the image type so the app can preview parts with object URLs. */
+export interface ShotInput<Image = InlineImage> {
+  shotIndex: number;
+  productName: string;
+  sku?: string;
+  colorway?: string;
+  notes?: string;
+  scene: Image;
+  views: ShotView<Image>[];
+  outfit?: ShotOutfitPiece<Image>[];
+  extraPrompt?: string;
+  revisionNote?: string;
+  identity?: ShotIdentity<Image>;
+  variables?: PromptVariables;
+}
+
+// Every view is labelled TARGET CARDIGAN so the model treats them as one garment.
+function targetLabel(view: ShotView<unknown>, count: number): string {
+  if (count === 1) return "TARGET CARDIGAN (Garment to feature):";
+  return view.label
+    ? `TARGET CARDIGAN (Garment to feature, ${view.label} view):`
+    : "TARGET CARDIGAN (Garment to feature, another view of the same garment):";
+}
+
+// Exact pieces are held to the same standard as the cardigan; suggestions only set the look.
+function outfitLabel({ role, match, note }: ShotOutfitPiece<unknown>): string {
+  const item = OUTFIT_ROLES[role].toUpperCase();
+  const rule = match === 'exact'
+    ? "our own product, reproduce this exact item: same colour, pattern, material and shape"
+    : "style suggestion, a similar item in this style is fine";
+  return `OUTFIT PIECE: ${item} (worn with the cardigan; ${rule})${note ? `. Note: ${note}` : ''}:`;
+}
+
+export function buildShotParts<Image = InlineImage>(
+  template: PromptTemplateBody,
+  { shotIndex, productName, sku, colorway, notes, scene, views, outfit = [], extraPrompt, revisionNote, identity, variables = {} }: ShotInput<Image>
+): PromptPart<Image>[] {
+  const values: Partial<Record<TemplateVariable, string>> = {
+    shotNumber: String(shotIndex + 1),
+    productName,
+    sku,
+    colorway,
+    notes,
+    season: variables.season,
+    backgroundNote: variables.backgroundNote,
+    modelName: identity?.name,
+  };
+  values.modelDescriptor = renderTemplate(identity ? template.identityModel : template.diverseModel, values);
+  const text = (source: string) => ({ text: renderTemplate(source, values).trim() });
+
+  const parts: PromptPart<Image>[] = [
+    text(template.system),
+    text(template.shot),
+    { text: "SCENE REFERENCE (Background & Pose):" },
+    { inlineData: scene },
+    ...views.flatMap(view => [{ text: targetLabel(view, views.length) }, { inlineData: view.image }]),
+    ...outfit.flatMap(piece => [{ text: outfitLabel(piece) }, { inlineData: piece.image }]),
+    ...(identity ? [
+      { text: `MODEL IDENTITY REFERENCE (${identity.name}, face & body only):` },
+      ...identity.images.map(image => ({ inlineData: image })),
+    ] : []),
+    ...(extraPrompt ? [{ text: `ADDITIONAL DIRECTION FOR THIS SHOT: ${extraPrompt}` }] : []),
+    ...(revisionNote ? [{ text: `REVISION NOTE (fix this from the previous attempt): ${revisionNote}` }] : []),
+    text(template.closing),
+  ];
+  return parts.filter(part => !('text' in part) || part.text);
+}
+
+/** The prompt as the model saw it, with images as placeholders. Stored with each shot. */
+export const describeParts = (parts: PromptPart<unknown>[]) =>
+  parts.map(part => 'text' in part ? part.text : '[image]').join('\n\n');
@@ -0,0 +1,78 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { RenditionFormat, RenditionInfo, RenditionSettings } from './types.ts';
+
+export const RENDITION_FORMATS: Record<RenditionFormat, { label: string; mimeType: string; extension: string }> = {
+  jpeg: { label: 'JPEG', mimeType: 'image/jpeg', extension: 'jpg' },
+  webp: { label: 'WebP', mimeType: 'image/webp', extension: 'webp' },
+};
+
+export const MIN_RENDITION_WIDTH = 64;
+export const MAX_RENDITION_WIDTH = 4096;
+export const MAX_RENDITION_WIDTHS = 6;
+
+export const DEFAULT_RENDITIONS: RenditionSettings = {
+  widths: [2048, 1200, 600],
+  formats: ['jpeg', 'webp'],
+  quality: { jpeg: 85, webp: 80 },
+  thumbnailSize: 400,
+};
+
+/** One file to produce: a width in one format, or the square thumbnail. */
+export interface RenditionSpec {
+  name: string;
+  format: RenditionFormat;
+  quality: number;
+  width: number;
+  square: boolean;
+}
+
+const THUMBNAIL_PREFIX = 'thumb.';
+
+export const isThumbnail = (rendition: Pick<RenditionInfo, 'name'>) => rendition.name.startsWith(THUMBNAIL_PREFIX);
+
+/**
+ * Every width in every format, widest first, then one thumbnail per format.
+ * Given the source's width, wider renditions become one at the source's own
+ * width, since images are never upscaled and a name must match the file.
+ */
+export function renditionSpecs(settings: RenditionSettings, sourceWidth = Infinity): RenditionSpec[] {
+  const widths = [...new Set(settings.widths.map(width => Math.min(width, sourceWidth)))].sort((a, b) => b - a);
+  return settings.formats.flatMap(format => {
+    const { extension } = RENDITION_FORMATS[format];
+    const quality = settings.quality[format];
+    return [
+      ...widths.map(width => ({ name: `${width}.${extension}`, format, quality, width, square: false })),
+      ...(settings.thumbnailSize
+        ? [{ name: `${THUMBNAIL_PREFIX}${extension}`, format, quality, width: settings.thumbnailSize, square: true }]
+        : []),
+    ];
+  });
+}
+
+const isSize = (value: unknown) =>
+  Number.isInteger(value) && (value as number) >= MIN_RENDITION_WIDTH && (value as number) <= MAX_RENDITION_WIDTH;
+
+/** Returns an error message, or undefined when the settings are usable. */
+export function validateRenditionSettings(value: any): string | undefined {
+  if (!value || typeof value !== 'object') return "Rendition settings must be an object.";
+  if (!Array.isArray(value.widths) || value.widths.length > MAX_RENDITION_WIDTHS || !value.widths.every(isSize)) {
+    return `Rendition widths must be up to ${MAX_RENDITION_WIDTHS} whole numbers from ${MIN_RENDITION_WIDTH} to ${MAX_RENDITION_WIDTH}.`;
+  }
+  if (!Array.isArray(value.formats) || !value.formats.every((format: unknown) => Object.hasOwn(RENDITION_FORMATS, format as string))) {
+    return `Rendition formats must be from: ${Object.keys(RENDITION_FORMATS).join(', ')}.`;
+  }
+  for (const format of value.formats as RenditionFormat[]) {
+    const quality = value.quality?.[format];
+    if (!Number.isInteger(quality) || quality < 1 || quality > 100) {
+      return `${RENDITION_FORMATS[format].label} quality must be a whole number from 1 to 100.`;
+    }
+  }
+  if (value.thumbnailSize !== undefined && !isSize(value.thumbnailSize)) {
+    return `Thumbnail size must be a whole number from ${MIN_RENDITION_WIDTH} to ${MAX_RENDITION_WIDTH}.`;
+  }
+  return undefined;
+}
@@ -0,0 +1,42 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { LibraryScene, SceneTagKind, SceneTags } from './types.ts';
+
+// Tags are free text; the suggestions only seed the pickers.
+export const SCENE_TAGS: Record<SceneTagKind, { label: string; suggestions: string[] }> = {
+  location: { label: "Location", suggestions: ["Studio", "Street", "Café", "Park", "Beach", "Home interior"] },
+  pose: { label: "Pose", suggestions: ["Front", "Three-quarter", "Walking", "Seated"] },
+  lighting: { label: "Lighting", suggestions: ["Studio softbox", "Natural daylight", "Golden hour", "Overcast"] },
+  season: { label: "Season", suggestions: ["Spring", "Summer", "Autumn", "Winter"] },
+};
+
+export const SCENE_TAG_KINDS = Object.keys(SCENE_TAGS) as SceneTagKind[];
+export const MAX_SCENE_TAG_LENGTH = 40;
+
+/** Returns an error message, or undefined when the tags are usable. */
+export function validateSceneTags(value: any): string | undefined {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return "Scene tags must be an object.";
+  for (const [kind, tag] of Object.entries(value)) {
+    if (!SCENE_TAG_KINDS.includes(kind as SceneTagKind)) return `Unknown scene tag "${kind}".`;
+    if (tag !== undefined && typeof tag !== 'string') return `The ${kind} tag must be text.`;
+    if (typeof tag === 'string' && tag.trim().length > MAX_SCENE_TAG_LENGTH) {
+      return `The ${kind} tag can be at most ${MAX_SCENE_TAG_LENGTH} characters.`;
+    }
+  }
+  return undefined;
+}
+
+/** Known tags only, trimmed, with empty ones dropped. */
+export const normalizeSceneTags = (tags: SceneTags): SceneTags =>
+  Object.fromEntries(SCENE_TAG_KINDS.flatMap(kind => tags[kind]?.trim() ? [[kind, tags[kind]!.trim()]] : []));
+
+/** True when the scene carries every tag set in the filter. Tags compare case-insensitively. */
+export const matchesSceneFilter = (scene: LibraryScene, filter: SceneTags) =>
+  SCENE_TAG_KINDS.every(kind => !filter[kind] || scene.tags[kind]?.toLowerCase() === filter[kind]!.toLowerCase());
+
+/** The distinct values of one tag across the library, for the filter pickers. */
+export const sceneTagValues = (scenes: LibraryScene[], kind: SceneTagKind) =>
+  [...new Set(scenes.flatMap(scene => scene.tags[kind] ? [scene.tags[kind]!] : []))].sort((a, b) => a.localeCompare(b));
@@ -0,0 +1,29 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ReviewStatus } from './types.ts';
+
+// Parallel image requests per batch.
+export const DEFAULT_CONCURRENCY = 2;
+export const MAX_CONCURRENCY = 6;
+
+// Extra takes of one shot requested at a time from the results grid.
+export const MAX_VARIATIONS = 4;
+
+export const REVIEW_STATUSES: Record<ReviewStatus, string> = {
+  approved: 'Approved',
+  rejected: 'Rejected',
+  retouch: 'Needs retouch',
+};
+
+// Statuses a review link can set; retouch calls stay with the studio.
+export const REVIEWER_STATUSES: ReviewStatus[] = ['approved', 'rejected'];
+
+export const MAX_REVIEWER_NAME_LENGTH = 80;
+
+export const clampConcurrency = (value: unknown, fallback = DEFAULT_CONCURRENCY) => {
+  const n = Math.round(Number(value));
+  return Number.isFinite(n) && n > 0 ? Math.min(n, MAX_CONCURRENCY) : fallback;
+};
@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { AspectRatio, ImageSize, ShotPlan, ShotPlanPreset, ShotSpec } from './types.ts';
+
+export const ASPECT_RATIOS: AspectRatio[] = ['1:1', '4:5', '3:4', '9:16', '16:9'];
+export const IMAGE_SIZES: ImageSize[] = ['1K', '2K', '4K'];
+export const MAX_SHOTS_PER_TARGET = 12;
+
+const shots = (count: number, spec: ShotSpec): ShotSpec[] => Array.from({ length: count }, () => ({ ...spec }));
+
+// Marketplace presets that ship with the app. Saved presets live on the server.
+export const BUILT_IN_PRESETS: ShotPlanPreset[] = [
+  {
+    id: 'builtin:catalog',
+    name: 'Classic catalog',
+    builtIn: true,
+    plan: { shots: shots(4, { aspectRatio: '3:4', imageSize: '1K' }) },
+  },
+  {
+    id: 'builtin:shopify-pdp',
+    name: 'Shopify PDP',
+    builtIn: true,
+    plan: { shots: shots(4, { aspectRatio: '4:5', imageSize: '2K' }) },
+  },
+  {
+    id: 'builtin:instagram-story',
+    name: 'Instagram story',
+    builtIn: true,
+    plan: { shots: shots(3, { aspectRatio: '9:16', imageSize: '2K', extraPrompt: 'Leave calm space in the top and bottom fifth of the frame for story overlays.' }) },
+  },
+  {
+    id: 'builtin:amazon-main',
+    name: 'Amazon main image',
+    builtIn: true,
+    plan: {
+      shots: [{
+        aspectRatio: '1:1',
+        imageSize: '2K',
+        extraPrompt: 'Full-length front view. The garment must fill most of the frame and be fully visible, with nothing cropped.'
+      }]
+    },
+  },
+];
+
+export const DEFAULT_SHOT_PLAN: ShotPlan = BUILT_IN_PRESETS[0].plan;
+
+/** Stretches or trims a plan to `count` shots, repeating its shots in order. */
+export const resizePlan = (plan: ShotPlan, count: number): ShotPlan => ({
+  shots: Array.from({ length: count }, (_, i) => ({ ...plan.shots[i % plan.shots.length] })),
+});
+
+/**
+ * Scene reference used by a shot: the pinned one, else cycle through the
+ * scenes starting `offset` scenes in (the product's position in rotate order).
+ */
+export const resolveSceneIndex = (spec: ShotSpec, shotIndex: number, sceneCount: number, offset = 0) =>
+  spec.sceneIndex ?? (shotIndex + offset) % sceneCount;
+
+/** Gives a product's plan the batch plan's scene pins slot by slot, so every product shares one scene order. */
+export const alignSceneOrder = (plan: ShotPlan, batchPlan: ShotPlan): ShotPlan => ({
+  shots: plan.shots.map((shot, i) => ({ ...shot, sceneIndex: batchPlan.shots[i]?.sceneIndex })),
+});
+
+/** Returns a reason the plan is unusable with `sceneCount` scenes, or null if it is fine. */
+export function validateShotPlan(plan: any, sceneCount: number): string | null {
+  if (!Array.isArray(plan?.shots) || plan.shots.length === 0) return "A shot plan needs at least one shot.";
+  if (plan.shots.length > MAX_SHOTS_PER_TARGET) return `A shot plan can have at most ${MAX_SHOTS_PER_TARGET} shots.`;
+  for (const [i, spec] of (plan.shots as any[]).entries()) {
+    if (!ASPECT_RATIOS.includes(spec?.aspectRatio)) return `Shot ${i + 1} has an unsupported aspect ratio.`;
+    if (!IMAGE_SIZES.includes(spec?.imageSize)) return `Shot ${i + 1} has an unsupported output size.`;
+    if (spec.sceneIndex !== undefined && !(Number.isInteger(spec.sceneIndex) && spec.sceneIndex >= 0 && spec.sceneIndex < sceneCount)) {
+      return `Shot ${i + 1} points at a scene reference that does not exist.`;
+    }
+    if (spec.extraPrompt !== undefined && typeof spec.extraPrompt !== 'string') return `Shot ${i + 1} has an invalid extra prompt.`;
+  }
+  return null;
+}
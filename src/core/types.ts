@@ -0,0 +1,407 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Types shared by the browser app and the generation server.
+
+export interface InlineImage {
+  data: string; // base64, no data: prefix
+  mimeType: string;
+}
+
+export type PromptPart<Image = InlineImage> = { text: string } | { inlineData: Image };
+
+export type AspectRatio = '1:1' | '4:5' | '3:4' | '9:16' | '16:9';
+export type ImageSize = '1K' | '2K' | '4K';
+
+export interface ShotSpec {
+  sceneIndex?: number; // into the batch's scenes; unset cycles through them
+  aspectRatio: AspectRatio;
+  imageSize: ImageSize;
+  extraPrompt?: string;
+}
+
+export interface ShotPlan {
+  shots: ShotSpec[];
+}
+
+export type RenditionFormat = 'jpeg' | 'webp';
+
+/** Web-ready copies made of every generated image; see renditions.ts. */
+export interface RenditionSettings {
+  widths: number[]; // never upscaled past the original
+  formats: RenditionFormat[]; // empty keeps the original only
+  quality: Record<RenditionFormat, number>; // 1-100
+  thumbnailSize?: number; // square crop edge; unset skips the thumbnail
+}
+
+export interface RenditionInfo {
+  name: string; // e.g. `1200.jpg` or `thumb.webp`, unique per image
+  mimeType: string;
+  width: number;
+  height: number;
+}
+
+/** What happens to shots whose garment fidelity falls below the threshold; see fidelity.ts. */
+export interface FidelitySettings {
+  threshold: number; // 0-100
+  action: 'flag' | 'requeue';
+  maxRequeues: number; // automatic re-queues per shot when action is requeue
+  critique: boolean; // also ask a vision model to compare the garment
+}
+
+export interface FidelityResult {
+  score: number; // 0-100 from the colour comparison
+  deltaE: number; // weighted CIEDE2000 between garment and output colours
+  garmentColors: string[]; // hex, most common first
+  critique?: { score: number; notes: string };
+  flagged: boolean; // below the session's threshold
+}
+
+export interface ShotPlanPreset {
+  id: string;
+  name: string;
+  plan: ShotPlan;
+  builtIn?: boolean;
+}
+
+// diverse: a new face every shot. single: one model for the whole batch.
+// rotate: products take turns through a roster of models.
+export type IdentityMode = 'diverse' | 'single' | 'rotate';
+
+export interface IdentitySelection {
+  mode: IdentityMode;
+  identityIds: string[]; // empty for diverse, one for single, the roster for rotate
+}
+
+export interface ModelIdentity {
+  id: string;
+  name: string;
+  description?: string;
+  imageIds: string[];
+  createdAt: number;
+}
+
+export interface CreateIdentityRequest {
+  name: string;
+  description?: string;
+  images: InlineImage[];
+}
+
+export type SceneTagKind = 'location' | 'pose' | 'lighting' | 'season';
+export type SceneTags = Partial<Record<SceneTagKind, string>>;
+
+/** A scene reference kept in the library for reuse across sessions. */
+export interface LibraryScene {
+  id: string;
+  name: string;
+  imageId: string;
+  tags: SceneTags;
+  createdAt: number;
+}
+
+export interface SaveSceneRequest {
+  name: string;
+  image?: InlineImage; // required when adding a scene, ignored when editing one
+  tags: SceneTags;
+}
+
+// 'same': every product walks the scenes in the same order; 'rotate': each product starts one scene further on.
+export type SceneOrder = 'same' | 'rotate';
+
+// Each editable block of a prompt template; see TEMPLATE_FIELDS in prompt.ts.
+export interface PromptTemplateBody {
+  system: string;
+  shot: string;
+  diverseModel: string;
+  identityModel: string;
+  closing: string;
+}
+
+/** One saved version. Versions are immutable; edits are saved as the next version. */
+export interface PromptTemplate {
+  id: string;
+  version: number;
+  name: string;
+  body: PromptTemplateBody;
+  builtIn?: boolean;
+  createdAt: number;
+}
+
+export interface TemplateRef {
+  id: string;
+  version: number;
+}
+
+// Session-wide values for the template variables that aren't derived per shot.
+export interface PromptVariables {
+  season?: string;
+  backgroundNote?: string;
+}
+
+export interface SavePromptTemplateRequest {
+  name: string;
+  body: PromptTemplateBody;
+}
+
+export interface ProductInfo {
+  sku?: string;
+  name?: string;
+  colorway?: string;
+  notes?: string;
+}
+
+/** One photo of a product. `label` names the angle, e.g. `front` from `SKU123_front.jpg`. */
+export interface ProductView {
+  imageId: string; // what the model was sent
+  originalImageId?: string; // the upload, when preprocessing changed it
+  label?: string;
+}
+
+/** A styling piece worn with the cardigan in every shot of its product. */
+export type OutfitRole = 'top' | 'bottom' | 'shoes' | 'bag';
+
+/** `exact` pieces are our own range and must be reproduced; `suggestion` only sets the style. */
+export type OutfitMatch = 'exact' | 'suggestion';
+
+export interface OutfitPiece {
+  role: OutfitRole;
+  match: OutfitMatch;
+  imageId: string;
+  note?: string; // e.g. "tucked in", "SKU T-204"
+}
+
+export interface OutfitPieceInput {
+  role: OutfitRole;
+  match: OutfitMatch;
+  image: InlineImage;
+  note?: string;
+}
+
+export type ShotStatus = 'pending' | 'processing' | 'retrying' | 'completed' | 'error' | 'cancelled';
+// `partial`: finished with some shots completed and some failed or cancelled.
+export type JobStatus = ShotStatus | 'paused' | 'partial';
+export type BatchStatus = 'pending' | 'processing' | 'paused' | 'completed' | 'partial' | 'error' | 'cancelled';
+
+export type ReviewStatus = 'approved' | 'rejected' | 'retouch';
+
+export interface ShotComment {
+  body: string;
+  author?: string; // reviewer name for comments left through a review link
+  createdAt: number;
+}
+
+export interface ShotRecord {
+  index: number;
+  status: ShotStatus;
+  attempts: number;
+  sceneImageId: string;
+  aspectRatio: AspectRatio;
+  imageSize: ImageSize;
+  extraPrompt?: string;
+  note?: string; // revision note from the latest regenerate
+  variantOf?: number; // index of the planned shot this is a variation of
+  identityId?: string;
+  identityName?: string; // kept even if the identity is later deleted
+  templateId?: string; // template and rendered prompt of the latest attempt
+  templateVersion?: number;
+  prompt?: string;
+  model?: string; // image model that produced the image
+  imageId?: string;
+  mimeType?: string; // of the image as the model returned it
+  renditions: RenditionInfo[];
+  error?: string;
+  completedAt?: number;
+  review?: ReviewStatus; // of the current image; cleared when a new one arrives
+  reviewedBy?: string; // reviewer who set `review` through a review link
+  fidelity?: FidelityResult; // likewise
+  autoRequeues: number; // takes re-queued by the fidelity check
+  comments: ShotComment[];
+}
+
+export interface JobRecord extends ProductInfo {
+  id: string;
+  status: JobStatus;
+  error?: string;
+  batchId?: string;
+  targetImageId: string; // the first view, used as the product's thumbnail
+  views: ProductView[];
+  outfit: OutfitPiece[]; // in OUTFIT_ROLES order
+  shots: ShotRecord[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface CreateJobRequest {
+  target: InlineImage;
+  scenes: InlineImage[];
+  plan?: ShotPlan;
+}
+
+export interface BatchSummary {
+  id: string;
+  name: string;
+  status: BatchStatus;
+  concurrency: number;
+  targetCount: number;
+  completedTargets: number;
+  imageCount: number;
+  approvedCount: number;
+  spent: number; // USD, from the model's reported usage
+  budget?: number; // USD; the session pauses once `spent` reaches it
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** A named session: its inputs plus one job per target, in upload order. */
+export interface BatchRecord extends BatchSummary {
+  identity: IdentitySelection;
+  template: TemplateRef;
+  promptVariables: PromptVariables;
+  renditions: RenditionSettings;
+  fidelity: FidelitySettings;
+  imageModel?: string; // sessions from before models were selectable used the provider's default
+  sceneImageIds: string[];
+  sceneIds: (string | null)[]; // library scene behind each of sceneImageIds; null for one-off uploads
+  jobs: JobRecord[];
+}
+
+/** Provenance embedded in exported images. Fields a file doesn't carry are left unset. */
+export interface ImageMetadata {
+  sku?: string;
+  productName?: string;
+  sceneId?: string; // scene library entry
+  model?: string; // image model
+  templateId?: string;
+  templateVersion?: number;
+  generatedAt?: string; // ISO 8601
+  aiGenerated: boolean;
+}
+
+export type MetadataField = Exclude<keyof ImageMetadata, 'aiGenerated'>;
+
+export type MetadataFormat = 'png' | 'jpeg' | 'webp';
+
+/** What the inspector found in a file: the provenance fields, plus every raw value for anything else. */
+export interface InspectedImage {
+  format: MetadataFormat;
+  metadata: ImageMetadata;
+  xmp: Record<string, string>; // simple properties by qualified name, e.g. `xmp:CreatorTool`
+  exif: Record<string, string>; // text tags of the first IFD, by tag name
+  text: Record<string, string>; // PNG text chunks, by keyword
+}
+
+/** A read-only share of a session. The token is the only credential a reviewer needs. */
+export interface ReviewLink {
+  token: string;
+  batchId: string;
+  createdAt: number;
+}
+
+/** What a review link shows: the finished images and their review, nothing about how they were made. */
+export interface SharedReview {
+  name: string;
+  products: SharedProduct[];
+}
+
+export interface SharedProduct {
+  jobId: string;
+  sku?: string;
+  name?: string;
+  colorway?: string;
+  shots: SharedShot[];
+}
+
+export interface SharedShot {
+  index: number;
+  imageId: string;
+  aspectRatio: AspectRatio;
+  renditions: RenditionInfo[];
+  review?: ReviewStatus;
+  reviewedBy?: string;
+  comments: ShotComment[];
+}
+
+export interface TargetViewInput {
+  image: InlineImage;
+  original?: InlineImage; // kept for reference when `image` is a cleaned-up copy
+  label?: string;
+}
+
+export type PreprocessStep = 'orientation' | 'downscale' | 'background' | 'crop';
+
+/** Which clean-up steps run on product photos as they are added. */
+export type PreprocessOptions = Record<PreprocessStep, boolean>;
+
+export interface PreprocessRequest {
+  image: InlineImage;
+  options: PreprocessOptions;
+}
+
+export interface PreprocessResult {
+  image: InlineImage; // the upload itself when no step changed anything
+  applied: PreprocessStep[];
+  width: number;
+  height: number;
+  original: { width: number; height: number }; // upright
+}
+
+export interface TargetInput extends ProductInfo {
+  views: TargetViewInput[];
+  outfit?: OutfitPieceInput[];
+  plan: ShotPlan;
+}
+
+export interface CreateBatchRequest {
+  name: string;
+  sceneIds?: string[]; // from the scene library; they come before the uploaded scenes
+  scenes?: InlineImage[]; // uploaded for this session only
+  sceneOrder?: SceneOrder;
+  targets: TargetInput[];
+  identity?: IdentitySelection;
+  template?: TemplateRef;
+  promptVariables?: PromptVariables;
+  renditions?: RenditionSettings;
+  fidelity?: FidelitySettings;
+  budget?: number;
+  imageModel?: string;
+  concurrency?: number;
+}
+
+export interface ImageModelInfo {
+  id: string;
+  label: string;
+  imageSizes: ImageSize[]; // sizes it renders; larger requests come back at the largest
+}
+
+/** The image provider the server runs with, and the models a session can pick. */
+export interface ProviderInfo {
+  provider: string;
+  offline: boolean; // placeholder images, no API calls
+  models: ImageModelInfo[];
+  defaultModel: string;
+}
+
+/** Tokens one model call was billed for. */
+export interface TokenUsage {
+  model: string; // the model that billed the call, which prices it
+  promptTokens: number;
+  outputTokens: number; // includes thinking tokens, which bill as output
+}
+
+export type UsageKind = 'image' | 'critique';
+
+export interface UsageTotals {
+  calls: number;
+  images: number;
+  promptTokens: number;
+  outputTokens: number;
+  cost: number; // USD
+}
+
+export interface UsageReport {
+  total: UsageTotals;
+  byDay: (UsageTotals & { day: string })[]; // YYYY-MM-DD in server time, newest first
+  byBatch: (UsageTotals & { batchId?: string; name?: string })[]; // no batchId: deleted sessions and single jobs
+}
@@ -0,0 +1,110 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ImageModelInfo, ImageSize, TokenUsage } from './types.ts';
+
+export const DEFAULT_IMAGE_MODEL = "gemini-3-pro-image-preview";
+export const FLASH_IMAGE_MODEL = "gemini-2.5-flash-image";
+export const CRITIC_MODEL = "gemini-2.5-flash";
+
+export const IMAGE_MODELS: ImageModelInfo[] = [
+  { id: DEFAULT_IMAGE_MODEL, label: "Gemini 3 Pro Image", imageSizes: ['1K', '2K', '4K'] },
+  { id: FLASH_IMAGE_MODEL, label: "Gemini 2.5 Flash Image", imageSizes: ['1K'] },
+];
+
+export const findImageModel = (id: string) => IMAGE_MODELS.find(model => model.id === id);
+
+// USD per million tokens at Google's list prices. Check current pricing before relying on an estimate.
+export const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  [DEFAULT_IMAGE_MODEL]: { input: 2, output: 120 },
+  [FLASH_IMAGE_MODEL]: { input: 0.3, output: 30 },
+  [CRITIC_MODEL]: { input: 0.3, output: 2.5 },
+};
+
+// Tokens billed per image sent or generated.
+export const INPUT_IMAGE_TOKENS = 560;
+export const OUTPUT_IMAGE_TOKENS: Record<ImageSize, number> = { '1K': 1120, '2K': 1120, '4K': 2000 };
+const FLASH_OUTPUT_IMAGE_TOKENS = 1290; // Flash renders every image at about 1K
+
+const outputImageTokens = (imageSize: ImageSize, model: string) =>
+  model === FLASH_IMAGE_MODEL ? FLASH_OUTPUT_IMAGE_TOKENS : OUTPUT_IMAGE_TOKENS[imageSize];
+
+// Rough sizes of the text around the images, for estimates only.
+const PROMPT_TEXT_TOKENS = 600;
+const CRITIQUE_TEXT_TOKENS = 120;
+const CRITIQUE_OUTPUT_TOKENS = 80;
+
+/** What a call cost in USD. Models without a known price count as free. */
+export function usageCost({ model, promptTokens, outputTokens }: TokenUsage): number {
+  const price = MODEL_PRICING[model];
+  return price ? (promptTokens * price.input + outputTokens * price.output) / 1_000_000 : 0;
+}
+
+export const estimateImageUsage = (
+  imageSize: ImageSize,
+  inputImages: number,
+  textTokens = PROMPT_TEXT_TOKENS,
+  model = DEFAULT_IMAGE_MODEL
+): TokenUsage => ({
+  model,
+  promptTokens: textTokens + inputImages * INPUT_IMAGE_TOKENS,
+  outputTokens: outputImageTokens(imageSize, model),
+});
+
+export const estimateCritiqueUsage = (garmentImages: number): TokenUsage => ({
+  model: CRITIC_MODEL,
+  promptTokens: CRITIQUE_TEXT_TOKENS + (garmentImages + 1) * INPUT_IMAGE_TOKENS,
+  outputTokens: CRITIQUE_OUTPUT_TOKENS,
+});
+
+export interface EstimatedShot {
+  imageSize: ImageSize;
+  inputImages: number; // scene, product photos, outfit pieces and model references
+  garmentImages: number; // product photos, which the critique sees again
+}
+
+export interface CostEstimate {
+  calls: number;
+  critiqueCalls: number;
+  images: Record<ImageSize, number>;
+  promptTokens: number;
+  outputTokens: number;
+  cost: number; // USD
+}
+
+/** Pre-flight estimate for a run where every shot succeeds first time. Retries and re-queues cost extra. */
+export function estimateBatchCost(shots: EstimatedShot[], { critique = false, model = DEFAULT_IMAGE_MODEL } = {}): CostEstimate {
+  const estimate: CostEstimate = {
+    calls: shots.length,
+    critiqueCalls: critique ? shots.length : 0,
+    images: { '1K': 0, '2K': 0, '4K': 0 },
+    promptTokens: 0,
+    outputTokens: 0,
+    cost: 0,
+  };
+  for (const shot of shots) {
+    estimate.images[shot.imageSize]++;
+    const usages = [estimateImageUsage(shot.imageSize, shot.inputImages, undefined, model)];
+    if (critique) usages.push(estimateCritiqueUsage(shot.garmentImages));
+    for (const usage of usages) {
+      estimate.promptTokens += usage.promptTokens;
+      estimate.outputTokens += usage.outputTokens;
+      estimate.cost += usageCost(usage);
+    }
+  }
+  return estimate;
+}
+
+export const formatCost = (usd: number) => usd > 0 && usd < 0.01 ? "<$0.01" : `$${usd.toFixed(2)}`;
+
+export const formatTokens = (tokens: number) =>
+  tokens >= 1_000_000 ? `${(tokens / 1_000_000).toFixed(1)}M` : tokens >= 1000 ? `${Math.round(tokens / 1000)}k` : String(tokens);
+
+/** Returns an error message, or undefined for a usable budget (USD) or none. */
+export function validateBudget(value: unknown): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) return "The budget must be a positive amount in USD.";
+  return undefined;
+}
@@ -0,0 +1,166 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { isThumbnail } from '../core/renditions.ts';
+import type {
+  BatchRecord,
+  BatchSummary,
+  CreateBatchRequest,
+  CreateIdentityRequest,
+  InlineImage,
+  JobRecord,
+  LibraryScene,
+  ModelIdentity,
+  PreprocessRequest,
+  PreprocessResult,
+  PromptTemplate,
+  ProviderInfo,
+  RenditionInfo,
+  ReviewLink,
+  ReviewStatus,
+  SavePromptTemplateRequest,
+  SaveSceneRequest,
+  ShotPlan,
+  ShotPlanPreset,
+  SharedReview,
+  UsageReport,
+} from '../core/types.ts';
+
+export const POLL_INTERVAL_MS = 1500;
+
+async function request<T>(path: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(`/api${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new Error(body.error || `Request failed with status ${res.status}`);
+  }
+  return res.status === 204 ? (undefined as T) : res.json();
+}
+
+export const listBatches = () => request<BatchSummary[]>('/batches');
+
+export const getBatch = (id: string) => request<BatchRecord>(`/batches/${id}`);
+
+export const createBatch = (body: CreateBatchRequest) =>
+  request<BatchRecord>('/batches', { method: 'POST', body: JSON.stringify(body) });
+
+/** Starts or resumes a session from the first shot that is not completed. `budget` replaces its budget (null removes it); omitted leaves it. */
+export const runBatch = (id: string, concurrency?: number, budget?: number | null) =>
+  request<BatchRecord>(`/batches/${id}/run`, { method: 'POST', body: JSON.stringify({ concurrency, budget }) });
+
+export const pauseBatch = (id: string) => request<BatchRecord>(`/batches/${id}/pause`, { method: 'POST' });
+
+export const cancelBatch = (id: string) => request<BatchRecord>(`/batches/${id}/cancel`, { method: 'POST' });
+
+export const controlJob = (id: string, action: 'pause' | 'resume' | 'cancel') =>
+  request<JobRecord>(`/jobs/${id}/${action}`, { method: 'POST' });
+
+const shotPath = (jobId: string, shotIndex: number) => `/jobs/${jobId}/shots/${shotIndex}`;
+
+export const regenerateShot = (jobId: string, shotIndex: number, note?: string) =>
+  request<JobRecord>(`${shotPath(jobId, shotIndex)}/regenerate`, { method: 'POST', body: JSON.stringify({ note }) });
+
+export const addShotVariations = (jobId: string, shotIndex: number, count: number) =>
+  request<JobRecord>(`${shotPath(jobId, shotIndex)}/variations`, { method: 'POST', body: JSON.stringify({ count }) });
+
+export const reviewShot = (jobId: string, shotIndex: number, review: ReviewStatus | null) =>
+  request<JobRecord>(`${shotPath(jobId, shotIndex)}/review`, { method: 'PUT', body: JSON.stringify({ review }) });
+
+export const commentOnShot = (jobId: string, shotIndex: number, body: string) =>
+  request<JobRecord>(`${shotPath(jobId, shotIndex)}/comments`, { method: 'POST', body: JSON.stringify({ body }) });
+
+export const deleteBatch = (id: string) => request<void>(`/batches/${id}`, { method: 'DELETE' });
+
+export const listReviewLinks = (batchId: string) => request<ReviewLink[]>(`/batches/${batchId}/review-links`);
+
+export const createReviewLink = (batchId: string) =>
+  request<ReviewLink>(`/batches/${batchId}/review-links`, { method: 'POST' });
+
+export const deleteReviewLink = (batchId: string, token: string) =>
+  request<void>(`/batches/${batchId}/review-links/${token}`, { method: 'DELETE' });
+
+export const getSharedReview = (token: string) => request<SharedReview>(`/review/${token}`);
+
+const sharedShotPath = (token: string, jobId: string, shotIndex: number) =>
+  `/review/${token}/products/${jobId}/shots/${shotIndex}`;
+
+export const reviewSharedShot = (token: string, jobId: string, shotIndex: number, review: ReviewStatus | null, reviewer: string) =>
+  request<SharedReview>(`${sharedShotPath(token, jobId, shotIndex)}/review`, {
+    method: 'PUT',
+    body: JSON.stringify({ review, reviewer }),
+  });
+
+export const commentOnSharedShot = (token: string, jobId: string, shotIndex: number, body: string, reviewer: string) =>
+  request<SharedReview>(`${sharedShotPath(token, jobId, shotIndex)}/comments`, {
+    method: 'POST',
+    body: JSON.stringify({ body, reviewer }),
+  });
+
+export const listShotPlanPresets = () => request<ShotPlanPreset[]>('/shot-plans');
+
+export const saveShotPlanPreset = (name: string, plan: ShotPlan) =>
+  request<ShotPlanPreset>('/shot-plans', { method: 'POST', body: JSON.stringify({ name, plan }) });
+
+export const deleteShotPlanPreset = (id: string) => request<void>(`/shot-plans/${id}`, { method: 'DELETE' });
+
+export const listIdentities = () => request<ModelIdentity[]>('/identities');
+
+export const createIdentity = (body: CreateIdentityRequest) =>
+  request<ModelIdentity>('/identities', { method: 'POST', body: JSON.stringify(body) });
+
+export const addIdentityImages = (id: string, images: InlineImage[]) =>
+  request<ModelIdentity>(`/identities/${id}/images`, { method: 'POST', body: JSON.stringify({ images }) });
+
+export const deleteIdentity = (id: string) => request<void>(`/identities/${id}`, { method: 'DELETE' });
+
+export const getUsageReport = () => request<UsageReport>('/usage');
+
+export const getProvider = () => request<ProviderInfo>('/provider');
+
+export const listScenes = () => request<LibraryScene[]>('/scenes');
+
+/** Adds a scene to the library, or renames and retags scene `id`. */
+export const saveScene = (body: SaveSceneRequest, id?: string) =>
+  request<LibraryScene>(id ? `/scenes/${id}` : '/scenes', { method: id ? 'PUT' : 'POST', body: JSON.stringify(body) });
+
+export const deleteScene = (id: string) => request<void>(`/scenes/${id}`, { method: 'DELETE' });
+
+export const preprocessImage = (body: PreprocessRequest) =>
+  request<PreprocessResult>('/preprocess', { method: 'POST', body: JSON.stringify(body) });
+
+export const listPromptTemplates = () => request<PromptTemplate[]>('/prompt-templates');
+
+/** Saves a new template, or the next version of template `id`. */
+export const savePromptTemplate = (body: SavePromptTemplateRequest, id?: string) =>
+  request<PromptTemplate>(id ? `/prompt-templates/${id}` : '/prompt-templates', { method: 'POST', body: JSON.stringify(body) });
+
+export const deletePromptTemplate = (id: string) => request<void>(`/prompt-templates/${id}`, { method: 'DELETE' });
+
+export const imageUrl = (id: string) => `/api/images/${id}`;
+
+export const renditionUrl = (imageId: string, name: string) => `/api/images/${imageId}/renditions/${name}`;
+
+// The narrowest full-frame rendition at least 600px wide is plenty for a results grid.
+export const previewUrl = (imageId: string, renditions: RenditionInfo[]) => {
+  const fit = renditions
+    .filter(r => !isThumbnail(r) && r.width >= 600)
+    .sort((a, b) => a.width - b.width)[0];
+  return fit ? renditionUrl(imageId, fit.name) : imageUrl(imageId);
+};
+
+/** The page a review link opens, on whatever host is serving the studio. */
+export const reviewPageUrl = (token: string) => `${location.origin}/review/${token}`;
+
+/** Catalog ZIP for the whole session, or for one of its products. */
+export const exportUrl = (batchId: string, options: { jobId?: string; approvedOnly?: boolean } = {}) => {
+  const query = new URLSearchParams();
+  if (options.jobId) query.set('job', options.jobId);
+  if (options.approvedOnly) query.set('approved', '1');
+  const search = query.toString();
+  return `/api/batches/${batchId}/export${search ? `?${search}` : ''}`;
+};
@@ -1,10 +1,14 @@
 import {StrictMode} from 'react';
 import {createRoot} from 'react-dom/client';
 import App from './App.tsx';
+import ReviewPortal from './components/ReviewPortal.tsx';
 import './index.css';
 
+// Review links open their own page, outside the studio.
+const reviewToken = location.pathname.match(/^\/review\/([\w-]+)\/?$/)?.[1];
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    {reviewToken ? <ReviewPortal token={reviewToken} /> : <App />}
   </StrictMode>,
 );